@@ -1,6 +1,18 @@
 import type { Preview } from '@storybook/nextjs-vite'
+import { createElement } from 'react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+
+// apiUrl-backed fields load options through React Query (see components/DynamicSearch/fieldOptions.ts)
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false },
+  },
+})
 
 const preview: Preview = {
+  decorators: [
+    (Story) => createElement(QueryClientProvider, { client: queryClient }, createElement(Story)),
+  ],
   parameters: {
     controls: {
       matchers: {
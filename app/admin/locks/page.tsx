@@ -0,0 +1,359 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  Paper,
+  Alert,
+  Button,
+  Chip,
+  IconButton,
+  Tooltip,
+  TextField,
+  MenuItem,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Refresh as RefreshIcon,
+  History as HistoryIcon,
+  LockOpen as LockOpenIcon,
+  Search as SearchIcon,
+} from '@mui/icons-material';
+import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import dayjs from 'dayjs';
+import { useAdminLocks, useLockHistory, useForceReleaseLock } from '@/hooks/useLockAdmin';
+import type { LockStatus, LockHistoryEntry, LockHistoryQuery } from '@/lib/api/lockAdmin';
+
+// In production, get the user and role from the auth context
+const admin = { userId: 'admin@example.com', isAdmin: true };
+
+const EVENT_CHIPS: Record<LockHistoryEntry['type'], { label: string; color: 'success' | 'default' | 'warning' | 'error' }> = {
+  acquire: { label: 'Acquired', color: 'success' },
+  release: { label: 'Released', color: 'default' },
+  expire: { label: 'Expired', color: 'warning' },
+  force_release: { label: 'Force-released', color: 'error' },
+};
+
+// "1h 4m", "3m 12s", "45s"
+const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+};
+
+export default function LockAdminPage() {
+  const { data, isLoading, isFetching, isError, error, refetch, dataUpdatedAt } = useAdminLocks(admin);
+  const forceRelease = useForceReleaseLock(admin);
+
+  // Tick every second so held/remaining times stay live between refetches
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Correct for the difference between the server and browser clocks
+  const clockOffset = data ? new Date(data.serverTime).getTime() - dataUpdatedAt : 0;
+  const serverNow = now + clockOffset;
+
+  // Force-release confirmation
+  const [releaseTarget, setReleaseTarget] = useState<LockStatus | null>(null);
+  const [releaseReason, setReleaseReason] = useState('');
+
+  // History lookup - all tables by default, or a single row
+  const [historyForm, setHistoryForm] = useState<LockHistoryQuery>({ tableName: '', rowId: '', type: undefined });
+  const [historyQuery, setHistoryQuery] = useState<LockHistoryQuery>({ limit: 100 });
+  const history = useLockHistory(historyQuery, admin);
+
+  const showRowHistory = (tableName: string, rowId: string) => {
+    setHistoryForm({ tableName, rowId, type: undefined });
+    setHistoryQuery({ tableName, rowId, limit: 100 });
+  };
+
+  const handleHistorySearch = () => {
+    setHistoryQuery({
+      tableName: historyForm.tableName || undefined,
+      rowId: historyForm.tableName && historyForm.rowId ? historyForm.rowId : undefined,
+      type: historyForm.type,
+      limit: 100,
+    });
+  };
+
+  const handleConfirmRelease = async () => {
+    if (!releaseTarget) return;
+    try {
+      await forceRelease.mutateAsync({
+        tableName: releaseTarget.tableName,
+        rowId: releaseTarget.rowId,
+        reason: releaseReason.trim() || undefined,
+      });
+      setReleaseTarget(null);
+      setReleaseReason('');
+      history.refetch();
+    } catch (error) {
+      // Error is handled by mutation state
+      console.error('Failed to force-release lock:', error);
+    }
+  };
+
+  const lockColumns: GridColDef<LockStatus>[] = [
+    { field: 'tableName', headerName: 'Table', width: 130 },
+    { field: 'rowId', headerName: 'Row', width: 90 },
+    { field: 'lockedBy', headerName: 'Locked By', flex: 1, minWidth: 200 },
+    {
+      field: 'acquiredAt',
+      headerName: 'Locked At',
+      width: 170,
+      valueFormatter: (value) => dayjs(value).format('YYYY-MM-DD HH:mm:ss'),
+    },
+    {
+      field: 'lockedAt',
+      headerName: 'Last Activity',
+      width: 170,
+      valueFormatter: (value) => dayjs(value).format('YYYY-MM-DD HH:mm:ss'),
+    },
+    {
+      field: 'heldForMs',
+      headerName: 'Held For',
+      width: 110,
+      valueGetter: (_value, row) => serverNow - new Date(row.acquiredAt).getTime(),
+      valueFormatter: (value: number) => formatDuration(value),
+    },
+    {
+      field: 'remainingMs',
+      headerName: 'Time Left',
+      width: 180,
+      valueGetter: (_value, row) => Math.max(0, new Date(row.expiresAt).getTime() - serverNow),
+      renderCell: (params) => {
+        const remaining = params.value as number;
+        const percent = Math.min(100, (remaining / params.row.timeoutMs) * 100);
+        return (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, height: '100%' }}>
+            <LinearProgress
+              variant="determinate"
+              value={percent}
+              color={percent < 20 ? 'error' : percent < 50 ? 'warning' : 'primary'}
+              sx={{ flex: 1 }}
+            />
+            <Typography variant="body2" sx={{ minWidth: 56, textAlign: 'right' }}>
+              {formatDuration(remaining)}
+            </Typography>
+          </Box>
+        );
+      },
+    },
+    { field: 'token', headerName: 'Token', width: 80, type: 'number' },
+    {
+      field: 'actions',
+      headerName: 'Actions',
+      width: 110,
+      sortable: false,
+      filterable: false,
+      renderCell: (params) => (
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          <Tooltip title="Show history">
+            <IconButton size="small" onClick={() => showRowHistory(params.row.tableName, params.row.rowId)}>
+              <HistoryIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={params.row.adminCanSteal ? 'Force release' : 'Admins cannot release locks in this table'}>
+            <span>
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() => setReleaseTarget(params.row)}
+                disabled={!params.row.adminCanSteal}
+              >
+                <LockOpenIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Box>
+      ),
+    },
+  ];
+
+  const historyColumns: GridColDef<LockHistoryEntry>[] = [
+    {
+      field: 'at',
+      headerName: 'When',
+      width: 170,
+      valueFormatter: (value) => dayjs(value).format('YYYY-MM-DD HH:mm:ss'),
+    },
+    {
+      field: 'type',
+      headerName: 'Event',
+      width: 140,
+      renderCell: (params) => (
+        <Chip size="small" label={EVENT_CHIPS[params.row.type].label} color={EVENT_CHIPS[params.row.type].color} />
+      ),
+    },
+    { field: 'tableName', headerName: 'Table', width: 120 },
+    { field: 'rowId', headerName: 'Row', width: 80 },
+    { field: 'lockedBy', headerName: 'Lock Holder', flex: 1, minWidth: 180 },
+    { field: 'actor', headerName: 'Released By', width: 180 },
+    { field: 'reason', headerName: 'Reason', flex: 1, minWidth: 160 },
+    { field: 'token', headerName: 'Token', width: 80, type: 'number' },
+  ];
+
+  return (
+    <Container maxWidth="xl" sx={{ py: 4 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 4 }}>
+        <Box>
+          <Typography variant="h3" component="h1" gutterBottom>
+            Lock Admin
+          </Typography>
+          <Typography variant="subtitle1" color="text.secondary" paragraph>
+            Active row locks across all tables. Each table&apos;s lock policy sets how long a lock survives without a
+            heartbeat and how long it can be held in total.
+          </Typography>
+        </Box>
+        <Tooltip title="Refresh">
+          <IconButton onClick={() => refetch()} disabled={isFetching}>
+            <RefreshIcon />
+          </IconButton>
+        </Tooltip>
+      </Box>
+
+      {isError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error?.message || 'Failed to load locks'}
+        </Alert>
+      )}
+
+      {/* Active Locks */}
+      <Paper elevation={2} sx={{ p: 3, mb: 4 }}>
+        <Typography variant="h5" sx={{ mb: 2 }}>
+          Active Locks
+          <Chip label={data?.locks.length ?? 0} size="small" color="primary" sx={{ ml: 2 }} />
+        </Typography>
+        <DataGrid
+          rows={data?.locks ?? []}
+          columns={lockColumns}
+          getRowId={(row) => `${row.tableName}:${row.rowId}`}
+          loading={isLoading}
+          autoHeight
+          disableRowSelectionOnClick
+          initialState={{ pagination: { paginationModel: { pageSize: 25 } } }}
+          pageSizeOptions={[25, 50, 100]}
+          localeText={{ noRowsLabel: 'No active locks' }}
+        />
+      </Paper>
+
+      {/* Lock History */}
+      <Paper elevation={2} sx={{ p: 3 }}>
+        <Typography variant="h5" sx={{ mb: 1 }}>
+          Lock History
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Recent acquire, release and expire events, newest first. Enter a table and row to see who was editing it.
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Table"
+            size="small"
+            value={historyForm.tableName ?? ''}
+            onChange={(e) => setHistoryForm((prev) => ({ ...prev, tableName: e.target.value }))}
+          />
+          <TextField
+            label="Row"
+            size="small"
+            value={historyForm.rowId ?? ''}
+            onChange={(e) => setHistoryForm((prev) => ({ ...prev, rowId: e.target.value }))}
+            disabled={!historyForm.tableName}
+          />
+          <TextField
+            select
+            label="Event"
+            size="small"
+            value={historyForm.type ?? ''}
+            onChange={(e) =>
+              setHistoryForm((prev) => ({ ...prev, type: (e.target.value || undefined) as LockHistoryQuery['type'] }))
+            }
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All events</MenuItem>
+            {Object.entries(EVENT_CHIPS).map(([type, chip]) => (
+              <MenuItem key={type} value={type}>
+                {chip.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Button variant="contained" startIcon={<SearchIcon />} onClick={handleHistorySearch}>
+            Search
+          </Button>
+        </Box>
+
+        {history.isError && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {history.error?.message || 'Failed to load lock history'}
+          </Alert>
+        )}
+
+        <DataGrid
+          rows={history.data ?? []}
+          columns={historyColumns}
+          loading={history.isLoading}
+          autoHeight
+          disableRowSelectionOnClick
+          initialState={{ pagination: { paginationModel: { pageSize: 25 } } }}
+          pageSizeOptions={[25, 50, 100]}
+          localeText={{ noRowsLabel: 'No lock events recorded' }}
+        />
+      </Paper>
+
+      {/* Force Release Dialog */}
+      <Dialog open={!!releaseTarget} onClose={() => setReleaseTarget(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Force release lock?</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {releaseTarget &&
+              `${releaseTarget.lockedBy} will lose the lock on ${releaseTarget.tableName} row ${releaseTarget.rowId}. ` +
+                'Unsaved changes on their side will be rejected when they try to save.'}
+          </DialogContentText>
+          <TextField
+            label="Reason"
+            value={releaseReason}
+            onChange={(e) => setReleaseReason(e.target.value)}
+            helperText="Recorded in the lock history"
+            fullWidth
+            autoFocus
+          />
+          {forceRelease.isError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {forceRelease.error?.message || 'Failed to release lock'}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReleaseTarget(null)} disabled={forceRelease.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleConfirmRelease}
+            disabled={forceRelease.isPending}
+            startIcon={forceRelease.isPending ? <CircularProgress size={20} color="inherit" /> : <LockOpenIcon />}
+          >
+            Force Release
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Container>
+  );
+}
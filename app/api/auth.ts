@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// The caller, for endpoints that check ownership or the admin role
+export interface RequestUser {
+  userId: string;
+  isAdmin: boolean;
+}
+
+// Identity sent as X-User-Id and X-User-Role (admin | user), e.g. by actorHeaders in lib/api/auth.ts.
+// In production, derive the user and role from the session instead of request headers.
+export function getRequestUser(request: NextRequest): RequestUser | null {
+  const userId = request.headers.get('x-user-id');
+  return userId ? { userId, isAdmin: request.headers.get('x-user-role') === 'admin' } : null;
+}
+
+export const userRequired = () =>
+  NextResponse.json(
+    { message: 'Missing required header: X-User-Id' },
+    { status: 401 }
+  );
@@ -1,20 +1,42 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   // Example API that uses different field names (name/id instead of label/value)
   const cities = [
     { id: 'nyc', name: 'New York City', country: 'US' },
+    { id: 'lax', name: 'Los Angeles', country: 'US' },
+    { id: 'chi', name: 'Chicago', country: 'US' },
     { id: 'lon', name: 'London', country: 'UK' },
+    { id: 'man', name: 'Manchester', country: 'UK' },
     { id: 'tok', name: 'Tokyo', country: 'JP' },
+    { id: 'osa', name: 'Osaka', country: 'JP' },
     { id: 'par', name: 'Paris', country: 'FR' },
+    { id: 'lyo', name: 'Lyon', country: 'FR' },
     { id: 'ber', name: 'Berlin', country: 'DE' },
+    { id: 'muc', name: 'Munich', country: 'DE' },
     { id: 'syd', name: 'Sydney', country: 'AU' },
+    { id: 'mel', name: 'Melbourne', country: 'AU' },
     { id: 'tor', name: 'Toronto', country: 'CA' },
+    { id: 'van', name: 'Vancouver', country: 'CA' },
     { id: 'mum', name: 'Mumbai', country: 'IN' },
+    { id: 'del', name: 'Delhi', country: 'IN' },
+    { id: 'sao', name: 'São Paulo', country: 'BR' },
+    { id: 'sha', name: 'Shanghai', country: 'CN' },
   ];
 
+  // Optional country filter for cascading dropdowns, e.g. /api/cities?country=us
+  // Accepts a comma-separated list; country codes are matched case-insensitively
+  const countryParam = request.nextUrl.searchParams.get('country');
+  const countries = countryParam
+    ? countryParam.split(',').map((c) => c.trim().toUpperCase()).filter(Boolean)
+    : [];
+
+  const filtered = countries.length > 0
+    ? cities.filter((city) => countries.includes(city.country))
+    : cities;
+
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 500));
 
-  return NextResponse.json(cities);
+  return NextResponse.json(filtered);
 }
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock database - replace with your actual database
-let mockLocks: Record<string, { lockedBy: string; lockedAt: Date }> = {};
-
-const LOCK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+import { getLockRepository } from '@/lib/locks';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,54 +12,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const lockKey = `${tableName}:${rowId}`;
-    const existingLock = mockLocks[lockKey];
-
-    if (existingLock) {
-      const lockAge = Date.now() - new Date(existingLock.lockedAt).getTime();
+    const result = await getLockRepository().acquire(tableName, String(rowId), userId);
 
-      // If user already has the lock, refresh it
-      if (existingLock.lockedBy === userId) {
-        mockLocks[lockKey] = {
-          lockedBy: userId,
-          lockedAt: new Date()
-        };
-
-        return NextResponse.json({
-          success: true,
-          message: 'Lock refreshed',
-          lockedBy: userId,
-          lockedAt: mockLocks[lockKey].lockedAt
-        });
-      }
-
-      // If lock is still valid and owned by someone else
-      if (lockAge < LOCK_TIMEOUT) {
-        return NextResponse.json(
-          {
-            error: 'Row is locked by another user',
-            lockedBy: existingLock.lockedBy,
-            lockedAt: existingLock.lockedAt
-          },
-          { status: 423 } // 423 Locked
-        );
-      }
+    // Lock is still valid and owned by someone else
+    if (result.status === 'conflict') {
+      return NextResponse.json(
+        {
+          error: 'Row is locked by another user',
+          lockedBy: result.lock.lockedBy,
+          lockedAt: result.lock.lockedAt
+        },
+        { status: 423 } // 423 Locked
+      );
+    }
 
-      // Lock is stale, will be replaced below
-      console.log(`Replacing stale lock on ${lockKey} (was locked by ${existingLock.lockedBy})`);
+    // Row is free but held for the user at the head of its queue
+    if (result.status === 'reserved') {
+      return NextResponse.json(
+        {
+          error: 'Row is reserved for the next user in the queue',
+          lockedBy: result.reservation.userId,
+          reservedUntil: result.reservation.expiresAt
+        },
+        { status: 423 }
+      );
     }
 
-    // Acquire new lock
-    mockLocks[lockKey] = {
-      lockedBy: userId,
-      lockedAt: new Date()
-    };
+    if (result.status === 'acquired' && result.replaced) {
+      console.log(`Replaced stale lock on ${tableName}:${rowId} (was locked by ${result.replaced.lockedBy})`);
+    }
 
     return NextResponse.json({
       success: true,
-      message: 'Lock acquired',
-      lockedBy: userId,
-      lockedAt: mockLocks[lockKey].lockedAt
+      message: result.status === 'refreshed' ? 'Lock refreshed' : 'Lock acquired',
+      lockedBy: result.lock.lockedBy,
+      lockedAt: result.lock.lockedAt,
+      token: result.lock.token // Fencing token - send as X-Lock-Token when saving
     });
 
   } catch (error: any) {
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '../../auth';
+
+// Admin identity for the lock admin endpoints: X-User-Id with X-User-Role: admin (see app/api/auth.ts)
+export function getLockAdmin(request: NextRequest): { adminId: string } | null {
+  const user = getRequestUser(request);
+  return user?.isAdmin ? { adminId: user.userId } : null;
+}
+
+export const adminRequired = () =>
+  NextResponse.json(
+    { error: 'Admin role required' },
+    { status: 403 }
+  );
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository, type LockHistoryType } from '@/lib/locks';
+import { getLockAdmin, adminRequired } from '../auth';
+
+const HISTORY_TYPES: LockHistoryType[] = ['acquire', 'release', 'expire', 'force_release'];
+
+// GET /api/locks/admin/history - Recent lock events, newest first
+// Optional: ?tableName=products&rowId=42&type=force_release&limit=100
+export async function GET(request: NextRequest) {
+  if (!getLockAdmin(request)) return adminRequired();
+
+  const searchParams = request.nextUrl.searchParams;
+  const type = searchParams.get('type');
+  const limit = searchParams.get('limit');
+
+  if (type && !HISTORY_TYPES.includes(type as LockHistoryType)) {
+    return NextResponse.json(
+      { error: `type must be one of: ${HISTORY_TYPES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (limit && (!Number.isInteger(Number(limit)) || Number(limit) < 1)) {
+    return NextResponse.json(
+      { error: 'limit must be a positive integer' },
+      { status: 400 }
+    );
+  }
+
+  const events = getLockRepository().getHistory({
+    tableName: searchParams.get('tableName') || undefined,
+    rowId: searchParams.get('rowId') || undefined,
+    type: (type as LockHistoryType) || undefined,
+    limit: limit ? Number(limit) : undefined,
+  });
+
+  return NextResponse.json({ events });
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository } from '@/lib/locks';
+import { getLockAdmin, adminRequired } from '../auth';
+
+// POST /api/locks/admin/release - Force-release another user's lock
+// Body: { tableName, rowId, reason? } - recorded in the lock history as 'force_release'
+// 403 when the table's lock policy has adminCanSteal: false
+export async function POST(request: NextRequest) {
+  const admin = getLockAdmin(request);
+  if (!admin) return adminRequired();
+
+  try {
+    const { tableName, rowId, reason } = await request.json();
+
+    if (!tableName || !rowId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tableName, rowId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getLockRepository().forceRelease(tableName, String(rowId), admin.adminId, reason || undefined);
+
+    if (result.status === 'not_found') {
+      return NextResponse.json(
+        { error: 'Lock not found' },
+        { status: 404 }
+      );
+    }
+
+    if (result.status === 'forbidden') {
+      return NextResponse.json(
+        { error: `Locks on ${tableName} cannot be released by admins` },
+        { status: 403 }
+      );
+    }
+
+    console.warn(
+      `[lock audit] ${admin.adminId} force-released ${tableName}:${rowId} held by ${result.lock.lockedBy}` +
+        (reason ? ` - ${reason}` : '')
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Lock force-released',
+      lock: result.lock
+    });
+
+  } catch (error: any) {
+    console.error('Lock force-release error:', error);
+    return NextResponse.json(
+      { error: 'Failed to release lock', details: error.message },
+      { status: 500 }
+    );
+  }
+}
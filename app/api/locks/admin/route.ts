@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository } from '@/lib/locks';
+import { getLockAdmin, adminRequired } from './auth';
+
+// GET /api/locks/admin - Every active lock across tables, with time held and time left
+// under each table's lock policy
+// Optional: ?tableName=products
+export async function GET(request: NextRequest) {
+  if (!getLockAdmin(request)) return adminRequired();
+
+  try {
+    const tableName = request.nextUrl.searchParams.get('tableName');
+    const locks = await getLockRepository().listAll();
+
+    return NextResponse.json({
+      locks: tableName ? locks.filter((lock) => lock.tableName === tableName) : locks,
+      serverTime: new Date().toISOString(),
+    });
+
+  } catch (error: any) {
+    console.error('Lock admin list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list locks', details: error.message },
+      { status: 500 }
+    );
+  }
+}
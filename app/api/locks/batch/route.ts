@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository } from '@/lib/locks';
+
+const MAX_BATCH_SIZE = 500;
+
+const parseBody = async (request: NextRequest) => {
+  const { tableName, rowIds, userId, tokens } = await request.json();
+  const valid = !!tableName && !!userId && Array.isArray(rowIds) && rowIds.length > 0;
+  return {
+    tableName,
+    userId,
+    rowIds: valid ? [...new Set<string>(rowIds.map(String))] : null,
+    tokens: (tokens && typeof tokens === 'object' ? tokens : {}) as Record<string, unknown>,
+  };
+};
+
+// POST /api/locks/batch - lock several rows at once, all or nothing
+//   200 { locks: [{ rowId, lockedAt, token, refreshed }] }
+//   423 { conflicts: [{ rowId, lockedBy, lockedAt?, reservedUntil? }] } - nothing was locked
+export async function POST(request: NextRequest) {
+  try {
+    const { tableName, rowIds, userId } = await parseBody(request);
+
+    if (!rowIds) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tableName, rowIds, userId' },
+        { status: 400 }
+      );
+    }
+
+    if (rowIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `Cannot lock more than ${MAX_BATCH_SIZE} rows at once` },
+        { status: 400 }
+      );
+    }
+
+    const result = await getLockRepository().acquireMany(tableName, rowIds, userId);
+
+    if (result.status === 'conflict') {
+      return NextResponse.json(
+        {
+          error: 'Some rows are locked by other users',
+          conflicts: result.conflicts.map((conflict) =>
+            conflict.status === 'conflict'
+              ? { rowId: conflict.lock.rowId, lockedBy: conflict.lock.lockedBy, lockedAt: conflict.lock.lockedAt }
+              : { rowId: conflict.reservation.rowId, lockedBy: conflict.reservation.userId, reservedUntil: conflict.reservation.expiresAt }
+          )
+        },
+        { status: 423 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      locks: result.locks.map((lock) => ({
+        rowId: lock.rowId,
+        lockedAt: lock.lockedAt,
+        token: lock.token, // Fencing token per row - send with the bulk update
+        refreshed: result.refreshed.includes(lock.rowId) // Already held by the caller, e.g. open in another form
+      }))
+    });
+
+  } catch (error: any) {
+    console.error('Batch lock acquisition error:', error);
+    return NextResponse.json(
+      { error: 'Failed to acquire locks', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/locks/batch - release several of the caller's locks; rows not locked by them are skipped
+// Optional tokens: { [rowId]: token } - release a row only while its lock still carries that token
+export async function DELETE(request: NextRequest) {
+  try {
+    const { tableName, rowIds, userId, tokens } = await parseBody(request);
+
+    if (!rowIds) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tableName, rowIds, userId' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getLockRepository();
+    const results = await Promise.all(rowIds.map((rowId) => {
+      const token = Object.hasOwn(tokens, rowId) ? Number(tokens[rowId]) : undefined;
+      return repository.release(tableName, rowId, userId, token);
+    }));
+
+    return NextResponse.json({
+      success: true,
+      released: results.filter((result) => result.status === 'released').length
+    });
+
+  } catch (error: any) {
+    console.error('Batch lock release error:', error);
+    return NextResponse.json(
+      { error: 'Failed to release locks', details: error.message },
+      { status: 500 }
+    );
+  }
+}
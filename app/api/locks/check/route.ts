@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock database - replace with your actual database
-let mockLocks: Record<string, { lockedBy: string; lockedAt: Date }> = {};
-
-const LOCK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+import { getLockRepository } from '@/lib/locks';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,12 +14,11 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const now = Date.now();
+    const repository = getLockRepository();
 
     if (rowId) {
-      // Check specific row
-      const lockKey = `${tableName}:${rowId}`;
-      const lock = mockLocks[lockKey];
+      // Check specific row (expired locks are cleaned up and reported as unlocked)
+      const lock = await repository.get(tableName, rowId);
 
       if (!lock) {
         return NextResponse.json({
@@ -32,17 +27,6 @@ export async function GET(request: NextRequest) {
         });
       }
 
-      // Check if lock is stale
-      const lockAge = now - new Date(lock.lockedAt).getTime();
-      if (lockAge >= LOCK_TIMEOUT) {
-        // Cleanup stale lock
-        delete mockLocks[lockKey];
-        return NextResponse.json({
-          locked: false,
-          lock: null
-        });
-      }
-
       return NextResponse.json({
         locked: true,
         lock: {
@@ -53,29 +37,23 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Get all locks for the table
-    const tableLocks = Object.entries(mockLocks)
-      .filter(([key]) => key.startsWith(`${tableName}:`))
-      .map(([key, lock]) => {
-        const rowId = key.split(':')[1];
-        const lockAge = now - new Date(lock.lockedAt).getTime();
-
-        // Filter out stale locks
-        if (lockAge >= LOCK_TIMEOUT) {
-          delete mockLocks[key];
-          return null;
-        }
+    // Get all active locks for the table
+    const tableLocks = (await repository.listTable(tableName)).map((lock) => ({
+      rowId: lock.rowId,
+      lockedBy: lock.lockedBy,
+      lockedAt: lock.lockedAt
+    }));
 
-        return {
-          rowId,
-          lockedBy: lock.lockedBy,
-          lockedAt: lock.lockedAt
-        };
-      })
-      .filter(lock => lock !== null);
+    // Freed rows held for the next user in their queue
+    const reservations = (await repository.listReservations(tableName)).map((reservation) => ({
+      rowId: reservation.rowId,
+      reservedFor: reservation.userId,
+      expiresAt: reservation.expiresAt
+    }));
 
     return NextResponse.json({
-      locks: tableLocks
+      locks: tableLocks,
+      reservations
     });
 
   } catch (error: any) {
@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock database - replace with your actual database
-let mockLocks: Record<string, { lockedBy: string; lockedAt: Date }> = {};
-
-const LOCK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+import { getLockRepository } from '@/lib/locks';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,27 +9,16 @@ export async function POST(request: NextRequest) {
     //   return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     // }
 
-    const now = Date.now();
-    const staleKeys: string[] = [];
-
-    // Find all stale locks
-    Object.entries(mockLocks).forEach(([key, lock]) => {
-      const lockAge = now - new Date(lock.lockedAt).getTime();
-      if (lockAge >= LOCK_TIMEOUT) {
-        staleKeys.push(key);
-      }
-    });
+    const removed = await getLockRepository().cleanup();
 
-    // Delete stale locks
-    staleKeys.forEach(key => {
-      console.log(`Cleaning up stale lock: ${key} (locked by ${mockLocks[key].lockedBy})`);
-      delete mockLocks[key];
+    removed.forEach((lock) => {
+      console.log(`Cleaned up stale lock: ${lock.tableName}:${lock.rowId} (locked by ${lock.lockedBy})`);
     });
 
     return NextResponse.json({
       success: true,
-      message: `Cleaned up ${staleKeys.length} stale locks`,
-      cleanedLocks: staleKeys.length
+      message: `Cleaned up ${removed.length} stale locks`,
+      cleanedLocks: removed.length
     });
 
   } catch (error: any) {
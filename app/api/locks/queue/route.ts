@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository } from '@/lib/locks';
+
+// GET /api/locks/queue?tableName=products&rowId=1    - who is waiting for a row, and its reservation
+// GET /api/locks/queue?tableName=products&userId=bob - rows a user is queued for or has a reservation on
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const tableName = searchParams.get('tableName');
+    const rowId = searchParams.get('rowId');
+    const userId = searchParams.get('userId');
+
+    if (!tableName || (!rowId && !userId)) {
+      return NextResponse.json(
+        { error: 'tableName and either rowId or userId parameters are required' },
+        { status: 400 }
+      );
+    }
+
+    const repository = getLockRepository();
+
+    if (rowId) {
+      const { entries, reservation } = await repository.getQueue(tableName, rowId);
+      return NextResponse.json({
+        queue: entries.map((entry, index) => ({
+          userId: entry.userId,
+          queuedAt: entry.queuedAt,
+          position: index + 1
+        })),
+        reservation: reservation ?? null
+      });
+    }
+
+    return NextResponse.json(await repository.getUserQueue(tableName, userId!));
+
+  } catch (error: any) {
+    console.error('Lock queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read lock queue', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/locks/queue - join a locked row's queue, to be notified when it frees up
+export async function POST(request: NextRequest) {
+  try {
+    const { tableName, rowId, userId } = await request.json();
+
+    if (!tableName || !rowId || !userId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tableName, rowId, userId' },
+        { status: 400 }
+      );
+    }
+
+    const result = await getLockRepository().enqueue(tableName, String(rowId), userId);
+
+    switch (result.status) {
+      case 'queued':
+        return NextResponse.json({ success: true, queued: true, position: result.position });
+      case 'reserved':
+        return NextResponse.json({ success: true, queued: false, reservedUntil: result.reservation.expiresAt });
+      case 'holder':
+        return NextResponse.json(
+          { error: 'You already hold this lock' },
+          { status: 409 }
+        );
+      case 'available':
+        return NextResponse.json(
+          { error: 'Row is not locked - acquire it instead' },
+          { status: 409 }
+        );
+    }
+
+  } catch (error: any) {
+    console.error('Lock queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to join lock queue', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/locks/queue - leave a row's queue, or give up a reservation
+export async function DELETE(request: NextRequest) {
+  try {
+    const { tableName, rowId, userId } = await request.json();
+
+    if (!tableName || !rowId || !userId) {
+      return NextResponse.json(
+        { error: 'Missing required fields: tableName, rowId, userId' },
+        { status: 400 }
+      );
+    }
+
+    const left = await getLockRepository().dequeue(tableName, String(rowId), userId);
+
+    if (!left) {
+      return NextResponse.json(
+        { error: 'Not in the queue for this row' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Left lock queue'
+    });
+
+  } catch (error: any) {
+    console.error('Lock queue error:', error);
+    return NextResponse.json(
+      { error: 'Failed to leave lock queue', details: error.message },
+      { status: 500 }
+    );
+  }
+}
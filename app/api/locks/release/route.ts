@@ -1,9 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Mock database - replace with your actual database
-// Note: This should be the same object as in acquire/route.ts
-// In production, this would be in your database
-let mockLocks: Record<string, { lockedBy: string; lockedAt: Date }> = {};
+import { getLockRepository } from '@/lib/locks';
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,26 +12,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const lockKey = `${tableName}:${rowId}`;
-    const existingLock = mockLocks[lockKey];
+    const result = await getLockRepository().release(tableName, String(rowId), userId);
 
-    if (!existingLock) {
+    if (result.status === 'not_found') {
       return NextResponse.json(
         { error: 'Lock not found' },
         { status: 404 }
       );
     }
 
-    if (existingLock.lockedBy !== userId) {
+    if (result.status === 'forbidden') {
       return NextResponse.json(
         { error: 'Lock is owned by another user' },
         { status: 403 }
       );
     }
 
-    // Release the lock
-    delete mockLocks[lockKey];
-
     return NextResponse.json({
       success: true,
       message: 'Lock released'
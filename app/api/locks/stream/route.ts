@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLockRepository, type LockReservation, type StoredLock } from '@/lib/locks';
+
+const HEARTBEAT_INTERVAL = 25 * 1000; // Keeps proxies from closing an idle connection
+
+// Same shape as the locks returned by /api/locks/check
+const toClientLock = (lock: StoredLock) => ({
+  rowId: lock.rowId,
+  lockedBy: lock.lockedBy,
+  lockedAt: lock.lockedAt,
+});
+
+const toClientReservation = (reservation: LockReservation) => ({
+  rowId: reservation.rowId,
+  reservedFor: reservation.userId,
+  expiresAt: reservation.expiresAt,
+});
+
+// GET /api/locks/stream?tableName=products - Server-Sent Events for one table's locks
+//   event: snapshot  data: { locks: [...], reservations: [...] }   sent once on connect
+//   event: acquire   data: { rowId, lockedBy, lockedAt }   (also sent when the owner refreshes)
+//   event: release   data: { rowId, lockedBy, lockedAt }
+//   event: expire    data: { rowId, lockedBy, lockedAt }
+//   event: reserve   data: { rowId, reservedFor, expiresAt }   a freed row is held for the first user in its queue
+//   event: unreserve data: { rowId, reservedFor, expiresAt }
+export async function GET(request: NextRequest) {
+  const tableName = request.nextUrl.searchParams.get('tableName');
+
+  if (!tableName) {
+    return NextResponse.json(
+      { error: 'tableName parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  const repository = getLockRepository();
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // Subscribe before reading the snapshot so no change in between is missed
+      const unsubscribe = repository.subscribe((event) => {
+        if ('lock' in event) {
+          if (event.lock.tableName === tableName) send(event.type, toClientLock(event.lock));
+        } else if (event.reservation.tableName === tableName) {
+          send(event.type, toClientReservation(event.reservation));
+        }
+      });
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => stop());
+
+      try {
+        const locks = await repository.listTable(tableName);
+        const reservations = await repository.listReservations(tableName);
+        send('snapshot', { locks: locks.map(toClientLock), reservations: reservations.map(toClientReservation) });
+      } catch (error: any) {
+        console.error('Lock stream error:', error);
+        stop();
+      }
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { products } from '@/lib/productStore';
+import { toETag } from '@/lib/etag';
+import { markRestored } from '../../update';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// POST /api/products/[id]/restore - Undo a soft delete
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const productId = parseInt(id, 10);
+
+  if (isNaN(productId)) {
+    return NextResponse.json(
+      { message: 'Invalid product ID' },
+      { status: 400 }
+    );
+  }
+
+  const index = products.findIndex((p) => p.id === productId);
+
+  if (index === -1) {
+    return NextResponse.json(
+      { message: 'Product not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!products[index].deletedAt) {
+    return NextResponse.json(
+      { message: 'Product is not deleted' },
+      { status: 409 }
+    );
+  }
+
+  products[index] = markRestored(products[index]);
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 200));
+
+  return NextResponse.json(products[index], { headers: { ETag: toETag(products[index].version) } });
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { products } from '../route';
+import { products } from '@/lib/productStore';
+import { toETag } from '@/lib/etag';
+import { checkProductLock, checkProductVersion, pickProductChanges, applyProductChanges, markDeleted } from '../update';
 
 // Type guard for params
 type RouteParams = {
@@ -21,7 +23,7 @@ export async function GET(
     );
   }
 
-  const product = products.find((p) => p.id === productId);
+  const product = products.find((p) => p.id === productId && !p.deletedAt);
 
   if (!product) {
     return NextResponse.json(
@@ -33,10 +35,17 @@ export async function GET(
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 150));
 
-  return NextResponse.json(product);
+  return NextResponse.json(product, { headers: { ETag: toETag(product.version) } });
 }
 
 // PUT /api/products/[id] - Update a product
+// Pessimistic: the fencing token of the caller's row lock in the X-Lock-Token header
+//   423 LOCK_REQUIRED - neither a token nor If-Match sent
+//   423 LOCK_EXPIRED  - the lock expired or was released, nobody holds the row now
+//   409 LOCK_LOST     - the row was locked again since the token was issued (lockedBy tells by whom)
+// Optimistic: the ETag from GET in If-Match (can be combined with a lock token)
+//   423 LOCKED           - no token sent and someone else holds a lock on the row (lockedBy tells who)
+//   412 VERSION_CONFLICT - the product changed since; `current` holds the latest record
 export async function PUT(
   request: NextRequest,
   { params }: RouteParams
@@ -51,46 +60,66 @@ export async function PUT(
     );
   }
 
-  const index = products.findIndex((p) => p.id === productId);
-
-  if (index === -1) {
+  if (!products.some((p) => p.id === productId && !p.deletedAt)) {
     return NextResponse.json(
       { message: 'Product not found' },
       { status: 404 }
     );
   }
 
+  let body: Record<string, any>;
   try {
-    const body = await request.json();
-    const now = new Date().toISOString();
-
-    // Update product fields (only provided fields)
-    const updatedProduct = {
-      ...products[index],
-      ...(body.name !== undefined && { name: body.name }),
-      ...(body.category !== undefined && { category: body.category }),
-      ...(body.status !== undefined && { status: body.status }),
-      ...(body.price !== undefined && { price: Number(body.price) }),
-      ...(body.stock !== undefined && { stock: Number(body.stock) }),
-      ...(body.description !== undefined && { description: body.description }),
-      updatedAt: now,
-    };
-
-    products[index] = updatedProduct;
-
-    // Simulate network delay
-    await new Promise((resolve) => setTimeout(resolve, 300));
-
-    return NextResponse.json(updatedProduct);
+    body = await request.json();
   } catch (error) {
     return NextResponse.json(
       { message: 'Invalid request body' },
       { status: 400 }
     );
   }
+
+  const ifMatch = request.headers.get('if-match');
+  const rejection = await checkProductLock(productId, {
+    lockToken: request.headers.get('x-lock-token'),
+    ifMatch,
+  });
+
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status });
+  }
+
+  // No await from here to the write, so two saves with the same If-Match can't both pass.
+  // Look the product up again - it may have been deleted while the lock was checked.
+  const index = products.findIndex((p) => p.id === productId && !p.deletedAt);
+
+  if (index === -1) {
+    return NextResponse.json(
+      { message: 'Product not found' },
+      { status: 404 }
+    );
+  }
+
+  const conflict = checkProductVersion(products[index], ifMatch);
+
+  if (conflict) {
+    return NextResponse.json(conflict.body, {
+      status: conflict.status,
+      headers: { ETag: toETag(products[index].version) },
+    });
+  }
+
+  // Update product fields (only provided fields)
+  const updatedProduct = applyProductChanges(products[index], pickProductChanges(body));
+
+  products[index] = updatedProduct;
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  return NextResponse.json(updatedProduct, { headers: { ETag: toETag(updatedProduct.version) } });
 }
 
-// DELETE /api/products/[id] - Delete a product
+// DELETE /api/products/[id] - Soft-delete a product (undo with POST /api/products/[id]/restore)
+// 423 LOCKED while someone else holds a lock on the row; the holder sends their token in X-Lock-Token
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
@@ -105,7 +134,26 @@ export async function DELETE(
     );
   }
 
-  const index = products.findIndex((p) => p.id === productId);
+  if (!products.some((p) => p.id === productId && !p.deletedAt)) {
+    return NextResponse.json(
+      { message: 'Product not found' },
+      { status: 404 }
+    );
+  }
+
+  // Like batch deletes: refused while someone else holds a lock on the row
+  const rejection = await checkProductLock(productId, {
+    lockToken: request.headers.get('x-lock-token'),
+    ifMatch: null,
+    required: false,
+  });
+
+  if (rejection) {
+    return NextResponse.json(rejection.body, { status: rejection.status });
+  }
+
+  // Found again after the await - it may have been deleted while the lock was checked
+  const index = products.findIndex((p) => p.id === productId && !p.deletedAt);
 
   if (index === -1) {
     return NextResponse.json(
@@ -114,8 +162,8 @@ export async function DELETE(
     );
   }
 
-  // Remove product from array
-  products.splice(index, 1);
+  // Soft delete: hidden from every read, kept for restore
+  products[index] = markDeleted(products[index]);
 
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 200));
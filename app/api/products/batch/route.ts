@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { products, type Product } from '@/lib/productStore';
+import { checkProductLock, checkProductVersion, pickProductChanges, applyProductChanges, markDeleted, markRestored } from '../update';
+
+const MAX_BATCH_SIZE = 500;
+
+type BatchAction = 'delete' | 'restore' | 'update';
+
+interface BatchRow {
+  id: number;
+  lockToken?: number; // Checked like X-Lock-Token on PUT
+  version?: number; // update only - checked like If-Match on PUT
+  changes?: Record<string, any>; // update only - merged over the shared changes (e.g. to undo per-row values)
+}
+
+// POST /api/products/batch - run one action on several products
+// Body: { action: 'delete' | 'restore' | 'update', rows: [{ id, lockToken?, version?, changes? }], changes? }
+//   delete  - soft delete; undo with action 'restore'
+//   update  - each row needs a lockToken or version, like PUT /api/products/[id]
+// A row locked by someone else fails with 423 LOCKED unless it carries the lock's token (any action).
+// Each row succeeds or fails on its own; `previous` is the product before the action, for undo:
+//   200 { results: [{ id, success: true, product, previous } | { id, success: false, status, code?, message }], succeeded, failed }
+export async function POST(request: NextRequest) {
+  let action: BatchAction;
+  let rows: BatchRow[];
+  let sharedChanges: Record<string, any>;
+
+  try {
+    const body = await request.json();
+    action = body.action;
+    rows = body.rows;
+    sharedChanges = body.changes ?? {};
+  } catch (error) {
+    return NextResponse.json(
+      { message: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!['delete', 'restore', 'update'].includes(action)) {
+    return NextResponse.json(
+      { message: "action must be 'delete', 'restore' or 'update'" },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json(
+      { message: 'rows must be a non-empty array' },
+      { status: 400 }
+    );
+  }
+
+  if (rows.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { message: `Cannot change more than ${MAX_BATCH_SIZE} products at once` },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date().toISOString();
+  const results = [];
+
+  // Only restore can see deleted products
+  const notFound = (product: Product | undefined) => {
+    if (product && (action === 'restore') === !!product.deletedAt) return null;
+    return action === 'restore' && product ? 'Product is not deleted' : 'Product not found';
+  };
+
+  for (const row of rows) {
+    const productId = Number(row?.id);
+    const missing = notFound(products.find((p) => p.id === productId));
+
+    if (missing) {
+      results.push({ id: row?.id, success: false, status: 404, message: missing });
+      continue;
+    }
+
+    const changes = action === 'update' ? pickProductChanges({ ...sharedChanges, ...row.changes }) : {};
+
+    if (action === 'update' && Object.keys(changes).length === 0) {
+      results.push({ id: productId, success: false, status: 400, message: 'No changes to apply' });
+      continue;
+    }
+
+    const ifMatch = action === 'update' && row.version !== undefined ? `"${row.version}"` : null;
+    const lockRejection = await checkProductLock(productId, {
+      lockToken: row.lockToken ?? null,
+      ifMatch,
+      required: action === 'update',
+    });
+
+    // Found again after the await: `previous` is the product this action replaces, and the
+    // version is checked against it with no await before the write
+    const index = products.findIndex((p) => p.id === productId);
+    const previous = products[index];
+    const gone = notFound(previous);
+
+    if (gone) {
+      results.push({ id: productId, success: false, status: 404, message: gone });
+      continue;
+    }
+
+    const rejection = lockRejection ?? checkProductVersion(previous, ifMatch);
+
+    if (rejection) {
+      const { current, ...details } = rejection.body;
+      results.push({ id: productId, success: false, status: rejection.status, ...details });
+      continue;
+    }
+
+    if (action === 'update') {
+      products[index] = applyProductChanges(previous, changes, now);
+    } else if (action === 'delete') {
+      products[index] = markDeleted(previous, now);
+    } else {
+      products[index] = markRestored(previous, now);
+    }
+
+    results.push({ id: productId, success: true, product: products[index], previous });
+  }
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  const succeeded = results.filter((result) => result.success).length;
+  return NextResponse.json({ results, succeeded, failed: results.length - succeeded });
+}
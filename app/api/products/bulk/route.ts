@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { products } from '@/lib/productStore';
+import { checkProductLock, checkProductVersion, pickProductChanges, applyProductChanges } from '../update';
+
+const MAX_BULK_SIZE = 500;
+
+interface BulkRow {
+  id: number;
+  lockToken?: number; // Fencing token of the caller's lock on this row
+  version?: number; // Checked like If-Match on PUT
+}
+
+// PATCH /api/products/bulk - apply the same changes to several products
+// Body: { rows: [{ id, lockToken?, version? }], changes: { status?, price?, ... } }
+// Each row is checked like PUT /api/products/[id] and succeeds or fails on its own:
+//   200 { results: [{ id, success: true, product } | { id, success: false, status, code?, message }], updated, failed }
+export async function PATCH(request: NextRequest) {
+  let rows: BulkRow[];
+  let changes: ReturnType<typeof pickProductChanges>;
+
+  try {
+    const body = await request.json();
+    rows = body.rows;
+    changes = pickProductChanges(body.changes ?? {});
+  } catch (error) {
+    return NextResponse.json(
+      { message: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return NextResponse.json(
+      { message: 'rows must be a non-empty array' },
+      { status: 400 }
+    );
+  }
+
+  if (rows.length > MAX_BULK_SIZE) {
+    return NextResponse.json(
+      { message: `Cannot update more than ${MAX_BULK_SIZE} products at once` },
+      { status: 400 }
+    );
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return NextResponse.json(
+      { message: 'No changes to apply' },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date().toISOString();
+  const results = [];
+
+  for (const row of rows) {
+    const productId = Number(row?.id);
+
+    if (!products.some((p) => p.id === productId && !p.deletedAt)) {
+      results.push({ id: row?.id, success: false, status: 404, message: 'Product not found' });
+      continue;
+    }
+
+    const ifMatch = row.version !== undefined ? `"${row.version}"` : null;
+    const lockRejection = await checkProductLock(productId, { lockToken: row.lockToken ?? null, ifMatch });
+
+    // Found again after the await, so the version is checked against the product being replaced
+    const index = products.findIndex((p) => p.id === productId && !p.deletedAt);
+
+    if (index === -1) {
+      results.push({ id: productId, success: false, status: 404, message: 'Product not found' });
+      continue;
+    }
+
+    const rejection = lockRejection ?? checkProductVersion(products[index], ifMatch);
+
+    if (rejection) {
+      const { current, ...details } = rejection.body;
+      results.push({ id: productId, success: false, status: rejection.status, ...details });
+      continue;
+    }
+
+    products[index] = applyProductChanges(products[index], changes, now);
+    results.push({ id: productId, success: true, product: products[index] });
+  }
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  const updated = results.filter((result) => result.success).length;
+  return NextResponse.json({ results, updated, failed: results.length - updated });
+}
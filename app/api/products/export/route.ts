@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activeProducts } from '@/lib/productStore';
+import { productQuerySchema } from '../query';
+import { runQuery, parseQueryParams, QueryError } from '@/lib/queryEngine';
+import { csvHeader, csvRow, jsonRow, defaultFileName, getExporter, type ExportColumn } from '@/lib/reports';
+
+const CHUNK_SIZE = 500; // Rows encoded per pull of the response stream
+
+const STREAM_FORMATS = {
+  csv: { mimeType: 'text/csv;charset=utf-8', extension: 'csv' },
+  json: { mimeType: 'application/json', extension: 'json' },
+  ndjson: { mimeType: 'application/x-ndjson', extension: 'ndjson' },
+  xlsx: { mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+} as const;
+
+type StreamFormat = keyof typeof STREAM_FORMATS;
+
+const isStreamFormat = (format: string): format is StreamFormat => Object.hasOwn(STREAM_FORMATS, format);
+
+// Default header text per product field
+const COLUMN_LABELS: Record<string, string> = {
+  id: 'ID',
+  name: 'Product Name',
+  category: 'Category',
+  status: 'Status',
+  price: 'Price',
+  stock: 'Stock',
+  description: 'Description',
+  createdAt: 'Created Date',
+  updatedAt: 'Updated Date',
+  version: 'Version',
+};
+
+// "id" or "id:Label" entries, as an array or a comma list (default: every product field)
+const parseColumns = (columns: unknown): ExportColumn[] => {
+  const entries = Array.isArray(columns)
+    ? columns.map(String)
+    : typeof columns === 'string' && columns !== ''
+      ? columns.split(',')
+      : [...productQuerySchema.fields];
+
+  const parsed = entries.map((entry) => {
+    const [id, ...label] = entry.trim().split(':');
+    return { id, label: label.join(':') || COLUMN_LABELS[id] || id };
+  });
+
+  const fieldNames: ReadonlyArray<string> = productQuerySchema.fields;
+  const unknown = parsed.filter((column) => !fieldNames.includes(column.id)).map((column) => column.id);
+  if (unknown.length > 0) {
+    throw new QueryError(`Unknown export columns: ${unknown.join(', ')}`);
+  }
+  return parsed;
+};
+
+const encodeRows = (format: StreamFormat, columns: ExportColumn[], rows: Record<string, any>[], offset: number): string => {
+  switch (format) {
+    case 'csv':
+      return rows.map((row) => `\n${csvRow(columns, row)}`).join('');
+    case 'json':
+      return rows.map((row, index) => `${offset + index === 0 ? '\n' : ',\n'}${JSON.stringify(jsonRow(columns, row))}`).join('');
+    default:
+      return rows.map((row) => `${JSON.stringify(jsonRow(columns, row))}\n`).join('');
+  }
+};
+
+/**
+ * Stream every matching product in the requested format.
+ * Rows are encoded CHUNK_SIZE at a time as the client reads, so large result sets never
+ * sit in memory as one string. XLSX is a zip archive and can't be written incrementally:
+ * it is built in memory and then streamed.
+ */
+async function exportProducts(params: Record<string, any>) {
+  const { format = 'csv', columns, title, ...searchParams } = params;
+
+  if (!isStreamFormat(format)) {
+    return NextResponse.json(
+      { message: `format must be one of: ${Object.keys(STREAM_FORMATS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const exportColumns = parseColumns(columns);
+
+    // Pagination params are ignored - the whole result set is exported
+    const { page: _page, pageSize: _pageSize, fields: _fields, ...query } = parseQueryParams(searchParams);
+    const { data: rows, total } = runQuery(activeProducts(), query, productQuerySchema);
+
+    const { mimeType, extension } = STREAM_FORMATS[format];
+    const headers = {
+      'Content-Type': mimeType,
+      'Content-Disposition': `attachment; filename="${defaultFileName(title || 'Product Export')}.${extension}"`,
+      'Cache-Control': 'no-store',
+      'X-Total-Count': String(total),
+    };
+
+    if (format === 'xlsx') {
+      const workbook = await getExporter('excel')!.export({ rows, columns: exportColumns, title: title || 'Products' });
+      return new Response(workbook as BodyInit, { headers });
+    }
+
+    const encoder = new TextEncoder();
+    let offset = 0;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === 'csv') controller.enqueue(encoder.encode(csvHeader(exportColumns)));
+        if (format === 'json') controller.enqueue(encoder.encode('['));
+      },
+      pull(controller) {
+        const chunk = rows.slice(offset, offset + CHUNK_SIZE);
+        if (chunk.length > 0) {
+          controller.enqueue(encoder.encode(encodeRows(format, exportColumns, chunk, offset)));
+          offset += chunk.length;
+        }
+        if (offset >= rows.length) {
+          if (format === 'csv') controller.enqueue(encoder.encode('\n'));
+          if (format === 'json') controller.enqueue(encoder.encode(rows.length > 0 ? '\n]\n' : ']\n'));
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(stream, { headers });
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+// GET /api/products/export?format=csv|xlsx|json|ndjson&columns=id,name:Product&category=home
+//   Same flat filters as GET /api/products; `columns` lists "id" or "id:Label" entries
+export async function GET(request: NextRequest) {
+  return exportProducts(Object.fromEntries(request.nextUrl.searchParams));
+}
+
+// POST /api/products/export - Same as GET, with the /api/products/search body
+//   { format, columns: ['id', 'name:Product'], sort, ...filters (plain values or { op, value } conditions) }
+export async function POST(request: NextRequest) {
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+  return exportProducts(body);
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { runQuery } from '@/lib/queryEngine';
+import type { Product } from '@/lib/api/products';
+import { productQuerySchema } from './query';
+
+const product = (id: number, stock: number): Product => ({
+  id,
+  name: `Product ${id}`,
+  category: 'home',
+  status: 'active',
+  price: 10,
+  stock,
+  description: '',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  version: 1,
+});
+
+const products = [product(1, 5), product(2, 60), product(3, 150)];
+
+describe('productQuerySchema', () => {
+  // The search form submits every field, empty or not
+  it('accepts every products search field', () => {
+    const form = {
+      search: '',
+      category: '',
+      status: '',
+      priceRange: '',
+      price: '',
+      stock: '',
+      dateFrom: null,
+      dateTo: null,
+      stockRange: [],
+    };
+    expect(runQuery(products, { filters: form }, productQuerySchema).total).toBe(3);
+  });
+
+  it('matches stock against the expanded stockRange pill values', () => {
+    const stockRange = Array.from({ length: 101 }, (_, index) => String(index)); // "0-100"
+    expect(runQuery(products, { filters: { stockRange } }, productQuerySchema).data.map((p) => p.id)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,24 @@
+import type { QuerySchema } from '@/lib/queryEngine';
+import type { Product } from '@/lib/api/products';
+
+// Queryable product fields shared by GET /api/products, /search and /all.
+// Filter values are either plain (using defaultOp) or { op, value } conditions from operator fields.
+export const productQuerySchema: QuerySchema<Product> = {
+  fields: ['id', 'name', 'category', 'status', 'price', 'stock', 'description', 'createdAt', 'updatedAt', 'version'],
+  filters: {
+    search: { accessor: (p) => [p.name, p.description], defaultOp: 'contains' },
+    name: { accessor: (p) => p.name, defaultOp: 'contains' },
+    description: { accessor: (p) => p.description, defaultOp: 'contains' },
+    category: { accessor: (p) => p.category },
+    status: { accessor: (p) => p.status },
+    price: { accessor: (p) => p.price, type: 'number' },
+    priceRange: { accessor: (p) => p.price, type: 'number', defaultOp: 'between' },
+    stock: { accessor: (p) => p.stock, type: 'number' },
+    stockRange: { accessor: (p) => p.stock, type: 'number', defaultOp: 'in' }, // Pill values - ranges arrive expanded
+    createdAt: { accessor: (p) => p.createdAt, type: 'date' },
+    dateFrom: { accessor: (p) => p.createdAt, type: 'date', defaultOp: 'gte' },
+    dateTo: { accessor: (p) => p.createdAt, type: 'date', defaultOp: 'lte' },
+  },
+  defaultSort: [{ field: 'id', sort: 'asc' }],
+  tieBreaker: 'id',
+};
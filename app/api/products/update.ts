@@ -0,0 +1,128 @@
+import { getLockRepository } from '@/lib/locks';
+import { ifMatchSatisfied } from '@/lib/etag';
+import type { Product } from '@/lib/api/products';
+
+// Why a write was refused - shared by PUT /api/products/[id], PATCH /api/products/bulk and POST /api/products/batch
+export interface WriteRejection {
+  status: 409 | 412 | 423;
+  body: {
+    message: string;
+    code: 'LOCK_REQUIRED' | 'LOCK_EXPIRED' | 'LOCK_LOST' | 'LOCKED' | 'VERSION_CONFLICT';
+    lockedBy?: string;
+    lockedAt?: string;
+    current?: Product;
+  };
+}
+
+/**
+ * Check the caller may write a product: the fencing token of their row lock (pessimistic),
+ * an If-Match version (optimistic), or both. At least one is required unless `required` is false
+ * (batch delete and restore). A write without a token is refused while someone holds a live lock on the row.
+ * The version is checked separately with checkProductVersion - after this resolves, against the
+ * product as it is then, with no await before the write.
+ * @returns The rejection, or null when the write may go ahead
+ */
+export async function checkProductLock(
+  productId: number,
+  { lockToken, ifMatch, required = true }: { lockToken: string | number | null; ifMatch: string | null; required?: boolean }
+): Promise<WriteRejection | null> {
+  if (required && lockToken === null && ifMatch === null) {
+    return {
+      status: 423,
+      body: { message: 'Lock the product or send If-Match before saving', code: 'LOCK_REQUIRED' },
+    };
+  }
+
+  if (lockToken === null) {
+    const lock = await getLockRepository().get('products', String(productId));
+    return lock
+      ? {
+          status: 423,
+          body: {
+            message: `This product is being edited by ${lock.lockedBy}`,
+            code: 'LOCKED',
+            lockedBy: lock.lockedBy,
+            lockedAt: lock.lockedAt,
+          },
+        }
+      : null;
+  }
+
+  const check = await getLockRepository().verifyToken('products', String(productId), Number(lockToken));
+
+  if (check.status === 'missing') {
+    return {
+      status: 423,
+      body: { message: 'Lock the product before saving', code: 'LOCK_REQUIRED' },
+    };
+  }
+
+  if (check.status === 'expired') {
+    return {
+      status: 423,
+      body: { message: 'Your lock on this product expired', code: 'LOCK_EXPIRED' },
+    };
+  }
+
+  if (check.status === 'stale') {
+    return {
+      status: 409,
+      body: {
+        message: `Your lock on this product was lost - it is now locked by ${check.lock.lockedBy}`,
+        code: 'LOCK_LOST',
+        lockedBy: check.lock.lockedBy,
+        lockedAt: check.lock.lockedAt,
+      },
+    };
+  }
+
+  return null;
+}
+
+// If-Match against the product's current version (no If-Match always passes)
+export function checkProductVersion(product: Product, ifMatch: string | null): WriteRejection | null {
+  if (ifMatch !== null && !ifMatchSatisfied(ifMatch, product.version)) {
+    return {
+      status: 412,
+      body: {
+        message: 'This product was changed by someone else since you loaded it',
+        code: 'VERSION_CONFLICT',
+        current: product,
+      },
+    };
+  }
+
+  return null;
+}
+
+// Editable fields present in the body
+export function pickProductChanges(body: Record<string, any>): Partial<Product> {
+  return {
+    ...(body.name !== undefined && { name: body.name }),
+    ...(body.category !== undefined && { category: body.category }),
+    ...(body.status !== undefined && { status: body.status }),
+    ...(body.price !== undefined && { price: Number(body.price) }),
+    ...(body.stock !== undefined && { stock: Number(body.stock) }),
+    ...(body.description !== undefined && { description: body.description }),
+  };
+}
+
+// Apply changes and bump the version (the next ETag)
+export function applyProductChanges(product: Product, changes: Partial<Product>, now: string = new Date().toISOString()): Product {
+  return {
+    ...product,
+    ...changes,
+    updatedAt: now,
+    version: product.version + 1,
+  };
+}
+
+// Soft delete - the product stays in the store, hidden from reads, until restored
+export function markDeleted(product: Product, now: string = new Date().toISOString()): Product {
+  return { ...product, deletedAt: now, updatedAt: now, version: product.version + 1 };
+}
+
+export function markRestored(product: Product, now: string = new Date().toISOString()): Product {
+  const { deletedAt, ...restored } = product;
+  return { ...restored, updatedAt: now, version: product.version + 1 };
+}
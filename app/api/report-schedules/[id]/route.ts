@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getReportSchedule,
+  updateReportSchedule,
+  deleteReportSchedule,
+  validateReportSchedule,
+} from '@/lib/reportSchedules';
+import { getRequestUser, userRequired } from '../../auth';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// GET /api/report-schedules/[id] - Includes nextRunAt and the outcome of the last run
+// Only the owner or an admin can see a schedule
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const schedule = getReportSchedule(id);
+
+  if (!schedule) {
+    return NextResponse.json(
+      { message: 'Report schedule not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!user.isAdmin && schedule.createdBy !== user.userId) {
+    return NextResponse.json(
+      { message: 'Only the owner or an admin can view this report schedule' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json(schedule);
+}
+
+// PATCH /api/report-schedules/[id] - Change the cron, format, recipients, title, or pause/resume
+// Body: { cron?, format?, recipients?, title?, enabled? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  try {
+    const { cron, format, recipients, title, enabled } = await request.json();
+
+    const schedule = getReportSchedule(id);
+    if (!schedule) {
+      return NextResponse.json(
+        { message: 'Report schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user.isAdmin && schedule.createdBy !== user.userId) {
+      return NextResponse.json(
+        { message: 'Only the owner or an admin can change this report schedule' },
+        { status: 403 }
+      );
+    }
+
+    const changes = {
+      ...(cron !== undefined && { cron: typeof cron === 'string' ? cron.trim() : cron }),
+      ...(format !== undefined && { format }),
+      ...(recipients !== undefined && { recipients }),
+      // An empty title or null clears it; anything but a string is rejected below
+      ...(title !== undefined && { title: typeof title === 'string' ? title.trim() || undefined : title ?? undefined }),
+      ...(enabled !== undefined && { enabled }),
+    };
+
+    const problem = validateReportSchedule(changes);
+    if (problem) {
+      return NextResponse.json({ message: problem }, { status: 400 });
+    }
+
+    return NextResponse.json(updateReportSchedule(id, changes));
+  } catch (error) {
+    return NextResponse.json(
+      { message: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+}
+
+// DELETE /api/report-schedules/[id]
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const schedule = getReportSchedule(id);
+  if (!schedule) {
+    return NextResponse.json(
+      { message: 'Report schedule not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!user.isAdmin && schedule.createdBy !== user.userId) {
+    return NextResponse.json(
+      { message: 'Only the owner or an admin can delete this report schedule' },
+      { status: 403 }
+    );
+  }
+
+  deleteReportSchedule(id);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getReportSchedule, runReportSchedule, ScheduleError } from '@/lib/reportSchedules';
+import { ExportError } from '@/lib/reports';
+import { QueryError } from '@/lib/queryEngine';
+import { reportSources } from '../../sources';
+import { getRequestUser, userRequired } from '../../../auth';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// POST /api/report-schedules/[id]/run - Deliver the report now, without waiting for its schedule
+export async function POST(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const schedule = getReportSchedule(id);
+  if (!schedule) {
+    return NextResponse.json(
+      { message: 'Report schedule not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!user.isAdmin && schedule.createdBy !== user.userId) {
+    return NextResponse.json(
+      { message: 'Only the owner or an admin can run this report schedule' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const delivery = await runReportSchedule(schedule, reportSources);
+    return NextResponse.json({
+      schedule: getReportSchedule(id),
+      fileName: delivery.file.fileName,
+      rowCount: delivery.rowCount,
+    });
+  } catch (error) {
+    // The failure is also recorded on the schedule (lastStatus / lastError)
+    if (error instanceof ScheduleError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    if (error instanceof ExportError || error instanceof QueryError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSavedSearch } from '@/lib/savedSearchStore';
+import { listReportSchedules, createReportSchedule, validateReportSchedule } from '@/lib/reportSchedules';
+import { getRequestUser, userRequired } from '../auth';
+
+// Every report schedule endpoint identifies the caller by X-User-Id and X-User-Role (see ../auth.ts)
+
+// GET /api/report-schedules?savedSearchId=abc
+// Returns the user's schedules (every schedule for admins), optionally for one saved search
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const savedSearchId = request.nextUrl.searchParams.get('savedSearchId') || undefined;
+  return NextResponse.json(listReportSchedules(user.userId, user.isAdmin, savedSearchId));
+}
+
+// POST /api/report-schedules - Deliver a saved search as a report on a cron schedule
+// Body: { savedSearchId, cron: '0 8 * * MON', format: 'pdf', recipients: ['manager@example.com'], title?, enabled? }
+// The schedule belongs to the caller
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  let body: Record<string, any>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { savedSearchId, cron, format, recipients, title, enabled = true } = body;
+  const createdBy = user.userId;
+
+  if (!savedSearchId || !cron || !format || !recipients) {
+    return NextResponse.json(
+      { message: 'Missing required fields: savedSearchId, cron, format, recipients' },
+      { status: 400 }
+    );
+  }
+
+  const search = getSavedSearch(savedSearchId);
+  if (!search) {
+    return NextResponse.json(
+      { message: 'Saved search not found' },
+      { status: 404 }
+    );
+  }
+
+  // Users can schedule their own searches and global ones
+  if (search.visibility !== 'global' && search.createdBy !== createdBy) {
+    return NextResponse.json(
+      { message: 'Only the owner can schedule a private saved search' },
+      { status: 403 }
+    );
+  }
+
+  const problem = validateReportSchedule({ cron, format, recipients, enabled });
+  if (problem) {
+    return NextResponse.json({ message: problem }, { status: 400 });
+  }
+
+  const schedule = createReportSchedule({
+    savedSearchId,
+    cron: cron.trim(),
+    format,
+    recipients,
+    title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+    enabled,
+    createdBy,
+  });
+
+  return NextResponse.json(schedule, { status: 201 });
+}
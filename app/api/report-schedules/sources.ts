@@ -0,0 +1,19 @@
+import { activeProducts } from '@/lib/productStore';
+import { productQuerySchema } from '../products/query';
+import { productColumns } from '@/app/products/fields';
+import { runQuery } from '@/lib/queryEngine';
+import { toExportColumn } from '@/lib/reports';
+import type { ReportSources } from '@/lib/reportSchedules';
+
+// Saved search params are the search form's values; only the product filters among them are applied
+const productFilters = (params: Record<string, any>) =>
+  Object.fromEntries(Object.entries(params).filter(([key]) => Object.hasOwn(productQuerySchema.filters, key)));
+
+// What scheduled reports query, by SavedSearch.context (searches without a context use products)
+export const reportSources: ReportSources = {
+  products: {
+    title: 'Products',
+    columns: productColumns.filter((column) => column.id !== 'id').map(toExportColumn),
+    rows: (params) => runQuery(activeProducts(), { filters: productFilters(params) }, productQuerySchema).data,
+  },
+};
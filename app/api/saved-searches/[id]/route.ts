@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  canModifySavedSearch,
+  SEARCH_VISIBILITIES,
+} from '@/lib/savedSearchStore';
+import { deleteSchedulesForSearch } from '@/lib/reportSchedules';
+import { getRequestUser, userRequired } from '../../auth';
+
+type RouteParams = {
+  params: Promise<{ id: string }>;
+};
+
+// PATCH /api/saved-searches/[id] - Rename and/or change visibility
+// Body: { name?, visibility?, description? }
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  try {
+    const { name, visibility, description } = await request.json();
+
+    const search = getSavedSearch(id);
+    if (!search) {
+      return NextResponse.json(
+        { message: 'Saved search not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canModifySavedSearch(search, user.userId, user.isAdmin)) {
+      return NextResponse.json(
+        { message: 'Only the owner or an admin can change this saved search' },
+        { status: 403 }
+      );
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { message: 'Name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    if (visibility !== undefined && !SEARCH_VISIBILITIES.includes(visibility)) {
+      return NextResponse.json(
+        { message: `Invalid visibility: ${visibility}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = updateSavedSearch(id, {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(visibility !== undefined && { visibility }),
+      ...(description !== undefined && { description }),
+    });
+
+    // Simulate network delay
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    return NextResponse.json(
+      { message: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+}
+
+// DELETE /api/saved-searches/[id] - Also deletes the search's report schedules
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+) {
+  const { id } = await params;
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const search = getSavedSearch(id);
+  if (!search) {
+    return NextResponse.json(
+      { message: 'Saved search not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!canModifySavedSearch(search, user.userId, user.isAdmin)) {
+    return NextResponse.json(
+      { message: 'Only the owner or an admin can delete this saved search' },
+      { status: 403 }
+    );
+  }
+
+  deleteSavedSearch(id);
+  deleteSchedulesForSearch(id);
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listSavedSearches,
+  createSavedSearch,
+  SEARCH_VISIBILITIES,
+} from '@/lib/savedSearchStore';
+import { getRequestUser, userRequired } from '../auth';
+
+// Every saved search endpoint identifies the caller by X-User-Id and X-User-Role (see ../auth.ts)
+
+// GET /api/saved-searches?context=products
+// Returns the user's own searches plus all global searches for the context
+export async function GET(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  const context = request.nextUrl.searchParams.get('context') || undefined;
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  return NextResponse.json(listSavedSearches(user.userId, context));
+}
+
+// POST /api/saved-searches - Save a search for the caller
+export async function POST(request: NextRequest) {
+  const user = getRequestUser(request);
+  if (!user) return userRequired();
+
+  try {
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const visibility = body.visibility ?? 'user';
+
+    if (!name) {
+      return NextResponse.json(
+        { message: 'Missing required field: name' },
+        { status: 400 }
+      );
+    }
+
+    if (!SEARCH_VISIBILITIES.includes(visibility)) {
+      return NextResponse.json(
+        { message: `Invalid visibility: ${visibility}` },
+        { status: 400 }
+      );
+    }
+
+    const search = createSavedSearch({
+      name,
+      params: body.params || {},
+      visibility,
+      createdBy: user.userId,
+      context: body.context,
+      description: body.description,
+      viewMode: body.viewMode,
+    });
+
+    // Simulate network delay
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    return NextResponse.json(search, { status: 201 });
+  } catch (error) {
+    return NextResponse.json(
+      { message: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+interface Supplier {
+  id: string;
+  name: string;
+  country: string;
+}
+
+const TOTAL_SUPPLIERS = 50000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const prefixes = ['Acme', 'Global', 'Northern', 'Pacific', 'Summit', 'Pioneer', 'Apex', 'Evergreen', 'Atlas', 'Harbor'];
+const industries = ['Industrial', 'Electronics', 'Textiles', 'Logistics', 'Components', 'Plastics', 'Metals', 'Packaging'];
+const suffixes = ['Supply', 'Trading', 'Manufacturing', 'Partners', 'Group', 'Wholesale'];
+const countries = ['US', 'CA', 'UK', 'DE', 'FR', 'JP', 'AU', 'BR', 'IN', 'CN'];
+
+// Generate a large, deterministic supplier list to exercise server-side search
+const suppliers: Supplier[] = Array.from({ length: TOTAL_SUPPLIERS }, (_, i) => ({
+  id: `SUP-${String(i + 1).padStart(5, '0')}`,
+  name: `${prefixes[i % prefixes.length]} ${industries[Math.floor(i / prefixes.length) % industries.length]} ${suffixes[i % suffixes.length]} ${i + 1}`,
+  country: countries[i % countries.length],
+}));
+
+const suppliersById = new Map(suppliers.map((s) => [s.id, s]));
+
+/**
+ * GET /api/suppliers
+ *
+ * Server-side typeahead for large option lists:
+ * - ?q=acme&cursor=50&limit=50 - search by name or id, one page at a time
+ * - ?values=SUP-00001,SUP-00002 - look up selected values (for displaying labels)
+ *
+ * Response: { data: Supplier[], nextCursor: string | null, total: number }
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  // Simulate network delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  // Lookup by value
+  const values = searchParams.get('values');
+  if (values) {
+    const data = values
+      .split(',')
+      .map((id) => suppliersById.get(id.trim()))
+      .filter((s): s is Supplier => !!s);
+    return NextResponse.json({ data, nextCursor: null, total: data.length });
+  }
+
+  const q = (searchParams.get('q') || '').trim().toLowerCase();
+  const cursor = Math.max(0, parseInt(searchParams.get('cursor') || '0', 10) || 0);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+  const matches = q
+    ? suppliers.filter((s) => s.name.toLowerCase().includes(q) || s.id.toLowerCase().includes(q))
+    : suppliers;
+
+  const data = matches.slice(cursor, cursor + limit);
+  const nextOffset = cursor + data.length;
+
+  return NextResponse.json({
+    data,
+    nextCursor: nextOffset < matches.length ? String(nextOffset) : null,
+    total: matches.length,
+  });
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState } from 'react';
 import { LockService } from '@/lib/lockService';
 import {
   Container,
@@ -15,12 +15,6 @@ import {
   Button,
   Divider,
   Chip,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   Menu,
   MenuItem,
   ListItemIcon,
@@ -36,12 +30,20 @@ import {
   PictureAsPdf as PdfIcon,
   TableChart as ExcelIcon,
   Description as CsvIcon,
+  FolderZip as ZipIcon,
   Edit as EditIcon,
   Visibility as ViewIcon,
   Lock as LockIcon,
 } from '@mui/icons-material';
 import { DataGrid, GridColDef, GridRowParams } from '@mui/x-data-grid';
-import { DynamicSearch, FieldConfig, SavedSearch, ViewMode, ReportFormat } from '@/components/DynamicSearch';
+import { DynamicSearch, FieldConfig, ViewMode, ReportFormat } from '@/components/DynamicSearch';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useTableLocks } from '@/hooks/useTableLocks';
+import { useRowLock } from '@/hooks/useRowLock';
+import { runExport, listExporters, ExportError, toExportColumn, toGridColumn, type ReportColumn } from '@/lib/reports';
+import { deliverExportFile } from '@/lib/reports/download';
+import { ReportCell } from '@/components/ReportCell';
+import { ReportTable } from '@/components/ReportTable';
 
 // Mock data for demonstration
 const mockProducts = [
@@ -52,6 +54,20 @@ const mockProducts = [
   { id: 5, productName: 'USB-C Cable', category: 'electronics', condition: 'new', inStock: true, price: 12, country: 'cn', readOnly: true },
 ];
 
+// Result columns - the grid, the report view and every export are derived from these
+const resultColumns: ReportColumn[] = [
+  { id: 'id', label: 'ID', width: 70 },
+  { id: 'productName', label: 'Product Name', width: 200 },
+  { id: 'category', label: 'Category', width: 130, tone: () => 'info' },
+  { id: 'condition', label: 'Condition', width: 130, tone: () => 'default' },
+  { id: 'inStock', label: 'In Stock', type: 'boolean', width: 100, tone: (value) => (value ? 'success' : 'error') },
+  { id: 'price', label: 'Price ($)', type: 'currency', width: 100, exportHeader: 'Price', aggregate: 'sum' },
+  { id: 'country', label: 'Country', width: 100, format: (value) => String(value ?? '').toUpperCase() },
+];
+
+// Columns offered in the report view and its exports (the grid also shows the id)
+const reportColumns = resultColumns.filter((col) => col.id !== 'id');
+
 /**
  * Recursively disable all fields including nested fields in accordion/group types
  * @param fields - Array of field configurations
@@ -73,9 +89,15 @@ export default function Home() {
   const enableExport = true; // Set to false to hide export/download functionality
   const enableEditView = true; // Set to false to hide View/Edit buttons in grid
 
-  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // Saved searches are persisted via /api/saved-searches
+  const { savedSearchProps, savedSearches, error: savedSearchError } = useSavedSearches('products', {
+    currentUser: 'demo_user', // In production, get from auth context
+    isAdmin: false,
+  });
   const [gridData, setGridData] = useState(mockProducts);
   const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [searchParams, setSearchParams] = useState<Record<string, any>>({}); // Recorded in ZIP export manifests
+  const [loadedSearchName, setLoadedSearchName] = useState<string>();
   const [hasSearched, setHasSearched] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [selectedRow, setSelectedRow] = useState<any>(null);
@@ -85,9 +107,16 @@ export default function Home() {
   const [columnSelectorOpen, setColumnSelectorOpen] = useState(false);
 
   // Track locked rows: { rowId: { lockedBy: string, lockedAt: Date } }
-  const [lockedRows, setLockedRows] = useState<Record<number, { lockedBy: string; lockedAt: Date }>>({});
+  // Kept current over /api/locks/stream (falls back to polling)
+  const { locks: lockedRows, setLocks: setLockedRows } = useTableLocks('products');
   const currentUser = 'user@example.com'; // In production, get from auth context
 
+  // Keeps the edited row's lock alive while the edit dialog is open and releases it when it closes
+  const rowLock = useRowLock('products', selectedRow?.id, {
+    userId: currentUser,
+    enabled: editDialogOpen && dialogMode === 'edit' && !!selectedRow && !selectedRow.readOnly,
+  });
+
   // Handler functions need to be defined before columns
   const handleViewRow = (row: any) => {
     setSelectedRow(row);
@@ -129,15 +158,9 @@ export default function Home() {
   };
 
   // Define columns for the data grid
-  const baseColumns: GridColDef[] = [
-    { field: 'id', headerName: 'ID', width: 70 },
-    { field: 'productName', headerName: 'Product Name', width: 200 },
-    { field: 'category', headerName: 'Category', width: 130 },
-    { field: 'condition', headerName: 'Condition', width: 130 },
-    { field: 'inStock', headerName: 'In Stock', width: 100, type: 'boolean' },
-    { field: 'price', headerName: 'Price ($)', width: 100, type: 'number' },
-    { field: 'country', headerName: 'Country', width: 100 },
-  ];
+  const baseColumns: GridColDef[] = resultColumns.map((col) =>
+    toGridColumn(col, col.tone && { renderCell: (params) => <ReportCell column={col} row={params.row} /> })
+  );
 
   // Conditionally add Actions column if enableEditView is true
   const columns: GridColDef[] = enableEditView
@@ -211,20 +234,9 @@ export default function Home() {
       ]
     : baseColumns;
 
-  // Derive available columns from grid definition (exclude 'id' and 'actions')
-  const availableColumns = useMemo(
-    () =>
-      columns
-        .filter((col) => col.field !== 'id' && col.field !== 'actions')
-        .map((col) => ({
-          id: col.field,
-          label: col.headerName || col.field,
-          selected: true,
-        })),
-    []
-  );
-
-  const [selectedColumns, setSelectedColumns] = useState(availableColumns);
+  // Columns shown in the report view and exported
+  const [selectedColumnIds, setSelectedColumnIds] = useState<string[]>(() => reportColumns.map((col) => col.id));
+  const activeColumns = reportColumns.filter((col) => selectedColumnIds.includes(col.id));
 
   // Define the search fields configuration (all optional for searching)
   // Note: Pill fields are placed at the end to prevent layout shifts when expanded
@@ -246,6 +258,14 @@ export default function Home() {
       helperText: 'Select a category (loaded from API)',
       requiredForEdit: true, // Required when editing, optional when searching
     },
+    {
+      name: 'warrantyMonths',
+      label: 'Warranty Months',
+      type: 'number',
+      placeholder: 'Enter warranty length...',
+      helperText: 'Only shown for electronics',
+      visibleWhen: { field: 'category', equals: 'electronics' },
+    },
     {
       name: 'inStock',
       label: 'In Stock Only',
@@ -319,16 +339,6 @@ export default function Home() {
         { label: '1 Star & Up', value: '1' },
       ],
     },
-    {
-      name: 'city',
-      label: 'City',
-      type: 'dropdown',
-      apiUrl: '/api/cities',
-      apiLabelField: 'name', // API uses 'name' instead of 'label'
-      apiValueField: 'id',   // API uses 'id' instead of 'value'
-      helperText: 'Select a city (uses custom field mapping)',
-      tooltip: 'This dropdown demonstrates custom API field mapping - the API returns {id, name} instead of {value, label}',
-    },
     {
       name: 'country',
       label: 'Country (Modal Single Select)',
@@ -353,6 +363,17 @@ export default function Home() {
       helperText: 'Single selection with modal dialog',
       tooltip: 'Opens a modal with searchable list for single selection',
     },
+    {
+      name: 'city',
+      label: 'City',
+      type: 'dropdown',
+      apiUrl: '/api/cities?country={country}', // Re-fetched whenever Country changes
+      dependsOn: 'country',
+      apiLabelField: 'name', // API uses 'name' instead of 'label'
+      apiValueField: 'id',   // API uses 'id' instead of 'value'
+      helperText: 'Select a country first (cascading dropdown)',
+      tooltip: 'This dropdown demonstrates cascading options and custom API field mapping - the API returns {id, name} instead of {value, label}',
+    },
     {
       name: 'languages',
       label: 'Languages (Modal Multi-Select)',
@@ -376,6 +397,29 @@ export default function Home() {
       helperText: 'Select multiple languages using checkboxes',
       tooltip: 'Multi-select mode with checkboxes in modal dialog',
     },
+    {
+      name: 'supplier',
+      label: 'Supplier',
+      type: 'dropdown',
+      apiUrl: '/api/suppliers',
+      apiLabelField: 'name',
+      apiValueField: 'id',
+      remoteSearch: { debounceMs: 300, pageSize: 50 },
+      placeholder: 'Type to search 50,000 suppliers...',
+      helperText: 'Searched on the server as you type (scroll for more)',
+    },
+    {
+      name: 'preferredSuppliers',
+      label: 'Preferred Suppliers (Modal Remote Search)',
+      type: 'modal-select',
+      allowMultiple: true,
+      apiUrl: '/api/suppliers',
+      apiLabelField: 'name',
+      apiValueField: 'id',
+      remoteSearch: { minChars: 2 },
+      defaultValue: [],
+      helperText: 'Modal search backed by the server with "load more"',
+    },
     {
       name: 'farmInfo',
       label: 'Farm Information',
@@ -559,6 +603,7 @@ export default function Home() {
     const results = await fetchSearchResults(params, usePagination);
 
     setSearchResults(results);
+    setSearchParams(params);
     setHasSearched(true);
   };
 
@@ -583,7 +628,7 @@ export default function Home() {
     // Release lock when closing dialog
     if (selectedRow) {
       // Release lock in database
-      await LockService.releaseLock('products', selectedRow.id.toString(), currentUser);
+      await rowLock.release();
 
       // Update local state
       setLockedRows(prev => {
@@ -596,69 +641,10 @@ export default function Home() {
     setSelectedRow(null);
   };
 
-  // Sync locks from database on mount and periodically
-  useEffect(() => {
-    const syncLocks = async () => {
-      const locks = await LockService.getTableLocks('products');
-      const lockMap: Record<number, { lockedBy: string; lockedAt: Date }> = {};
-
-      locks.forEach(lock => {
-        lockMap[Number(lock.rowId)] = {
-          lockedBy: lock.lockedBy,
-          lockedAt: new Date(lock.lockedAt)
-        };
-      });
-
-      setLockedRows(lockMap);
-    };
-
-    // Initial sync
-    syncLocks();
-
-    // Sync every 10 seconds to get updates from other users
-    const interval = setInterval(syncLocks, 10000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  // Heartbeat to keep lock alive while editing
-  useEffect(() => {
-    if (!editDialogOpen || !selectedRow || selectedRow.readOnly) return;
-
-    const heartbeat = setInterval(async () => {
-      await LockService.refreshLock('products', selectedRow.id.toString(), currentUser);
-    }, 30000); // Refresh every 30 seconds
-
-    return () => clearInterval(heartbeat);
-  }, [editDialogOpen, selectedRow, currentUser]);
-
-  const handleSaveSearch = (search: SavedSearch) => {
-    setSavedSearches((prev) => [...prev, search]);
-    console.log('Saved Search:', search);
-  };
-
   const handleLoadSearch = (searchId: string) => {
     const loaded = savedSearches.find((s) => s.id === searchId);
     console.log('Loaded Search:', loaded);
-  };
-
-  const handleDeleteSearch = (searchId: string) => {
-    setSavedSearches((prev) => prev.filter((s) => s.id !== searchId));
-    console.log('Deleted Search ID:', searchId);
-  };
-
-  const handleRenameSearch = (searchId: string, newName: string) => {
-    setSavedSearches((prev) =>
-      prev.map((s) => (s.id === searchId ? { ...s, name: newName } : s))
-    );
-    console.log('Renamed Search ID:', searchId, 'to:', newName);
-  };
-
-  const handleChangeVisibility = (searchId: string, visibility: 'user' | 'global') => {
-    setSavedSearches((prev) =>
-      prev.map((s) => (s.id === searchId ? { ...s, visibility } : s))
-    );
-    console.log('Changed Search ID:', searchId, 'visibility to:', visibility);
+    setLoadedSearchName(loaded?.name);
   };
 
   // Render functions for different view modes
@@ -679,173 +665,40 @@ export default function Home() {
 
   // Column selection handlers
   const handleToggleColumn = (columnId: string) => {
-    setSelectedColumns(prev =>
-      prev.map(col =>
-        col.id === columnId ? { ...col, selected: !col.selected } : col
-      )
+    setSelectedColumnIds(prev =>
+      prev.includes(columnId) ? prev.filter(id => id !== columnId) : [...prev, columnId]
     );
   };
 
   const handleSelectAllColumns = () => {
-    setSelectedColumns(prev => prev.map(col => ({ ...col, selected: true })));
+    setSelectedColumnIds(reportColumns.map(col => col.id));
   };
 
   const handleDeselectAllColumns = () => {
-    setSelectedColumns(prev => prev.map(col => ({ ...col, selected: false })));
+    setSelectedColumnIds([]);
   };
 
   const handleDownloadReport = async (format: ReportFormat) => {
     setDownloadMenuAnchor(null);
 
-    const timestamp = new Date().toISOString().split('T')[0];
-    const fileName = `product-report-${timestamp}`;
-
-    // Get only selected columns
-    const activeColumns = selectedColumns.filter(col => col.selected);
-
-    if (activeColumns.length === 0) {
-      alert('Please select at least one column to export');
-      return;
-    }
-
     try {
-      switch (format) {
-        case 'pdf': {
-          // Dynamic import to reduce bundle size
-          const jsPDFModule = await import('jspdf');
-          const jsPDF = jsPDFModule.default;
-          const autoTable = (await import('jspdf-autotable')).default;
-
-          const doc = new jsPDF();
-
-          // Add title
-          doc.setFontSize(18);
-          doc.text('Product Search Report', 14, 20);
-
-          // Add date
-          doc.setFontSize(10);
-          doc.setTextColor(100);
-          doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 28);
-          doc.text(`Total Results: ${searchResults.length}`, 14, 34);
-
-          // Reset text color
-          doc.setTextColor(0);
-
-          // Generate table with selected columns only
-          const headers = activeColumns.map(col => col.label);
-          const body = searchResults.map(product =>
-            activeColumns.map(col => {
-              const value = product[col.id];
-              if (col.id === 'inStock') return value ? 'Yes' : 'No';
-              if (col.id === 'price') return `$${value}`;
-              if (col.id === 'country') return value.toUpperCase();
-              return value;
-            })
-          );
-
-          autoTable(doc, {
-            startY: 42,
-            head: [headers],
-            body: body,
-            styles: {
-              fontSize: 10,
-              cellPadding: 3,
-            },
-            headStyles: {
-              fillColor: [63, 81, 181], // Primary color
-              textColor: 255,
-              fontStyle: 'bold',
-            },
-            alternateRowStyles: {
-              fillColor: [245, 245, 245],
-            },
-            margin: { top: 42 },
-          });
-
-          doc.save(`${fileName}.pdf`);
-          break;
-        }
-
-        case 'excel': {
-          // Dynamic import to reduce bundle size
-          const XLSX = await import('xlsx');
-
-          // Prepare data with selected columns only
-          const worksheet = XLSX.utils.json_to_sheet(
-            searchResults.map(product => {
-              const row: any = {};
-              activeColumns.forEach(col => {
-                const value = product[col.id];
-                let formattedValue = value;
-                if (col.id === 'inStock') formattedValue = value ? 'Yes' : 'No';
-                else if (col.id === 'price') formattedValue = value;
-                else if (col.id === 'country') formattedValue = value.toUpperCase();
-                row[col.label] = formattedValue;
-              });
-              return row;
-            })
-          );
-
-          // Set column widths dynamically
-          const columnWidths = activeColumns.map(() => ({ wch: 20 }));
-          worksheet['!cols'] = columnWidths;
-
-          // Create workbook and add worksheet
-          const workbook = XLSX.utils.book_new();
-          XLSX.utils.book_append_sheet(workbook, worksheet, 'Products');
-
-          // Add metadata
-          workbook.Props = {
-            Title: 'Product Search Report',
-            Subject: 'Search Results',
-            Author: 'Dynamic Search Component',
-            CreatedDate: new Date(),
-          };
-
-          // Save file
-          XLSX.writeFile(workbook, `${fileName}.xlsx`);
-          break;
-        }
-
-        case 'csv': {
-          // Generate CSV with selected columns only
-          const headers = activeColumns.map(col => col.label);
-          const csvRows = [
-            headers.join(','),
-            ...searchResults.map(product =>
-              activeColumns.map(col => {
-                const value = product[col.id];
-                let formattedValue = value;
-                if (col.id === 'inStock') formattedValue = value ? 'Yes' : 'No';
-                else if (col.id === 'price') formattedValue = value;
-                else if (col.id === 'country') formattedValue = value.toUpperCase();
-                else if (col.id === 'productName') formattedValue = `"${value}"`;
-                return formattedValue;
-              }).join(',')
-            ),
-          ];
-          const csvContent = csvRows.join('\n');
-          const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-          const link = document.createElement('a');
-          const url = URL.createObjectURL(blob);
-          link.setAttribute('href', url);
-          link.setAttribute('download', `${fileName}.csv`);
-          link.style.visibility = 'hidden';
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          break;
-        }
+      const file = await runExport(format, {
+        rows: searchResults,
+        columns: activeColumns.map(toExportColumn),
+        title: 'Product Search Report',
+        params: searchParams,
+        searchName: loadedSearchName,
+      });
+      if (!deliverExportFile(file)) {
+        alert('Could not open preview window. Please allow popups for this site.');
       }
     } catch (error) {
       console.error('Error downloading report:', error);
-      alert(`Failed to download ${format.toUpperCase()} report. Please try again.`);
+      alert(error instanceof ExportError ? error.message : `Failed to download ${format.toUpperCase()} report. Please try again.`);
     }
   };
 
   const renderReportView = () => {
-    const activeColumns = selectedColumns.filter(col => col.selected);
-
     return (
       <Box>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
@@ -875,86 +728,32 @@ export default function Home() {
               open={Boolean(downloadMenuAnchor)}
               onClose={() => setDownloadMenuAnchor(null)}
             >
-              <MenuItem onClick={() => handleDownloadReport('pdf')}>
-                <ListItemIcon>
-                  <PdfIcon fontSize="small" />
-                </ListItemIcon>
-                <ListItemText>Download as PDF</ListItemText>
-              </MenuItem>
-              <MenuItem onClick={() => handleDownloadReport('excel')}>
-                <ListItemIcon>
-                  <ExcelIcon fontSize="small" />
-                </ListItemIcon>
-                <ListItemText>Download as Excel</ListItemText>
-              </MenuItem>
-              <MenuItem onClick={() => handleDownloadReport('csv')}>
-                <ListItemIcon>
-                  <CsvIcon fontSize="small" />
-                </ListItemIcon>
-                <ListItemText>Download as CSV</ListItemText>
-              </MenuItem>
+              {listExporters().map((exporter) => (
+                <MenuItem key={exporter.format} onClick={() => handleDownloadReport(exporter.format)}>
+                  <ListItemIcon>
+                    {exporter.format === 'pdf' ? (
+                      <PdfIcon fontSize="small" />
+                    ) : exporter.format === 'excel' ? (
+                      <ExcelIcon fontSize="small" />
+                    ) : exporter.format === 'csv' ? (
+                      <CsvIcon fontSize="small" />
+                    ) : exporter.format === 'zip' ? (
+                      <ZipIcon fontSize="small" />
+                    ) : (
+                      <DownloadIcon fontSize="small" />
+                    )}
+                  </ListItemIcon>
+                  <ListItemText>{exporter.label}</ListItemText>
+                </MenuItem>
+              ))}
             </Menu>
           )}
         </Box>
-        <TableContainer component={Paper} variant="outlined">
-          <Table sx={{ minWidth: 650 }} aria-label="product report table">
-            <TableHead>
-              <TableRow sx={{ bgcolor: 'primary.main' }}>
-                {activeColumns.map((col) => (
-                  <TableCell
-                    key={col.id}
-                    sx={{ color: 'white', fontWeight: 'bold' }}
-                    align={col.id === 'price' ? 'right' : 'left'}
-                  >
-                    {col.label}
-                  </TableCell>
-                ))}
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {searchResults.map((product) => (
-                <TableRow
-                  key={product.id}
-                  sx={{
-                    '&:nth-of-type(odd)': { bgcolor: 'action.hover' },
-                    '&:hover': { bgcolor: 'action.selected' },
-                  }}
-                >
-                  {activeColumns.map((col) => {
-                    const value = product[col.id];
-                    return (
-                      <TableCell
-                        key={col.id}
-                        align={col.id === 'price' ? 'right' : 'left'}
-                      >
-                        {col.id === 'category' ? (
-                          <Chip label={value} size="small" color="primary" variant="outlined" />
-                        ) : col.id === 'condition' ? (
-                          <Chip label={value} size="small" />
-                        ) : col.id === 'inStock' ? (
-                          <Chip
-                            label={value ? 'Yes' : 'No'}
-                            size="small"
-                            color={value ? 'success' : 'error'}
-                            variant="outlined"
-                          />
-                        ) : col.id === 'price' ? (
-                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
-                            ${value}
-                          </Typography>
-                        ) : col.id === 'country' ? (
-                          value.toUpperCase()
-                        ) : (
-                          value
-                        )}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
+        <ReportTable
+          columns={activeColumns}
+          rows={searchResults}
+          aria-label="product report table"
+        />
       </Box>
     );
   };
@@ -1008,20 +807,20 @@ export default function Home() {
         </Alert>
       </Box>
 
+      {savedSearchError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Saved searches: {savedSearchError.message}
+        </Alert>
+      )}
+
       <DynamicSearch
         fields={searchFieldsWithAccordion}
         onSearch={handleSearch}
-        onSave={handleSaveSearch}
+        {...savedSearchProps}
         onLoad={handleLoadSearch}
-        onDelete={handleDeleteSearch}
-        onRename={handleRenameSearch}
-        onChangeVisibility={handleChangeVisibility}
-        savedSearches={savedSearches}
         enableSaveSearch={true}
-        currentUser="demo_user"
-        searchContext="products"
         allowCrossContext={false}
-        isAdmin={false}
+        syncWithUrl={true}
         columnLayout={2}
         enableViewMode={true}
         defaultViewMode="grid"
@@ -1193,12 +992,12 @@ export default function Home() {
         <DialogContent>
           <Box sx={{ pt: 1 }}>
             <FormGroup>
-              {selectedColumns.map((col) => (
+              {reportColumns.map((col) => (
                 <FormControlLabel
                   key={col.id}
                   control={
                     <Checkbox
-                      checked={col.selected}
+                      checked={selectedColumnIds.includes(col.id)}
                       onChange={() => handleToggleColumn(col.id)}
                     />
                   }
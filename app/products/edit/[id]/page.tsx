@@ -1,10 +1,9 @@
 'use client';
 
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
 import {
   Box,
   Container,
@@ -17,90 +16,79 @@ import {
   Alert,
   Divider,
   Skeleton,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
 } from '@mui/material';
-import { ArrowBack as ArrowBackIcon, Save as SaveIcon } from '@mui/icons-material';
+import { ArrowBack as ArrowBackIcon, Save as SaveIcon, LockReset as LockResetIcon } from '@mui/icons-material';
 import { useGridManagement } from '@/hooks/useGridManagement';
-import { useProduct, useUpdateProduct, type UpdateProductInput } from '@/hooks/useProducts';
-import { LockService } from '@/lib/lockService';
-
-// Form validation schema
-const productSchema = z.object({
-  name: z.string().min(1, 'Product name is required').max(100, 'Name too long'),
-  category: z.string().min(1, 'Category is required'),
-  status: z.enum(['active', 'inactive', 'discontinued']),
-  price: z.number().min(0, 'Price must be positive'),
-  stock: z.number().int().min(0, 'Stock must be non-negative'),
-  description: z.string().max(500, 'Description too long').optional(),
-});
+import { useProduct, useUpdateProduct, type UpdateProductInput, type Product } from '@/hooks/useProducts';
+import { useRowLock } from '@/hooks/useRowLock';
+import { ApiError } from '@/lib/api/errors';
+import { isVersionConflict } from '@/lib/api/products';
+import { buildZodSchema } from '@/components/DynamicSearch';
+import { MergeDialog } from '@/components/MergeDialog';
+import { productEditFields, categoryOptions, statusOptions } from '../../fields';
+
+// Form validation schema - built from the shared product field definitions
+interface ProductFormData {
+  name: string;
+  category: string;
+  status: 'active' | 'inactive' | 'discontinued';
+  price: number;
+  stock: number;
+  description?: string;
+}
 
-type ProductFormData = z.infer<typeof productSchema>;
+const productSchema = buildZodSchema<ProductFormData>(productEditFields, 'edit');
 
-// Category options
-const categories = [
-  { value: 'electronics', label: 'Electronics' },
-  { value: 'clothing', label: 'Clothing' },
-  { value: 'home', label: 'Home & Garden' },
-  { value: 'sports', label: 'Sports' },
-];
+// Save rejected because our lock expired or was taken over (see PUT /api/products/[id])
+const isLockError = (error: unknown): error is ApiError =>
+  error instanceof ApiError && (error.status === 409 || error.status === 423);
 
-// Status options
-const statuses = [
-  { value: 'active', label: 'Active' },
-  { value: 'inactive', label: 'Inactive' },
-  { value: 'discontinued', label: 'Discontinued' },
-];
+// Save rejected with 412 - values for the three-way merge dialog
+interface VersionConflict {
+  original: ProductFormData; // What the edit started from
+  mine: ProductFormData; // What the user tried to save
+  server: ProductFormData; // What is saved now
+  latest: Product;
+}
+
+const toFormValues = (product: Product): ProductFormData => ({
+  name: product.name,
+  category: product.category,
+  status: product.status,
+  price: product.price,
+  stock: product.stock,
+  description: product.description,
+});
 
 export default function ProductEditPage() {
   const params = useParams();
   const id = Number(params.id);
   const currentUser = 'demo_user@example.com'; // In production, get from auth context
-  const lockReleasedRef = useRef(false);
+  const [relocking, setRelocking] = useState(false);
+  const [original, setOriginal] = useState<Product | null>(null); // Version the edit is based on (sent as If-Match)
+  const [conflict, setConflict] = useState<VersionConflict | null>(null);
 
   // Use grid management hook for navigation
   const { returnToGrid } = useGridManagement({
     gridId: 'products-grid',
   });
 
-  // Release lock helper
-  const releaseLock = useCallback(async () => {
-    if (!lockReleasedRef.current && id) {
-      lockReleasedRef.current = true;
-      await LockService.releaseLock('products', id.toString(), currentUser);
-    }
-  }, [id, currentUser]);
-
-  // Release lock on unmount
+  // Edit lock: takes over the lock acquired in the grid (same user, same fencing token),
+  // keeps it alive and releases it when leaving the page
+  const rowLock = useRowLock('products', id || null, { userId: currentUser });
+  const [wasHeld, setWasHeld] = useState(false); // Whether this page ever held the lock
   useEffect(() => {
-    return () => {
-      releaseLock();
-    };
-  }, [releaseLock]);
-
-  // Heartbeat to keep lock alive while editing
-  useEffect(() => {
-    if (!id) return;
-
-    const heartbeat = setInterval(async () => {
-      await LockService.refreshLock('products', id.toString(), currentUser);
-    }, 30000); // Refresh every 30 seconds
-
-    return () => clearInterval(heartbeat);
-  }, [id, currentUser]);
-
-  // Handle browser close/refresh - release lock
-  useEffect(() => {
-    const handleBeforeUnload = () => {
-      // Use sendBeacon for reliable delivery on page unload
-      navigator.sendBeacon('/api/locks/release', JSON.stringify({
-        tableName: 'products',
-        rowId: id.toString(),
-        userId: currentUser
-      }));
-    };
-
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [id, currentUser]);
+    if (rowLock.isHeld) setWasHeld(true);
+  }, [rowLock.isHeld]);
+  // Someone else held the row when the page opened - view only until they're done
+  const lockedOut = !wasHeld && (rowLock.status === 'conflict' || relocking);
+  // We held the lock and lost it, or failed to take it back
+  const lockLost = wasHeld && (rowLock.status === 'lost' || rowLock.status === 'conflict');
 
   // Fetch product data using React Query
   const {
@@ -118,6 +106,7 @@ export default function ProductEditPage() {
     control,
     handleSubmit,
     reset,
+    setValue,
     formState: { errors, isDirty, isSubmitting },
   } = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -131,19 +120,14 @@ export default function ProductEditPage() {
     },
   });
 
-  // Reset form when product data loads
+  // Reset form when product data first loads. Later refetches don't touch the form -
+  // changes saved by others surface as a version conflict on save.
   useEffect(() => {
-    if (product) {
-      reset({
-        name: product.name,
-        category: product.category,
-        status: product.status,
-        price: product.price,
-        stock: product.stock,
-        description: product.description,
-      });
+    if (product && !original) {
+      setOriginal(product);
+      reset(toFormValues(product));
     }
-  }, [product, reset]);
+  }, [product, original, reset]);
 
   // Form submit handler
   const onSubmit = async (data: ProductFormData) => {
@@ -151,20 +135,63 @@ export default function ProductEditPage() {
       await updateMutation.mutateAsync({
         id,
         data: data as UpdateProductInput,
+        lockToken: rowLock.token ?? undefined,
+        version: original?.version,
       });
       // Release lock and return to grid on success
-      await releaseLock();
+      await rowLock.release();
       returnToGrid();
     } catch (error) {
+      if (isLockError(error)) {
+        rowLock.markLost(error.body?.lockedBy);
+        return;
+      }
+      if (isVersionConflict(error) && original) {
+        const latest = error.body!.current;
+        setConflict({ original: toFormValues(original), mine: data, server: toFormValues(latest), latest });
+        return;
+      }
       // Error is handled by mutation state
       console.error('Failed to update product:', error);
     }
   };
 
+  // Lock lost recovery (and retry when the row was locked on open): take the lock again. If someone
+  // saved in the meantime, the next save is rejected by If-Match and opens the merge dialog.
+  const handleRelock = async () => {
+    setRelocking(true);
+    try {
+      const token = await rowLock.acquire();
+      if (token !== null) updateMutation.reset();
+    } finally {
+      setRelocking(false);
+    }
+  };
+
+  // Version conflict: rebase the form on the latest record and mark the merged values as edits
+  const handleMergeApply = (merged: Record<string, any>) => {
+    if (!conflict) return;
+
+    setOriginal(conflict.latest);
+    reset(conflict.server);
+    (Object.keys(conflict.server) as Array<keyof ProductFormData>).forEach((name) => {
+      if (merged[name] !== conflict.server[name]) {
+        setValue(name, merged[name], { shouldDirty: true });
+      }
+    });
+    setConflict(null);
+    updateMutation.reset();
+  };
+
+  // Lock lost recovery: drop the edits (the lock is no longer ours, so nothing to release)
+  const handleDiscard = () => {
+    returnToGrid();
+  };
+
   // Handle back navigation
   const handleBack = async () => {
     // Release lock before navigating back
-    await releaseLock();
+    await rowLock.release();
     returnToGrid();
   };
 
@@ -222,8 +249,30 @@ export default function ProductEditPage() {
         Editing: {product?.name} (ID: {id})
       </Typography>
 
-      {/* Mutation Error */}
-      {updateMutation.isError && (
+      {/* Locked by someone else when the page opened */}
+      {lockedOut && (
+        <Alert
+          severity="warning"
+          sx={{ mb: 3 }}
+          action={
+            <Button
+              color="inherit"
+              size="small"
+              onClick={handleRelock}
+              disabled={relocking}
+              startIcon={relocking ? <CircularProgress size={16} color="inherit" /> : <LockResetIcon />}
+            >
+              Try Again
+            </Button>
+          }
+        >
+          {rowLock.lockedBy ? `Locked by ${rowLock.lockedBy}` : 'Locked by another user'} - you can view this
+          product, but not save changes until they are done editing it.
+        </Alert>
+      )}
+
+      {/* Mutation Error (lock errors and version conflicts are handled by the dialogs below) */}
+      {updateMutation.isError && !isLockError(updateMutation.error) && !isVersionConflict(updateMutation.error) && (
         <Alert severity="error" sx={{ mb: 3 }}>
           Failed to save: {updateMutation.error?.message || 'Unknown error'}
         </Alert>
@@ -263,7 +312,7 @@ export default function ProductEditPage() {
                   fullWidth
                   required
                 >
-                  {categories.map((opt) => (
+                  {categoryOptions.map((opt) => (
                     <MenuItem key={opt.value} value={opt.value}>
                       {opt.label}
                     </MenuItem>
@@ -286,7 +335,7 @@ export default function ProductEditPage() {
                   fullWidth
                   required
                 >
-                  {statuses.map((opt) => (
+                  {statusOptions.map((opt) => (
                     <MenuItem key={opt.value} value={opt.value}>
                       {opt.label}
                     </MenuItem>
@@ -376,7 +425,7 @@ export default function ProductEditPage() {
                     <SaveIcon />
                   )
                 }
-                disabled={isSubmitting || updateMutation.isPending || !isDirty}
+                disabled={isSubmitting || updateMutation.isPending || !isDirty || !rowLock.isHeld}
               >
                 {isSubmitting || updateMutation.isPending ? 'Saving...' : 'Save Changes'}
               </Button>
@@ -385,6 +434,49 @@ export default function ProductEditPage() {
         </form>
       </Paper>
 
+      {/* Lock Lost Dialog */}
+      <Dialog open={lockLost || (relocking && wasHeld)} maxWidth="sm" fullWidth>
+        <DialogTitle>Your lock was lost</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {rowLock.lockedBy
+              ? `${rowLock.lockedBy} is now editing this product, so your changes could not be saved.`
+              : 'Your lock on this product expired, so your changes could not be saved.'}
+          </DialogContentText>
+          <DialogContentText>
+            Your edits are still in the form. Lock the product again to keep editing - if someone saved in the
+            meantime, you can merge their changes with yours when you save. Or discard your changes and return
+            to the grid.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={handleDiscard} disabled={relocking}>
+            Discard Changes
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleRelock}
+            disabled={relocking}
+            startIcon={relocking ? <CircularProgress size={20} color="inherit" /> : <LockResetIcon />}
+          >
+            {rowLock.lockedBy ? 'Try Again' : 'Lock Again'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Version Conflict Dialog */}
+      {conflict && (
+        <MergeDialog
+          open
+          fields={productEditFields}
+          original={conflict.original}
+          mine={conflict.mine}
+          server={conflict.server}
+          onApply={handleMergeApply}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Product Info */}
       {product && (
         <Paper elevation={1} sx={{ p: 2, mt: 3, bgcolor: 'grey.50' }}>
@@ -0,0 +1,158 @@
+import { FieldConfig, DropdownOption } from '@/components/DynamicSearch';
+import type { ReportColumn } from '@/lib/reports';
+import type { Product } from '@/lib/api/products';
+
+// Category options
+export const categoryOptions: DropdownOption[] = [
+  { label: 'Electronics', value: 'electronics' },
+  { label: 'Clothing', value: 'clothing' },
+  { label: 'Home & Garden', value: 'home' },
+  { label: 'Sports', value: 'sports' },
+];
+
+// Status options
+export const statusOptions: DropdownOption[] = [
+  { label: 'Active', value: 'active' },
+  { label: 'Inactive', value: 'inactive' },
+  { label: 'Discontinued', value: 'discontinued' },
+];
+
+// Search field configurations - similar to app/page.tsx
+export const productSearchFields: FieldConfig[] = [
+  {
+    name: 'search',
+    label: 'Product Name',
+    type: 'text',
+    placeholder: 'Enter product name...',
+    helperText: 'Search by product name or description',
+    tooltip: 'Enter the name or partial name of the product you are looking for',
+    operators: ['contains', 'startsWith', 'equals'],
+  },
+  {
+    name: 'category',
+    label: 'Category',
+    type: 'dropdown',
+    options: categoryOptions,
+    helperText: 'Select one or more categories',
+    operators: ['equals', 'in', 'notIn'],
+  },
+  {
+    name: 'status',
+    label: 'Status',
+    type: 'dropdown',
+    options: statusOptions,
+    helperText: 'Product status',
+  },
+  {
+    name: 'priceRange',
+    label: 'Price Range',
+    type: 'dropdown',
+    options: [
+      { label: '$0 - $50', value: '0-50' },
+      { label: '$50 - $100', value: '50-100' },
+      { label: '$100 - $500', value: '100-500' },
+      { label: '$500+', value: '500-1000' },
+    ],
+    helperText: 'Filter by price range',
+  },
+  {
+    name: 'price',
+    label: 'Price ($)',
+    type: 'number',
+    helperText: 'Compare against the exact price',
+    operators: ['between', 'gt', 'lt', 'equals'],
+    validation: { min: 0, message: 'Price must be positive' },
+  },
+  {
+    name: 'stock',
+    label: 'Stock',
+    type: 'number',
+    helperText: 'Compare against units in stock',
+    operators: ['lt', 'gt', 'between', 'equals'],
+    validation: { min: 0, integer: true, message: 'Stock must be non-negative' },
+  },
+  {
+    name: 'dateFrom',
+    label: 'Created From',
+    type: 'date',
+    helperText: 'Products created after this date',
+  },
+  {
+    name: 'dateTo',
+    label: 'Created To',
+    type: 'date',
+    helperText: 'Products created before this date',
+    validation: { gteField: 'dateFrom' },
+  },
+  {
+    name: 'stockRange',
+    label: 'Stock Levels',
+    type: 'pill',
+    pillType: 'number',
+    allowRanges: true,
+    placeholder: 'Enter stock levels (e.g., 0-50, 100-200)',
+    helperText: 'Filter by stock ranges',
+    defaultValue: [],
+  },
+];
+
+// Edit form field configurations - also used to build the edit page's zod schema
+export const productEditFields: FieldConfig[] = [
+  {
+    name: 'name',
+    label: 'Product Name',
+    type: 'text',
+    required: true,
+    validation: { maxLength: 100, message: 'Name too long' },
+  },
+  {
+    name: 'category',
+    label: 'Category',
+    type: 'dropdown',
+    options: categoryOptions,
+    required: true,
+  },
+  {
+    name: 'status',
+    label: 'Status',
+    type: 'dropdown',
+    options: statusOptions,
+    required: true,
+  },
+  {
+    name: 'price',
+    label: 'Price ($)',
+    type: 'number',
+    required: true,
+    validation: { min: 0, message: 'Price must be positive' },
+  },
+  {
+    name: 'stock',
+    label: 'Stock',
+    type: 'number',
+    required: true,
+    validation: { min: 0, integer: true, message: 'Stock must be non-negative' },
+  },
+  {
+    name: 'description',
+    label: 'Description',
+    type: 'text',
+    validation: { maxLength: 500, message: 'Description too long' },
+  },
+];
+
+// Result columns - the grid, the report view and every export are derived from these
+export const productColumns: ReportColumn<Product>[] = [
+  { id: 'id', label: 'ID', width: 70 },
+  { id: 'name', label: 'Product Name', width: 200 },
+  { id: 'category', label: 'Category', width: 130, tone: () => 'info' },
+  {
+    id: 'status',
+    label: 'Status',
+    width: 120,
+    tone: (value) => (value === 'active' ? 'success' : value === 'inactive' ? 'warning' : 'error'),
+  },
+  { id: 'price', label: 'Price ($)', type: 'currency', width: 100, exportHeader: 'Price', aggregate: 'avg' },
+  { id: 'stock', label: 'Stock', type: 'number', width: 100, aggregate: 'sum' },
+  { id: 'createdAt', label: 'Created', type: 'date', width: 120, exportHeader: 'Created Date' },
+];
@@ -9,12 +9,6 @@ import {
   Alert,
   Button,
   Chip,
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
   Menu,
   MenuItem,
   ListItemIcon,
@@ -29,94 +23,111 @@ import {
   IconButton,
   Tooltip,
   CircularProgress,
+  Snackbar,
+  Divider,
+  LinearProgress,
 } from '@mui/material';
 import {
   Download as DownloadIcon,
+  CloudDownload as ServerExportIcon,
   PictureAsPdf as PdfIcon,
   TableChart as ExcelIcon,
   Description as CsvIcon,
+  FolderZip as ZipIcon,
   Edit as EditIcon,
+  EditNote as BulkEditIcon,
+  Delete as DeleteIcon,
+  Block as DiscontinueIcon,
+  Category as CategoryIcon,
+  MoreVert as MoreIcon,
   Visibility as ViewIcon,
   Add as AddIcon,
   Refresh as RefreshIcon,
   Lock as LockIcon,
+  NotificationsActive as NotifyIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
 } from '@mui/icons-material';
-import { LockService } from '@/lib/lockService';
-import { DataGrid, GridColDef, GridPaginationModel, GridSortModel, GridRowSelectionModel } from '@mui/x-data-grid';
+import { LockService, type BatchLockResult } from '@/lib/lockService';
+import {
+  DataGrid,
+  GridColDef,
+  GridPaginationModel,
+  GridSortModel,
+  GridRowSelectionModel,
+  GridColumnHeaderParams,
+} from '@mui/x-data-grid';
 import dayjs from 'dayjs';
-import { DynamicSearch, FieldConfig, SavedSearch, ViewMode, ReportFormat, ReportOption } from '@/components/DynamicSearch';
+import { DynamicSearch, ViewMode, ReportFormat, ReportOption } from '@/components/DynamicSearch';
 import { useGridManagement } from '@/hooks/useGridManagement';
-import { useProducts, useAllProducts, usePrefetchProduct, type ProductsQueryParams } from '@/hooks/useProducts';
-
-// Search field configurations - similar to app/page.tsx
-const searchFields: FieldConfig[] = [
-  {
-    name: 'search',
-    label: 'Product Name',
-    type: 'text',
-    placeholder: 'Enter product name...',
-    helperText: 'Search by product name or description',
-    tooltip: 'Enter the name or partial name of the product you are looking for',
-  },
-  {
-    name: 'category',
-    label: 'Category',
-    type: 'dropdown',
-    options: [
-      { label: 'Electronics', value: 'electronics' },
-      { label: 'Clothing', value: 'clothing' },
-      { label: 'Home & Garden', value: 'home' },
-      { label: 'Sports', value: 'sports' },
-    ],
-    helperText: 'Select a category',
-  },
-  {
-    name: 'status',
-    label: 'Status',
-    type: 'dropdown',
-    options: [
-      { label: 'Active', value: 'active' },
-      { label: 'Inactive', value: 'inactive' },
-      { label: 'Discontinued', value: 'discontinued' },
-    ],
-    helperText: 'Product status',
-  },
-  {
-    name: 'priceRange',
-    label: 'Price Range',
-    type: 'dropdown',
-    options: [
-      { label: '$0 - $50', value: '0-50' },
-      { label: '$50 - $100', value: '50-100' },
-      { label: '$100 - $500', value: '100-500' },
-      { label: '$500+', value: '500-1000' },
-    ],
-    helperText: 'Filter by price range',
-  },
-  {
-    name: 'dateFrom',
-    label: 'Created From',
-    type: 'date',
-    helperText: 'Products created after this date',
-  },
-  {
-    name: 'dateTo',
-    label: 'Created To',
-    type: 'date',
-    helperText: 'Products created before this date',
-  },
-  {
-    name: 'stockRange',
-    label: 'Stock Levels',
-    type: 'pill',
-    pillType: 'number',
-    allowRanges: true,
-    placeholder: 'Enter stock levels (e.g., 0-50, 100-200)',
-    helperText: 'Filter by stock ranges',
-    defaultValue: [],
-  },
+import {
+  useProducts,
+  useAllProducts,
+  usePrefetchProduct,
+  useBulkUpdateProducts,
+  useBatchProducts,
+  useFetchAllProducts,
+  type ProductsQueryParams,
+  type AllProductsQueryParams,
+  type BatchAction,
+  type BatchRow,
+  type UpdateProductInput,
+} from '@/hooks/useProducts';
+import { useSavedSearches } from '@/hooks/useSavedSearches';
+import { useGridUrlSync } from '@/hooks/useGridUrlSync';
+import { useTableLocks } from '@/hooks/useTableLocks';
+import { useLockQueue } from '@/hooks/useLockQueue';
+import { BulkEditDialog, type BulkEditRowResult } from '@/components/BulkEditDialog';
+import { ReportCell } from '@/components/ReportCell';
+import { ReportTable } from '@/components/ReportTable';
+import { ReportChart } from '@/components/ReportChart';
+import { exportProducts, type ProductExportFormat, type ProductExportProgress } from '@/lib/api/products';
+import { runExport, ExportError, toExportColumn, toGridColumn } from '@/lib/reports';
+import { deliverExportFile, saveBlob } from '@/lib/reports/download';
+import { productSearchFields as searchFields, productEditFields, productColumns, categoryOptions } from './fields';
+import { resolveRowSelection } from './selection';
+
+const UNDO_TIMEOUT = 10000; // How long the undo snackbar stays open
+const LARGE_EXPORT_ROWS = 5000; // Above this, suggest a server export over building files in the browser
+
+const SERVER_EXPORT_FORMATS: { format: ProductExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel (XLSX)' },
+  { format: 'json', label: 'JSON' },
+  { format: 'ndjson', label: 'NDJSON (one product per line)' },
 ];
 
+// Columns offered in the report view and its exports (the grid also shows the id)
+const reportColumns = productColumns.filter((col) => col.id !== 'id');
+
+// Filter-only params for reports and exports (no pagination)
+const toReportQueryParams = (
+  filters: Record<string, any>,
+  sort: Array<{ field: string; sort: 'asc' | 'desc' }>
+): AllProductsQueryParams => ({
+  sort,
+  search: filters.search,
+  category: filters.category,
+  status: filters.status,
+  price: filters.price,
+  stock: filters.stock,
+  priceRange: filters.priceRange,
+  dateFrom: filters.dateFrom,
+  dateTo: filters.dateTo,
+});
+
+// Why a batch lock of the selected rows failed, row by row
+const lockFailureMessage = (lockResult: BatchLockResult) => {
+  const conflicts = (lockResult.conflicts || [])
+    .map((conflict) =>
+      conflict.reservedUntil
+        ? `#${conflict.rowId} - reserved for ${conflict.lockedBy}`
+        : `#${conflict.rowId} - being edited by ${conflict.lockedBy}`
+    )
+    .join('\n');
+  return conflicts ? `Some selected records can't be locked:\n${conflicts}` : lockResult.error;
+};
+
 export default function ProductsPage() {
   // ========================================
   // CONFIGURATION OPTIONS
@@ -144,6 +155,7 @@ export default function ProductsPage() {
         { format: 'pdf', label: 'Download PDF', icon: 'pdf' },
         { format: 'excel', label: 'Download Excel', icon: 'excel' },
         { format: 'csv', label: 'Download CSV', icon: 'csv' },
+        { format: 'zip', label: 'Download All (ZIP)', icon: 'zip' },
       ],
     },
     {
@@ -152,12 +164,37 @@ export default function ProductsPage() {
       icon: 'chart',
       fetchAll: true,
       description: 'Report grouped by product categories',
+      groupBy: ['category', 'status'],
       exportFormats: [
         { format: 'pdf', label: 'Download PDF', icon: 'pdf' },
         { format: 'excel', label: 'Download Excel', icon: 'excel' },
         { format: 'zip', label: 'Download ZIP Archive', icon: 'zip' },
       ],
     },
+    {
+      id: 'price-chart',
+      label: 'Price by Category',
+      icon: 'chart',
+      fetchAll: true,
+      description: 'Average price per category',
+      chart: { type: 'bar', x: 'category', y: 'price', aggregate: 'avg' },
+      exportFormats: [
+        { format: 'pdf', label: 'Download PDF', icon: 'pdf' },
+        { format: 'html', label: 'View as HTML', icon: 'html' },
+      ],
+    },
+    {
+      id: 'status-chart',
+      label: 'Products by Status',
+      icon: 'chart',
+      fetchAll: true,
+      description: 'Share of products in each status',
+      chart: { type: 'pie', x: 'status' },
+      exportFormats: [
+        { format: 'pdf', label: 'Download PDF', icon: 'pdf' },
+        { format: 'html', label: 'View as HTML', icon: 'html' },
+      ],
+    },
     {
       id: 'test-data-report',
       label: 'Test Data Report',
@@ -182,6 +219,7 @@ export default function ProductsPage() {
     setPage,
     setPageSize,
     setSortModel,
+    toggleSortColumn,
     setColumnVisibility,
     setSelectedRows,
   } = useGridManagement({
@@ -190,43 +228,123 @@ export default function ProductsPage() {
   });
 
   // Local UI state
-  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  // Saved searches are persisted via /api/saved-searches
+  const { savedSearchProps, savedSearches, error: savedSearchError } = useSavedSearches('products', {
+    currentUser: 'demo_user', // In production, get from auth context
+    isAdmin: false,
+  });
   // Use hasSearched from persisted grid state
   const hasSearched = state.hasSearched;
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
+  const [loadedSearchName, setLoadedSearchName] = useState<string>(); // Recorded in ZIP export manifests
+
+  // Mirror filters, view mode, page and sort in the URL so results can be bookmarked and shared
+  useGridUrlSync({
+    gridId: 'products-grid',
+    fields: searchFields,
+    viewMode,
+    onViewModeChange: setViewMode,
+  });
   const [downloadMenuAnchor, setDownloadMenuAnchor] = useState<null | HTMLElement>(null);
+  const [serverExportMenuAnchor, setServerExportMenuAnchor] = useState<null | HTMLElement>(null);
+  const [serverExport, setServerExport] = useState<{
+    format: ProductExportFormat;
+    controller: AbortController;
+    progress: ProductExportProgress | null;
+  } | null>(null);
   const [columnSelectorOpen, setColumnSelectorOpen] = useState(false);
   const [viewDialogOpen, setViewDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
 
   // Track locked rows: { rowId: { lockedBy: string, lockedAt: Date } }
-  const [lockedRows, setLockedRows] = useState<Record<number, { lockedBy: string; lockedAt: Date }>>({});
+  // Kept current over /api/locks/stream (falls back to polling)
+  const { locks: lockedRows, setLocks: setLockedRows, reservations } = useTableLocks('products');
+
+  // "Notify me when free": queue positions and freed rows held for the current user
+  const lockQueue = useLockQueue('products', { userId: currentUser, reservations });
+  const [claimNotice, setClaimNotice] = useState<{ rowId: string; expiresAt: Date } | null>(null);
+  const notifiedClaims = useRef(new Set<string>());
+
+  // Announce each new reservation once
+  useEffect(() => {
+    const entries = Object.entries(lockQueue.claims);
+    const fresh = entries.find(([rowId, expiresAt]) => !notifiedClaims.current.has(`${rowId}:${expiresAt.getTime()}`));
+    if (fresh) {
+      const [rowId, expiresAt] = fresh;
+      notifiedClaims.current.add(`${rowId}:${expiresAt.getTime()}`);
+      setClaimNotice({ rowId, expiresAt });
+    } else if (claimNotice && !lockQueue.claims[claimNotice.rowId]) {
+      setClaimNotice(null); // Claimed elsewhere, or the grace window ran out
+    }
+  }, [lockQueue.claims, claimNotice]);
+
+  // Bulk edit of the selected rows, holding a lock on each of them
+  const [bulkEdit, setBulkEdit] = useState<{
+    rowIds: string[];
+    tokens: Record<string, number>;
+    results: BulkEditRowResult[] | null;
+    lockError?: string; // Set when a heartbeat finds some of the locks lost
+  } | null>(null);
+  const bulkUpdate = useBulkUpdateProducts();
+
+  // Batch delete / status / category actions, each undoable for UNDO_TIMEOUT
+  const batch = useBatchProducts();
+  const [bulkMenuAnchor, setBulkMenuAnchor] = useState<null | HTMLElement>(null);
+  const [undo, setUndo] = useState<{ message: string; action: BatchAction; rows: BatchRow[] } | null>(null);
+
+  // Keep the bulk locks alive while the form is open (re-acquiring refreshes them). Like useRowLock,
+  // a failed renewal or a changed fencing token means a lock was lost in between - the dialog says so.
+  const bulkLocking = !!bulkEdit && !bulkEdit.results;
+  useEffect(() => {
+    if (!bulkLocking) return;
+    const rowIds = bulkEdit.rowIds;
+    let active = true;
+    const interval = setInterval(async () => {
+      const result = await LockService.acquireLocks('products', rowIds, currentUser);
+      if (!active) return;
+
+      setBulkEdit((prev) => {
+        if (!prev || prev.results) return prev;
+        if (!result.success) {
+          return { ...prev, lockError: `Your locks were lost. ${lockFailureMessage(result)}` };
+        }
+        const lapsed = rowIds.filter((rowId) => result.tokens![rowId] !== prev.tokens[rowId]);
+        return {
+          ...prev,
+          tokens: result.tokens!,
+          lockError: lapsed.length > 0
+            ? `Your locks on ${lapsed.map((rowId) => `#${rowId}`).join(', ')} expired and were taken again - someone may have changed those rows in the meantime.`
+            : prev.lockError,
+        };
+      });
+    }, LockService.getLockPolicy('products').heartbeatIntervalMs);
+    return () => {
+      active = false;
+      clearInterval(interval);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bulkLocking]);
 
   // Build query params from grid state
   const queryParams: ProductsQueryParams = useMemo(() => ({
     page: state.page,
     pageSize: state.pageSize,
-    sortField: state.sortModel[0]?.field,
-    sortOrder: state.sortModel[0]?.sort,
+    sort: state.sortModel,
     search: state.filters.search,
     category: state.filters.category,
     status: state.filters.status,
+    price: state.filters.price,
+    stock: state.filters.stock,
     priceRange: state.filters.priceRange,
     dateFrom: state.filters.dateFrom,
     dateTo: state.filters.dateTo,
   }), [state.page, state.pageSize, state.sortModel, state.filters]);
 
   // Build filter-only params for report view (no pagination)
-  const reportQueryParams = useMemo(() => ({
-    sortField: state.sortModel[0]?.field,
-    sortOrder: state.sortModel[0]?.sort,
-    search: state.filters.search,
-    category: state.filters.category,
-    status: state.filters.status,
-    priceRange: state.filters.priceRange,
-    dateFrom: state.filters.dateFrom,
-    dateTo: state.filters.dateTo,
-  }), [state.sortModel, state.filters]);
+  const reportQueryParams = useMemo(
+    () => toReportQueryParams(state.filters, state.sortModel),
+    [state.sortModel, state.filters]
+  );
 
   // Fetch products using React Query (paginated for grid view)
   // Only fetch when user has clicked search (hasSearched = true)
@@ -249,77 +367,37 @@ export default function ProductsPage() {
 
   // Prefetch hook for hover
   const prefetchProduct = usePrefetchProduct();
+  const fetchAllProducts = useFetchAllProducts();
 
-  // Sync locks from database on mount and periodically
-  useEffect(() => {
-    const syncLocks = async () => {
-      const locks = await LockService.getTableLocks('products');
-      const lockMap: Record<number, { lockedBy: string; lockedAt: Date }> = {};
-
-      locks.forEach(lock => {
-        lockMap[Number(lock.rowId)] = {
-          lockedBy: lock.lockedBy,
-          lockedAt: new Date(lock.lockedAt)
-        };
-      });
-
-      setLockedRows(lockMap);
-    };
-
-    // Initial sync
-    syncLocks();
-
-    // Sync every 10 seconds
-    const interval = setInterval(syncLocks, 10000);
+  // Grid columns definition
+  const baseColumns: GridColDef[] = productColumns.map((col) =>
+    toGridColumn(col, {
+      ...(col.id === 'name' && { flex: 1 }),
+      ...(col.tone && { renderCell: (params) => <ReportCell column={col} row={params.row} /> }),
+    })
+  );
 
-    return () => clearInterval(interval);
-  }, []);
+  // Queue for a row someone else is editing
+  const handleNotifyClick = async (rowId: string | number) => {
+    const result = await lockQueue.join(rowId);
+    if (!result.success) {
+      alert(result.error);
+    }
+  };
 
-  // Grid columns definition
-  const baseColumns: GridColDef[] = [
-    { field: 'id', headerName: 'ID', width: 70 },
-    { field: 'name', headerName: 'Product Name', width: 200, flex: 1 },
-    { field: 'category', headerName: 'Category', width: 130 },
-    {
-      field: 'status',
-      headerName: 'Status',
-      width: 120,
-      renderCell: (params) => (
-        <Chip
-          label={params.value}
-          size="small"
-          color={
-            params.value === 'active'
-              ? 'success'
-              : params.value === 'inactive'
-              ? 'warning'
-              : 'error'
-          }
-        />
-      ),
-    },
-    {
-      field: 'price',
-      headerName: 'Price ($)',
-      width: 100,
-      type: 'number',
-      valueFormatter: (value: number) => `$${value?.toFixed(2) || '0.00'}`,
-    },
-    { field: 'stock', headerName: 'Stock', width: 100, type: 'number' },
-    {
-      field: 'createdAt',
-      headerName: 'Created',
-      width: 120,
-      valueFormatter: (value: string) => dayjs(value).format('MM/DD/YYYY'),
-    },
-  ];
+  // Offer to queue when a row can't be locked
+  const offerQueue = (row: any, lockedBy?: string) => {
+    if (window.confirm(`This record is currently being edited by ${lockedBy}.\nNotify you when it is free?`)) {
+      handleNotifyClick(row.id);
+    }
+  };
 
   // Handle edit with lock acquisition
   const handleEditClick = async (row: any) => {
     // Check if row is locked by another user
     const lock = lockedRows[row.id];
     if (lock && lock.lockedBy !== currentUser) {
-      alert(`This record is currently being edited by ${lock.lockedBy}.\nPlease try again later.`);
+      offerQueue(row, lock.lockedBy);
       return;
     }
 
@@ -327,10 +405,16 @@ export default function ProductsPage() {
     const lockResult = await LockService.acquireLock('products', row.id.toString(), currentUser);
 
     if (!lockResult.success) {
-      alert(`This record is currently being edited by ${lockResult.lockedBy}.\nPlease try again later.`);
+      if (lockResult.reservedUntil) {
+        alert(`This record is being held for ${lockResult.lockedBy}, who was first in line.\nPlease try again after ${dayjs(lockResult.reservedUntil).format('h:mm:ss A')}.`);
+      } else {
+        offerQueue(row, lockResult.lockedBy);
+      }
       return;
     }
 
+    if (claimNotice?.rowId === String(row.id)) setClaimNotice(null);
+
     // Update local lock state
     setLockedRows(prev => ({
       ...prev,
@@ -341,6 +425,134 @@ export default function ProductsPage() {
     navigateTo(`/products/edit/${row.id}`);
   };
 
+  // Lock every selected row in one batch, then open the bulk edit form
+  const handleBulkEditClick = async () => {
+    const rowIds = state.selectedRowIds.map(String);
+    const lockResult = await LockService.acquireLocks('products', rowIds, currentUser);
+
+    if (!lockResult.success) {
+      alert(lockFailureMessage(lockResult));
+      return;
+    }
+
+    setLockedRows(prev => ({
+      ...prev,
+      ...Object.fromEntries(rowIds.map((rowId) => [rowId, { lockedBy: currentUser, lockedAt: new Date() }]))
+    }));
+    setBulkEdit({ rowIds, tokens: lockResult.tokens!, results: null });
+  };
+
+  const handleBulkApply = (changes: Record<string, any>) => {
+    if (!bulkEdit) return;
+    bulkUpdate.mutate(
+      {
+        rows: bulkEdit.rowIds.map((rowId) => ({ id: Number(rowId), lockToken: bulkEdit.tokens[rowId] })),
+        changes,
+      },
+      {
+        onSuccess: ({ results }) => {
+          setBulkEdit((prev) => prev && {
+            ...prev,
+            results: results.map((result) => ({
+              id: result.id,
+              success: result.success,
+              message: result.success ? undefined : result.message,
+            })),
+          });
+        },
+        onError: (error) => alert(error.message),
+      }
+    );
+  };
+
+  // Run a batch action on the selected rows and offer to undo it.
+  // Updates send each row's loaded version, so rows changed elsewhere in the meantime are skipped.
+  // The rows are locked for the length of the action, like bulk edit, so nobody's open edit is overwritten.
+  const handleBatchAction = async (action: 'delete' | 'update', changes?: UpdateProductInput) => {
+    setBulkMenuAnchor(null);
+    const ids = state.selectedRowIds.map(Number);
+    if (action === 'delete' && !window.confirm(`Delete ${ids.length} product(s)?`)) return;
+
+    const rowIds = ids.map(String);
+    const lockResult = await LockService.acquireLocks('products', rowIds, currentUser);
+
+    if (!lockResult.success) {
+      alert(lockFailureMessage(lockResult));
+      return;
+    }
+
+    const loaded = new Map((data?.data || []).map((product) => [product.id, product]));
+    const rows: BatchRow[] = ids.map((id) => ({
+      id,
+      lockToken: lockResult.tokens![String(id)],
+      version: loaded.get(id)?.version,
+    }));
+
+    // Rows the user already had locked (e.g. open in the bulk edit form) were only refreshed - leave those locked
+    const acquired = lockResult.acquired!;
+
+    batch.mutate(
+      { action, rows, changes },
+      {
+        onSettled: () => {
+          if (acquired.length > 0) LockService.releaseLocks('products', acquired, currentUser, lockResult.tokens);
+        },
+        onSuccess: ({ results, succeeded, failed }) => {
+          const done = results.filter((result) => result.success);
+          const failures = failed > 0 ? ` - ${failed} failed: ${results.find((result) => !result.success)?.message}` : '';
+          const verb = action === 'delete' ? 'deleted' : 'updated';
+
+          setUndo({
+            message: `${succeeded} product(s) ${verb}${failures}`,
+            action: action === 'delete' ? 'restore' : 'update',
+            // Undo an update by writing back each row's previous values for the changed fields
+            rows: done.map((result) => ({
+              id: result.id,
+              ...(action === 'update' && {
+                version: result.product.version,
+                changes: Object.fromEntries(
+                  Object.keys(changes || {}).map((field) => [field, result.previous[field as keyof UpdateProductInput]])
+                ),
+              }),
+            })),
+          });
+        },
+        onError: (error) => alert(error.message),
+      }
+    );
+  };
+
+  const handleUndo = () => {
+    if (!undo) return;
+    const { action, rows } = undo;
+    setUndo(null);
+    if (rows.length === 0) return;
+
+    batch.mutate(
+      { action, rows },
+      {
+        onSuccess: ({ failed, results }) => {
+          if (failed > 0) {
+            alert(`Could not undo ${failed} product(s): ${results.find((result) => !result.success)?.message}`);
+          }
+        },
+        onError: (error) => alert(error.message),
+      }
+    );
+  };
+
+  const handleBulkClose = async () => {
+    if (!bulkEdit) return;
+    const { rowIds } = bulkEdit;
+    setBulkEdit(null);
+    setLockedRows(prev => {
+      const next = { ...prev };
+      rowIds.forEach((rowId) => delete next[rowId]);
+      return next;
+    });
+    await LockService.releaseLocks('products', rowIds, currentUser);
+  };
+
   // Add actions column if enabled
   const columns: GridColDef[] = enableEditView
     ? [
@@ -348,22 +560,63 @@ export default function ProductsPage() {
         {
           field: 'actions',
           headerName: 'Actions',
-          width: 250,
+          width: 320,
           sortable: false,
           filterable: false,
           renderCell: (params) => {
             const lock = lockedRows[params.row.id];
             const isLockedByOther = lock && lock.lockedBy !== currentUser;
             const isLockedByMe = lock && lock.lockedBy === currentUser;
+            const reservation = !lock ? reservations[params.row.id] : undefined;
+            const isReservedForOther = reservation && reservation.reservedFor !== currentUser;
+            const isReservedForMe = reservation && reservation.reservedFor === currentUser;
+            const queuePosition = lockQueue.positions[params.row.id];
 
             return (
               <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', height: '100%' }}>
                 {isLockedByOther && (
                   <Chip
                     icon={<LockIcon />}
-                    label={`Locked by ${lock.lockedBy.split('@')[0]}`}
+                    label={
+                      queuePosition
+                        ? `${lock.lockedBy.split('@')[0]} · #${queuePosition} in queue`
+                        : `Locked by ${lock.lockedBy.split('@')[0]}`
+                    }
                     size="small"
                     color="warning"
+                    // The chip's delete icon doubles as the queue toggle
+                    deleteIcon={
+                      <Tooltip title={queuePosition ? 'Leave the queue' : 'Notify me when free'}>
+                        <NotifyIcon />
+                      </Tooltip>
+                    }
+                    onDelete={(e) => {
+                      e.stopPropagation();
+                      if (queuePosition) {
+                        lockQueue.leave(params.row.id);
+                      } else {
+                        handleNotifyClick(params.row.id);
+                      }
+                    }}
+                  />
+                )}
+                {isReservedForOther && (
+                  <Tooltip title={`Held for ${reservation.reservedFor} until ${dayjs(reservation.expiresAt).format('h:mm:ss A')}`}>
+                    <Chip
+                      icon={<LockIcon />}
+                      label={`Reserved for ${reservation.reservedFor.split('@')[0]}`}
+                      size="small"
+                      variant="outlined"
+                      color="warning"
+                    />
+                  </Tooltip>
+                )}
+                {isReservedForMe && (
+                  <Chip
+                    icon={<NotifyIcon />}
+                    label="Reserved for you"
+                    size="small"
+                    color="success"
                   />
                 )}
                 {isLockedByMe && (
@@ -385,7 +638,15 @@ export default function ProductsPage() {
                 >
                   View
                 </Button>
-                <Tooltip title={isLockedByOther ? `Locked by ${lock.lockedBy}` : 'Edit product'}>
+                <Tooltip
+                  title={
+                    isLockedByOther
+                      ? `Locked by ${lock.lockedBy}`
+                      : isReservedForOther
+                      ? `Reserved for ${reservation.reservedFor}`
+                      : 'Edit product'
+                  }
+                >
                   <span>
                     <Button
                       size="small"
@@ -396,7 +657,7 @@ export default function ProductsPage() {
                         handleEditClick(params.row);
                       }}
                       onMouseEnter={() => prefetchProduct(params.row.id)}
-                      disabled={isLockedByOther}
+                      disabled={isLockedByOther || isReservedForOther}
                     >
                       Edit
                     </Button>
@@ -409,20 +670,10 @@ export default function ProductsPage() {
       ]
     : baseColumns;
 
-  // Column config for report view
-  const availableColumns = useMemo(
-    () =>
-      baseColumns
-        .filter((col) => col.field !== 'id' && col.field !== 'actions')
-        .map((col) => ({
-          id: col.field,
-          label: col.headerName || col.field,
-          selected: true,
-        })),
-    []
-  );
-
-  const [selectedColumns, setSelectedColumns] = useState(availableColumns);
+  // Columns shown in the report view and exported
+  const [selectedColumnIds, setSelectedColumnIds] = useState<string[]>(() => reportColumns.map((col) => col.id));
+  const activeColumns = reportColumns.filter((col) => selectedColumnIds.includes(col.id));
+  const exportColumns = activeColumns.map(toExportColumn);
 
   // Handlers
   const handleSearch = (params: Record<string, any>, selectedViewMode?: ViewMode) => {
@@ -438,6 +689,7 @@ export default function ProductsPage() {
   };
 
   const handleReset = () => {
+    setLoadedSearchName(undefined);
     // Clear filters and reset hasSearched flag
     updateState({
       filters: {},
@@ -452,389 +704,78 @@ export default function ProductsPage() {
   };
 
   // Saved search handlers
-  const handleSaveSearch = (search: SavedSearch) => {
-    setSavedSearches((prev) => [...prev, search]);
-    console.log('Saved Search:', search);
-  };
-
   const handleLoadSearch = (searchId: string) => {
     const loaded = savedSearches.find((s) => s.id === searchId);
     console.log('Loaded Search:', loaded);
+    setLoadedSearchName(loaded?.name);
   };
 
-  const handleDeleteSearch = (searchId: string) => {
-    setSavedSearches((prev) => prev.filter((s) => s.id !== searchId));
-    console.log('Deleted Search ID:', searchId);
-  };
+  // Export a report through the exporter registry (lib/reports).
+  // From the search form, params are the form values; otherwise the report on screen is exported.
+  const handleExport = async (reportId: string, format: ReportFormat, params?: Record<string, any>) => {
+    const report = reportOptions.find((opt) => opt.id === reportId);
+    const exportParams = params ? toReportQueryParams(params, state.sortModel) : reportQueryParams;
 
-  const handleRenameSearch = (searchId: string, newName: string) => {
-    setSavedSearches((prev) =>
-      prev.map((s) => (s.id === searchId ? { ...s, name: newName } : s))
-    );
-    console.log('Renamed Search ID:', searchId, 'to:', newName);
+    try {
+      const { data: rows } = await fetchAllProducts(exportParams);
+      const file = await runExport(format, {
+        rows,
+        columns: exportColumns,
+        title: report?.label || 'Product Report',
+        description: report?.description,
+        params: exportParams,
+        searchName: loadedSearchName,
+        groupBy: report?.groupBy,
+        chart: report?.chart,
+      });
+      if (!deliverExportFile(file)) {
+        alert('Could not open preview window. Please allow popups for this site.');
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error);
+      alert(error instanceof ExportError ? error.message : `Failed to export ${format.toUpperCase()} report. Please try again.`);
+    }
   };
 
-  const handleChangeVisibility = (searchId: string, visibility: 'user' | 'global') => {
-    setSavedSearches((prev) =>
-      prev.map((s) => (s.id === searchId ? { ...s, visibility } : s))
-    );
-    console.log('Changed Search ID:', searchId, 'visibility to:', visibility);
-  };
+  // Stream every matching row from /api/products/export, without loading the rows into the page
+  const handleServerExport = async (format: ProductExportFormat) => {
+    setServerExportMenuAnchor(null);
+    const controller = new AbortController();
+    setServerExport({ format, controller, progress: null });
 
-  // Handle export/download for the current report type
-  const handleExport = async (format: ReportFormat) => {
-    console.log('Export requested:', format, 'for report:', viewMode);
-
-    // Handle standard formats
-    if (format === 'pdf' || format === 'excel' || format === 'csv') {
-      await handleDownloadReport(format);
-    } else if (format === 'zip') {
-      // Example: Handle ZIP export
-      console.log('ZIP export requested - implement custom logic here');
-      alert('ZIP export not yet implemented. This would bundle all data into a ZIP archive.');
-    } else if (format === 'json') {
-      // Example: Handle JSON export
-      const searchResults = reportData?.data || [];
-      const jsonContent = JSON.stringify(searchResults, null, 2);
-      const blob = new Blob([jsonContent], { type: 'application/json' });
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `product-report-${new Date().toISOString().split('T')[0]}.json`);
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    } else if (format === 'html') {
-      // Generate HTML preview and open in new window
-      const searchResults = reportData?.data || [];
-      const activeColumns = selectedColumns.filter((col) => col.selected);
-      const timestamp = new Date().toLocaleString();
-
-      // Helper function to format cell content
-      const formatCellContent = (colId: string, value: any): string => {
-        if (colId === 'price') {
-          return '<span class="price">$' + (value?.toFixed(2) || '0.00') + '</span>';
-        } else if (colId === 'createdAt') {
-          return dayjs(value).format('MM/DD/YYYY');
-        } else if (colId === 'status') {
-          const statusClass = value === 'active' ? 'chip-active' : value === 'inactive' ? 'chip-inactive' : 'chip-discontinued';
-          return '<span class="chip ' + statusClass + '">' + value + '</span>';
-        } else if (colId === 'category') {
-          return '<span class="chip chip-category">' + value + '</span>';
-        }
-        return String(value ?? '');
-      };
-
-      // Pre-generate table headers
-      const tableHeaders = activeColumns.map(col => {
-        const alignClass = col.id === 'price' || col.id === 'stock' ? 'right' : '';
-        return '<th class="' + alignClass + '">' + col.label + '</th>';
-      }).join('');
-
-      // Pre-generate table rows
-      const tableRows = searchResults.map((product: any) => {
-        const cells = activeColumns.map(col => {
-          const value = product[col.id];
-          const alignClass = col.id === 'price' || col.id === 'stock' ? 'right' : '';
-          const cellContent = formatCellContent(col.id, value);
-          return '<td class="' + alignClass + '">' + cellContent + '</td>';
-        }).join('');
-        return '<tr>' + cells + '</tr>';
-      }).join('\n          ');
-
-      const htmlContent = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${currentReportOption?.label || 'Report'} - Preview</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-      line-height: 1.6;
-      color: #333;
-      background: #f5f5f5;
-      padding: 20px;
-    }
-    .container { max-width: 1200px; margin: 0 auto; background: white; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
-    .header {
-      background: linear-gradient(135deg, #3f51b5, #1a237e);
-      color: white;
-      padding: 24px;
-      border-radius: 8px 8px 0 0;
-    }
-    .header h1 { font-size: 24px; margin-bottom: 8px; }
-    .header .meta { font-size: 14px; opacity: 0.9; }
-    .content { padding: 24px; }
-    .stats {
-      display: flex;
-      gap: 16px;
-      margin-bottom: 20px;
-      flex-wrap: wrap;
-    }
-    .stat {
-      background: #e3f2fd;
-      padding: 12px 20px;
-      border-radius: 6px;
-      font-weight: 500;
-    }
-    table {
-      width: 100%;
-      border-collapse: collapse;
-      font-size: 14px;
-    }
-    th {
-      background: #3f51b5;
-      color: white;
-      padding: 12px 16px;
-      text-align: left;
-      font-weight: 600;
-    }
-    th.right { text-align: right; }
-    td {
-      padding: 12px 16px;
-      border-bottom: 1px solid #e0e0e0;
-    }
-    td.right { text-align: right; }
-    tr:nth-child(even) { background: #fafafa; }
-    tr:hover { background: #e8f4fd; }
-    .chip {
-      display: inline-block;
-      padding: 4px 12px;
-      border-radius: 16px;
-      font-size: 12px;
-      font-weight: 500;
-    }
-    .chip-active { background: #e8f5e9; color: #2e7d32; }
-    .chip-inactive { background: #fff3e0; color: #e65100; }
-    .chip-discontinued { background: #ffebee; color: #c62828; }
-    .chip-category { background: #e3f2fd; color: #1565c0; border: 1px solid #90caf9; }
-    .price { font-weight: 600; color: #1565c0; }
-    .footer {
-      padding: 16px 24px;
-      background: #fafafa;
-      border-top: 1px solid #e0e0e0;
-      border-radius: 0 0 8px 8px;
-      font-size: 12px;
-      color: #666;
-      display: flex;
-      justify-content: space-between;
-    }
-    .actions {
-      padding: 16px 24px;
-      background: #fafafa;
-      border-bottom: 1px solid #e0e0e0;
-      display: flex;
-      gap: 12px;
-    }
-    .btn {
-      padding: 8px 16px;
-      border: none;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 14px;
-      font-weight: 500;
-    }
-    .btn-primary { background: #3f51b5; color: white; }
-    .btn-primary:hover { background: #303f9f; }
-    .btn-secondary { background: #e0e0e0; color: #333; }
-    .btn-secondary:hover { background: #bdbdbd; }
-    @media print {
-      body { background: white; padding: 0; }
-      .container { box-shadow: none; }
-      .actions { display: none; }
-      .header { background: #3f51b5 !important; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
-      th { background: #3f51b5 !important; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
-    }
-  </style>
-</head>
-<body>
-  <div class="container">
-    <div class="header">
-      <h1>${currentReportOption?.label || 'Product Report'}</h1>
-      <div class="meta">Generated: ${timestamp}</div>
-      ${currentReportOption?.description ? '<div class="meta">' + currentReportOption.description + '</div>' : ''}
-    </div>
-    <div class="actions">
-      <button class="btn btn-primary" onclick="window.print()">Print Report</button>
-      <button class="btn btn-secondary" onclick="window.close()">Close Preview</button>
-    </div>
-    <div class="content">
-      <div class="stats">
-        <div class="stat">Total Results: ${searchResults.length}</div>
-        <div class="stat">Columns: ${activeColumns.length}</div>
-      </div>
-      <table>
-        <thead>
-          <tr>
-            ${tableHeaders}
-          </tr>
-        </thead>
-        <tbody>
-          ${tableRows}
-        </tbody>
-      </table>
-    </div>
-    <div class="footer">
-      <span>Product Report</span>
-      <span>Page 1 of 1</span>
-    </div>
-  </div>
-</body>
-</html>`;
-
-      // Open in new window
-      const previewWindow = window.open('', '_blank', 'width=1200,height=800');
-      if (previewWindow) {
-        previewWindow.document.write(htmlContent);
-        previewWindow.document.close();
-      } else {
-        alert('Could not open preview window. Please allow popups for this site.');
+    try {
+      const file = await exportProducts(reportQueryParams, {
+        format,
+        columns: ['id', ...exportColumns.map((col) => `${col.id}:${col.label}`)],
+        title: 'Product Export',
+        signal: controller.signal,
+        onProgress: (progress) =>
+          setServerExport((prev) => (prev?.controller === controller ? { ...prev, progress } : prev)),
+      });
+      saveBlob(file.blob, file.fileName);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error exporting products:', error);
+        alert(`Server export failed: ${(error as Error).message}`);
       }
+    } finally {
+      setServerExport((prev) => (prev?.controller === controller ? null : prev));
     }
   };
 
   // Column selection handlers
   const handleToggleColumn = (columnId: string) => {
-    setSelectedColumns((prev) =>
-      prev.map((col) =>
-        col.id === columnId ? { ...col, selected: !col.selected } : col
-      )
+    setSelectedColumnIds((prev) =>
+      prev.includes(columnId) ? prev.filter((id) => id !== columnId) : [...prev, columnId]
     );
   };
 
   const handleSelectAllColumns = () => {
-    setSelectedColumns((prev) => prev.map((col) => ({ ...col, selected: true })));
+    setSelectedColumnIds(reportColumns.map((col) => col.id));
   };
 
   const handleDeselectAllColumns = () => {
-    setSelectedColumns((prev) => prev.map((col) => ({ ...col, selected: false })));
-  };
-
-  // Download handlers
-  const handleDownloadReport = async (format: ReportFormat) => {
-    setDownloadMenuAnchor(null);
-
-    // Use report data (all rows) for exports
-    const searchResults = reportData?.data || [];
-    const timestamp = new Date().toISOString().split('T')[0];
-    const fileName = `product-report-${timestamp}`;
-
-    const activeColumns = selectedColumns.filter((col) => col.selected);
-
-    if (activeColumns.length === 0) {
-      alert('Please select at least one column to export');
-      return;
-    }
-
-    try {
-      switch (format) {
-        case 'pdf': {
-          const jsPDFModule = await import('jspdf');
-          const jsPDF = jsPDFModule.default;
-          const autoTable = (await import('jspdf-autotable')).default;
-
-          const doc = new jsPDF();
-          doc.setFontSize(18);
-          doc.text('Product Report', 14, 20);
-          doc.setFontSize(10);
-          doc.setTextColor(100);
-          doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 28);
-          doc.text(`Total Results: ${searchResults.length}`, 14, 34);
-          doc.setTextColor(0);
-
-          const headers = activeColumns.map((col) => col.label);
-          const body = searchResults.map((product: any) =>
-            activeColumns.map((col) => {
-              const value = product[col.id];
-              if (col.id === 'price') return `$${value?.toFixed(2) || '0.00'}`;
-              if (col.id === 'createdAt') return dayjs(value).format('MM/DD/YYYY');
-              return value;
-            })
-          );
-
-          autoTable(doc, {
-            startY: 42,
-            head: [headers],
-            body: body,
-            styles: { fontSize: 10, cellPadding: 3 },
-            headStyles: { fillColor: [63, 81, 181], textColor: 255, fontStyle: 'bold' },
-            alternateRowStyles: { fillColor: [245, 245, 245] },
-            margin: { top: 42 },
-          });
-
-          doc.save(`${fileName}.pdf`);
-          break;
-        }
-
-        case 'excel': {
-          const XLSX = await import('xlsx');
-          const worksheet = XLSX.utils.json_to_sheet(
-            searchResults.map((product: any) => {
-              const row: any = {};
-              activeColumns.forEach((col) => {
-                const value = product[col.id];
-                let formattedValue = value;
-                if (col.id === 'price') formattedValue = value;
-                else if (col.id === 'createdAt') formattedValue = dayjs(value).format('MM/DD/YYYY');
-                row[col.label] = formattedValue;
-              });
-              return row;
-            })
-          );
-
-          const columnWidths = activeColumns.map(() => ({ wch: 20 }));
-          worksheet['!cols'] = columnWidths;
-
-          const workbook = XLSX.utils.book_new();
-          XLSX.utils.book_append_sheet(workbook, worksheet, 'Products');
-          workbook.Props = {
-            Title: 'Product Report',
-            Subject: 'Search Results',
-            Author: 'Dynamic Search Component',
-            CreatedDate: new Date(),
-          };
-
-          XLSX.writeFile(workbook, `${fileName}.xlsx`);
-          break;
-        }
-
-        case 'csv': {
-          const headers = activeColumns.map((col) => col.label);
-          const csvRows = [
-            headers.join(','),
-            ...searchResults.map((product: any) =>
-              activeColumns
-                .map((col) => {
-                  const value = product[col.id];
-                  let formattedValue = value;
-                  if (col.id === 'price') formattedValue = value;
-                  else if (col.id === 'name') formattedValue = `"${value}"`;
-                  else if (col.id === 'createdAt') formattedValue = dayjs(value).format('MM/DD/YYYY');
-                  return formattedValue;
-                })
-                .join(',')
-            ),
-          ];
-          const csvContent = csvRows.join('\n');
-          const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-          const link = document.createElement('a');
-          const url = URL.createObjectURL(blob);
-          link.setAttribute('href', url);
-          link.setAttribute('download', `${fileName}.csv`);
-          link.style.visibility = 'hidden';
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          break;
-        }
-      }
-    } catch (error) {
-      console.error('Error downloading report:', error);
-      alert(`Failed to download ${format.toUpperCase()} report. Please try again.`);
-    }
+    setSelectedColumnIds([]);
   };
 
   // Pagination handlers
@@ -848,18 +789,57 @@ export default function ProductsPage() {
     }
   };
 
+  // Shift/Ctrl/Cmd-click adds a column to the sort. The community DataGrid keeps a single sorted
+  // column, so the full sort model lives in grid state and the grid's own reaction to that click is ignored.
+  const multiSortClickRef = useRef(false);
+
+  const handleColumnHeaderClick = (params: GridColumnHeaderParams, event: React.MouseEvent) => {
+    if (!params.colDef.sortable || !(event.shiftKey || event.ctrlKey || event.metaKey)) return;
+
+    multiSortClickRef.current = true;
+    // The grid may not emit a change at all, so don't let the flag swallow the next plain click
+    setTimeout(() => {
+      multiSortClickRef.current = false;
+    }, 0);
+    toggleSortColumn(params.field);
+  };
+
   const handleSortChange = (model: GridSortModel) => {
+    if (multiSortClickRef.current) {
+      multiSortClickRef.current = false;
+      return;
+    }
     setSortModel(model as Array<{ field: string; sort: 'asc' | 'desc' }>);
   };
 
+  // The grid only shows an icon for the primary sort column, so number every sorted column
+  // (with its direction) while sorting by more than one
+  const gridColumns: GridColDef[] = state.sortModel.length > 1
+    ? columns.map((col) => {
+        const index = state.sortModel.findIndex((item) => item.field === col.field);
+        if (index === -1) return col;
+
+        const direction = state.sortModel[index].sort;
+        return {
+          ...col,
+          renderHeader: () => (
+            <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.25, fontWeight: 500 }}>
+              {col.headerName}
+              {index > 0 && (direction === 'asc'
+                ? <ArrowUpwardIcon sx={{ fontSize: '1rem', ml: 0.5 }} />
+                : <ArrowDownwardIcon sx={{ fontSize: '1rem', ml: 0.5 }} />)}
+              <Typography component="sup" variant="caption" color="text.secondary">
+                {index + 1}
+              </Typography>
+            </Box>
+          ),
+        };
+      })
+    : columns;
+
   const handleRowSelectionChange = (model: GridRowSelectionModel) => {
-    console.log('Selection model:', model);
-    // MUI DataGrid v8 format: { type: 'include' | 'exclude', ids: Set }
-    if (model && typeof model === 'object' && 'ids' in model) {
-      const ids = Array.from(model.ids) as (string | number)[];
-      console.log('Selected IDs:', ids);
-      setSelectedRows(ids);
-    }
+    // MUI DataGrid v8 format: { type: 'include' | 'exclude', ids: Set } - select-all excludes
+    setSelectedRows(resolveRowSelection(model, (data?.data || []).map((row) => row.id)));
   };
 
   // Render grid view
@@ -867,7 +847,7 @@ export default function ProductsPage() {
     <Paper elevation={1} sx={{ height: 500, width: '100%' }} ref={scrollContainerRef}>
       <DataGrid
         rows={data?.data || []}
-        columns={columns}
+        columns={gridColumns}
         rowCount={data?.total || 0}
         loading={isLoading || isFetching}
         getRowId={(row) => row.id}
@@ -875,8 +855,9 @@ export default function ProductsPage() {
         paginationModel={{ page: state.page, pageSize: state.pageSize }}
         onPaginationModelChange={handlePaginationChange}
         paginationMode="server"
-        sortModel={state.sortModel}
+        sortModel={state.sortModel.slice(0, 1)}
         onSortModelChange={handleSortChange}
+        onColumnHeaderClick={handleColumnHeaderClick}
         sortingMode="server"
         checkboxSelection
         onRowSelectionModelChange={handleRowSelectionChange}
@@ -899,13 +880,13 @@ export default function ProductsPage() {
       case 'pdf': return <PdfIcon fontSize="small" />;
       case 'excel': return <ExcelIcon fontSize="small" />;
       case 'csv': return <CsvIcon fontSize="small" />;
+      case 'zip': return <ZipIcon fontSize="small" />;
       default: return <DownloadIcon fontSize="small" />;
     }
   };
 
   // Render report view
   const renderReportView = () => {
-    const activeColumns = selectedColumns.filter((col) => col.selected);
     // Use report data (all rows) for report view
     const searchResults = reportData?.data || [];
 
@@ -964,7 +945,7 @@ export default function ProductsPage() {
                 key={exportOption.format}
                 onClick={() => {
                   setDownloadMenuAnchor(null);
-                  handleExport(exportOption.format);
+                  handleExport(viewMode, exportOption.format);
                 }}
                 disabled={exportOption.enabled === false}
               >
@@ -974,62 +955,15 @@ export default function ProductsPage() {
             ))}
           </Menu>
         )}
-        <TableContainer component={Paper} variant="outlined">
-          <Table sx={{ minWidth: 650 }} aria-label="product report table">
-            <TableHead>
-              <TableRow sx={{ bgcolor: 'primary.main' }}>
-                {activeColumns.map((col) => (
-                  <TableCell
-                    key={col.id}
-                    sx={{ color: 'white', fontWeight: 'bold' }}
-                    align={col.id === 'price' || col.id === 'stock' ? 'right' : 'left'}
-                  >
-                    {col.label}
-                  </TableCell>
-                ))}
-              </TableRow>
-            </TableHead>
-            <TableBody>
-              {searchResults.map((product: any) => (
-                <TableRow
-                  key={product.id}
-                  sx={{
-                    '&:nth-of-type(odd)': { bgcolor: 'action.hover' },
-                    '&:hover': { bgcolor: 'action.selected' },
-                  }}
-                >
-                  {activeColumns.map((col) => {
-                    const value = product[col.id];
-                    return (
-                      <TableCell
-                        key={col.id}
-                        align={col.id === 'price' || col.id === 'stock' ? 'right' : 'left'}
-                      >
-                        {col.id === 'category' ? (
-                          <Chip label={value} size="small" color="primary" variant="outlined" />
-                        ) : col.id === 'status' ? (
-                          <Chip
-                            label={value}
-                            size="small"
-                            color={value === 'active' ? 'success' : value === 'inactive' ? 'warning' : 'error'}
-                          />
-                        ) : col.id === 'price' ? (
-                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
-                            ${value?.toFixed(2) || '0.00'}
-                          </Typography>
-                        ) : col.id === 'createdAt' ? (
-                          dayjs(value).format('MM/DD/YYYY')
-                        ) : (
-                          value
-                        )}
-                      </TableCell>
-                    );
-                  })}
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
-        </TableContainer>
+        {currentReportOption?.chart && (
+          <ReportChart config={currentReportOption.chart} columns={reportColumns} rows={searchResults} />
+        )}
+        <ReportTable
+          columns={activeColumns}
+          rows={searchResults}
+          groupBy={currentReportOption?.groupBy}
+          aria-label="product report table"
+        />
       </Box>
     );
   };
@@ -1101,31 +1035,31 @@ export default function ProductsPage() {
       </Box>
 
       <Alert severity="info" sx={{ mb: 2 }}>
-        <strong>Features:</strong> Grid or Report view, export to PDF/Excel/CSV, saved searches, and filter persistence when editing.
+        <strong>Features:</strong> Grid or Report view, export to PDF/Excel/CSV/JSON/HTML, streaming server export, saved searches, and filter persistence when editing.
       </Alert>
 
+      {savedSearchError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          Saved searches: {savedSearchError.message}
+        </Alert>
+      )}
+
       {/* DynamicSearch Component */}
       <DynamicSearch
         key={JSON.stringify(state.filters)}
         fields={searchFields}
         onSearch={handleSearch}
         onReset={handleReset}
-        onSave={handleSaveSearch}
+        {...savedSearchProps}
         onLoad={handleLoadSearch}
-        onDelete={handleDeleteSearch}
-        onRename={handleRenameSearch}
-        onChangeVisibility={handleChangeVisibility}
-        savedSearches={savedSearches}
         enableSaveSearch={true}
-        currentUser="demo_user"
-        searchContext="products"
         allowCrossContext={false}
-        isAdmin={false}
         columnLayout={3}
         enableViewMode={true}
         defaultViewMode={viewMode}
         onViewModeChange={setViewMode}
         reportOptions={reportOptions}
+        onExport={handleExport}
         initialValues={state.filters}
       />
 
@@ -1145,21 +1079,96 @@ export default function ProductsPage() {
               )}
             </Typography>
             {hasSearched && (needsAllData ? reportData : data) && ((needsAllData ? reportData?.data : data?.data)?.length ?? 0) > 0 && (
-              <Chip
-                label={`View: ${currentReportOption?.label || viewMode}`}
-                color="secondary"
-                variant="outlined"
-              />
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                {enableExport && (
+                  <Button
+                    size="small"
+                    startIcon={<ServerExportIcon />}
+                    onClick={(e) => setServerExportMenuAnchor(e.currentTarget)}
+                    disabled={!!serverExport}
+                  >
+                    Server Export
+                  </Button>
+                )}
+                <Chip
+                  label={`View: ${currentReportOption?.label || viewMode}`}
+                  color="secondary"
+                  variant="outlined"
+                />
+              </Box>
             )}
           </Box>
 
+          <Menu
+            anchorEl={serverExportMenuAnchor}
+            open={Boolean(serverExportMenuAnchor)}
+            onClose={() => setServerExportMenuAnchor(null)}
+          >
+            {SERVER_EXPORT_FORMATS.map((option) => (
+              <MenuItem key={option.format} onClick={() => handleServerExport(option.format)}>
+                <ListItemText>{option.label}</ListItemText>
+              </MenuItem>
+            ))}
+          </Menu>
+
+          {enableExport && hasSearched && ((needsAllData ? reportData?.total : data?.total) ?? 0) > LARGE_EXPORT_ROWS && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              This search matches {(needsAllData ? reportData?.total : data?.total)?.toLocaleString()} products. Use Server Export
+              to stream them to a file instead of building the export in the browser.
+            </Alert>
+          )}
+
           {/* Selection Info */}
           {state.selectedRowIds.length > 0 && (
-            <Alert severity="info" sx={{ mb: 2 }}>
+            <Alert
+              severity="info"
+              sx={{ mb: 2 }}
+              action={
+                enableEditView && (
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button color="inherit" size="small" startIcon={<BulkEditIcon />} onClick={handleBulkEditClick}>
+                      Bulk Edit
+                    </Button>
+                    <Button
+                      color="inherit"
+                      size="small"
+                      startIcon={batch.isPending ? <CircularProgress size={16} color="inherit" /> : <MoreIcon />}
+                      disabled={batch.isPending}
+                      onClick={(e) => setBulkMenuAnchor(e.currentTarget)}
+                    >
+                      Actions
+                    </Button>
+                  </Box>
+                )
+              }
+            >
               {state.selectedRowIds.length} row(s) selected
             </Alert>
           )}
 
+          <Menu
+            anchorEl={bulkMenuAnchor}
+            open={Boolean(bulkMenuAnchor)}
+            onClose={() => setBulkMenuAnchor(null)}
+          >
+            <MenuItem onClick={() => handleBatchAction('update', { status: 'discontinued' })}>
+              <ListItemIcon><DiscontinueIcon fontSize="small" /></ListItemIcon>
+              <ListItemText>Mark as Discontinued</ListItemText>
+            </MenuItem>
+            <Divider />
+            {categoryOptions.map((option) => (
+              <MenuItem key={option.value} onClick={() => handleBatchAction('update', { category: String(option.value) })}>
+                <ListItemIcon><CategoryIcon fontSize="small" /></ListItemIcon>
+                <ListItemText>Move to {option.label}</ListItemText>
+              </MenuItem>
+            ))}
+            <Divider />
+            <MenuItem onClick={() => handleBatchAction('delete')} sx={{ color: 'error.main' }}>
+              <ListItemIcon><DeleteIcon fontSize="small" color="error" /></ListItemIcon>
+              <ListItemText>Delete</ListItemText>
+            </MenuItem>
+          </Menu>
+
           {renderResults()}
 
           {/* Stats */}
@@ -1194,16 +1203,36 @@ export default function ProductsPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Server Export Progress Dialog */}
+      <Dialog open={!!serverExport} maxWidth="xs" fullWidth>
+        <DialogTitle>Exporting Products ({serverExport?.format.toUpperCase()})</DialogTitle>
+        <DialogContent>
+          <LinearProgress
+            variant={serverExport?.progress?.total ? 'determinate' : 'indeterminate'}
+            value={serverExport?.progress?.total ? (serverExport.progress.rows / serverExport.progress.total) * 100 : 0}
+            sx={{ my: 2 }}
+          />
+          <Typography variant="body2" color="text.secondary">
+            {serverExport?.progress
+              ? `${serverExport.progress.rows.toLocaleString()} of ${serverExport.progress.total.toLocaleString()} rows (${Math.ceil(serverExport.progress.bytes / 1024).toLocaleString()} KB)`
+              : 'Starting export...'}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => serverExport?.controller.abort()}>Cancel</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Column Selector Dialog */}
       <Dialog open={columnSelectorOpen} onClose={() => setColumnSelectorOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Select Columns for Report</DialogTitle>
         <DialogContent>
           <Box sx={{ pt: 1 }}>
             <FormGroup>
-              {selectedColumns.map((col) => (
+              {reportColumns.map((col) => (
                 <FormControlLabel
                   key={col.id}
-                  control={<Checkbox checked={col.selected} onChange={() => handleToggleColumn(col.id)} />}
+                  control={<Checkbox checked={selectedColumnIds.includes(col.id)} onChange={() => handleToggleColumn(col.id)} />}
                   label={col.label}
                 />
               ))}
@@ -1216,6 +1245,68 @@ export default function ProductsPage() {
           <Button onClick={() => setColumnSelectorOpen(false)} variant="contained">Done</Button>
         </DialogActions>
       </Dialog>
+
+      {/* Bulk Edit Dialog */}
+      <BulkEditDialog
+        open={!!bulkEdit}
+        count={bulkEdit?.rowIds.length ?? 0}
+        fields={productEditFields}
+        onApply={handleBulkApply}
+        onClose={handleBulkClose}
+        saving={bulkUpdate.isPending}
+        results={bulkEdit?.results}
+        lockError={bulkEdit?.lockError}
+        title="Bulk Edit Products"
+      />
+
+      {/* Undo the last batch action */}
+      <Snackbar
+        open={!!undo}
+        autoHideDuration={UNDO_TIMEOUT}
+        onClose={(_, reason) => reason !== 'clickaway' && setUndo(null)}
+        message={undo?.message}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+        action={
+          undo && undo.rows.length > 0 && (
+            <Button color="secondary" size="small" onClick={handleUndo}>
+              Undo
+            </Button>
+          )
+        }
+      />
+
+      {/* A row we queued for is free and held for us */}
+      <Snackbar
+        open={!!claimNotice}
+        onClose={(_, reason) => reason !== 'clickaway' && setClaimNotice(null)}
+        message={
+          claimNotice &&
+          `Product #${claimNotice.rowId} is free — held for you until ${dayjs(claimNotice.expiresAt).format('h:mm:ss A')}`
+        }
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+        action={
+          <>
+            <Button
+              color="inherit"
+              size="small"
+              onClick={() => {
+                if (claimNotice) lockQueue.leave(claimNotice.rowId);
+                setClaimNotice(null);
+              }}
+            >
+              Pass
+            </Button>
+            <Button
+              color="secondary"
+              size="small"
+              variant="contained"
+              onClick={() => claimNotice && handleEditClick({ id: claimNotice.rowId })}
+            >
+              Edit now
+            </Button>
+          </>
+        }
+      />
     </Container>
   );
 }
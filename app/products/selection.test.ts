@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { resolveRowSelection } from './selection';
+
+const loaded = [1, 2, 3, 4];
+
+describe('resolveRowSelection', () => {
+  it('returns the ids of an include model', () => {
+    expect(resolveRowSelection({ type: 'include', ids: new Set([2, 4]) }, loaded)).toEqual([2, 4]);
+  });
+
+  it('resolves select-all to every loaded row', () => {
+    expect(resolveRowSelection({ type: 'exclude', ids: new Set() }, loaded)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps the other rows when one is unchecked after select-all', () => {
+    expect(resolveRowSelection({ type: 'exclude', ids: new Set([3]) }, loaded)).toEqual([1, 2, 4]);
+  });
+});
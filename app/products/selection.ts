@@ -0,0 +1,12 @@
+import type { GridRowId, GridRowSelectionModel } from '@mui/x-data-grid';
+
+/**
+ * Row ids a DataGrid selection model stands for. Select-all sends an exclude model - every row
+ * except `ids` - which is resolved against the rows the grid has loaded.
+ */
+export function resolveRowSelection(model: GridRowSelectionModel, loadedRowIds: GridRowId[]): GridRowId[] {
+  if (model.type === 'exclude') {
+    return loadedRowIds.filter((id) => !model.ids.has(id));
+  }
+  return Array.from(model.ids);
+}
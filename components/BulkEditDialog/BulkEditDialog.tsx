@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { DynamicSearch } from '../DynamicSearch';
+import type { FieldConfig } from '../DynamicSearch/types';
+
+// Outcome of the bulk update for one row
+export interface BulkEditRowResult {
+  id: string | number;
+  success: boolean;
+  message?: string; // Why the row was not updated
+}
+
+export interface BulkEditDialogProps {
+  open: boolean;
+  count: number; // Number of selected rows
+  fields: FieldConfig[]; // Edit fields; the form starts empty
+  onApply: (changes: Record<string, any>) => void; // Only the fields the user changed
+  onClose: () => void;
+  saving?: boolean;
+  results?: BulkEditRowResult[] | null; // Set once the update ran - switches the dialog to the summary
+  lockError?: string | null; // Some row locks were lost while the form was open
+  title?: string;
+}
+
+/**
+ * Bulk edit dialog: an edit-mode DynamicSearch form whose untouched fields are left alone,
+ * followed by a per-row summary of what was updated and what failed.
+ */
+export const BulkEditDialog: React.FC<BulkEditDialogProps> = ({
+  open,
+  count,
+  fields,
+  onApply,
+  onClose,
+  saving = false,
+  results,
+  lockError,
+  title = 'Bulk Edit',
+}) => {
+  const [noChanges, setNoChanges] = useState(false);
+
+  useEffect(() => {
+    if (open) setNoChanges(false);
+  }, [open]);
+
+  const handleSubmit = (changes: Record<string, any>) => {
+    if (Object.keys(changes).length === 0) {
+      setNoChanges(true);
+      return;
+    }
+    setNoChanges(false);
+    onApply(changes);
+  };
+
+  const failures = results?.filter((result) => !result.success) ?? [];
+  const updated = (results?.length ?? 0) - failures.length;
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        {title} - {count} row(s)
+      </DialogTitle>
+      <DialogContent>
+        {!results ? (
+          <Box sx={{ pt: 1, position: 'relative' }}>
+            {lockError && (
+              <Alert severity="error" sx={{ mb: 2, whiteSpace: 'pre-line' }}>
+                {lockError}
+              </Alert>
+            )}
+            <Alert severity="info" sx={{ mb: 2 }}>
+              Only the fields you change are applied. Fields you leave untouched keep each row&apos;s current value.
+            </Alert>
+            {noChanges && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Change at least one field to apply.
+              </Alert>
+            )}
+            <DynamicSearch
+              fields={fields}
+              onSearch={handleSubmit}
+              formMode="edit"
+              submitChangedOnly
+              enableSaveSearch={false}
+              columnLayout={2}
+              searchButtonText={`Apply to ${count} row(s)`}
+              resetButtonText="Cancel"
+              onReset={onClose}
+            />
+            {saving && (
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+                <CircularProgress size={20} />
+                <Typography variant="body2">Applying changes...</Typography>
+              </Box>
+            )}
+          </Box>
+        ) : (
+          <Box sx={{ pt: 1 }}>
+            <Alert severity={failures.length === 0 ? 'success' : updated === 0 ? 'error' : 'warning'} sx={{ mb: 2 }}>
+              {updated} of {results.length} row(s) updated{failures.length > 0 && `, ${failures.length} failed`}.
+            </Alert>
+            {failures.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>ID</TableCell>
+                    <TableCell>Reason</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {failures.map((failure) => (
+                    <TableRow key={failure.id}>
+                      <TableCell>{failure.id}</TableCell>
+                      <TableCell>{failure.message || 'Failed'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      {results && (
+        <DialogActions>
+          <Button onClick={onClose} variant="contained">
+            Close
+          </Button>
+        </DialogActions>
+      )}
+    </Dialog>
+  );
+};
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Button,
@@ -33,6 +33,8 @@ import {
   ListItemIcon,
   ListItemText,
   Tooltip,
+  Menu,
+  MenuItem,
 } from '@mui/material';
 import {
   Search as SearchIcon,
@@ -46,10 +48,15 @@ import {
   Edit as EditIcon,
   Delete as DeleteIcon,
   MoreVert as MoreVertIcon,
+  Download as DownloadIcon,
 } from '@mui/icons-material';
-import { DynamicSearchProps, SavedSearch, SearchVisibility, ModalPosition, ViewMode, FormMode, ReportOption } from './types';
+import { DynamicSearchProps, SavedSearch, SearchVisibility, ModalPosition, ViewMode, FormMode, ReportOption, ReportFormat } from './types';
 import { FieldRenderer } from './FieldRenderer';
 import { SearchableDropdown } from './SearchableDropdown';
+import { isFieldVisible } from './visibility';
+import { validateFields } from './validation';
+import { readUrlSearchState, writeUrlSearchState } from './urlState';
+import { isFilterCondition, formatFilterCondition } from './filterOperators';
 
 // Helper function to get dialog positioning styles
 const getDialogStyles = (position: ModalPosition = 'center'): SxProps<Theme> => {
@@ -150,8 +157,11 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
   availableViewModes = ['grid', 'report'],
   onViewModeChange,
   reportOptions,
+  onExport,
   customFields,
   formMode = 'search',
+  syncWithUrl = false,
+  submitChangedOnly = false,
 }) => {
   const [formValues, setFormValues] = useState<Record<string, any>>(() => {
     const values: Record<string, any> = {};
@@ -180,6 +190,9 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [selectedViewMode, setSelectedViewMode] = useState<ViewMode>(defaultViewMode);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<null | HTMLElement>(null);
+  // Top-level fields the user has changed (for submitChangedOnly)
+  const [changedFields, setChangedFields] = useState<Set<string>>(() => new Set());
 
   // Update form values when initialValues changes (e.g., when editing different rows)
   useEffect(() => {
@@ -193,6 +206,7 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
       setFormValues({ ...values, ...initialValues });
       // Clear validation errors when loading new initial values
       setValidationErrors({});
+      setChangedFields(new Set());
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [initialValues]);
@@ -230,14 +244,45 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
   };
 
   // Flatten grouped fields for API submission
+  // Hidden fields (visibleWhen not matched) are dropped from the output
+  // Restore a search from the URL (bookmarked/shared link) and run it once on mount
+  const urlRestoredRef = useRef(false);
+  useEffect(() => {
+    if (!syncWithUrl || urlRestoredRef.current) return;
+    urlRestoredRef.current = true;
+
+    const urlState = readUrlSearchState(fields);
+    if (!urlState) return;
+
+    const values: Record<string, any> = {};
+    fields.forEach((field) => {
+      if (field.defaultValue !== undefined) {
+        values[field.name] = field.defaultValue;
+      }
+    });
+    const restoredValues = { ...values, ...urlState.values };
+    const restoredViewMode = urlState.viewMode || selectedViewMode;
+
+    setFormValues(restoredValues);
+    if (urlState.viewMode) {
+      handleViewModeChange(urlState.viewMode);
+    }
+    onSearch(flattenValues(restoredValues), restoredViewMode);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [syncWithUrl]);
+
   const flattenValues = (values: Record<string, any>) => {
     const flattened: Record<string, any> = {};
 
     fields.forEach((field) => {
+      if (!isFieldVisible(field, values)) return;
+
       if (field.type === 'group' && field.fields) {
         // For grouped fields, extract each sub-field value
         const groupValue = values[field.name] || {};
+        const scopeValues = { ...values, ...groupValue };
         field.fields.forEach((subField) => {
+          if (!isFieldVisible(subField, scopeValues)) return;
           flattened[subField.name] = groupValue[subField.name];
         });
       } else {
@@ -249,11 +294,26 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
     return flattened;
   };
 
+  // Keep only the flattened values of changed fields (a changed group keeps all its sub-fields)
+  const pickChangedValues = (flattened: Record<string, any>) => {
+    const picked: Record<string, any> = {};
+    fields
+      .filter((field) => changedFields.has(field.name))
+      .forEach((field) => {
+        const names = field.type === 'group' && field.fields ? field.fields.map((subField) => subField.name) : [field.name];
+        names.forEach((name) => {
+          if (name in flattened) picked[name] = flattened[name];
+        });
+      });
+    return picked;
+  };
+
   const handleFieldChange = (name: string, value: any) => {
     setFormValues((prev) => ({
       ...prev,
       [name]: value,
     }));
+    setChangedFields((prev) => (prev.has(name) ? prev : new Set(prev).add(name)));
     // Clear validation error for this field when user changes it
     if (validationErrors[name]) {
       setValidationErrors((prev) => {
@@ -264,41 +324,13 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
     }
   };
 
-  // Helper function to determine if field is required based on form mode
-  const isFieldRequired = (field: any): boolean => {
-    // If field has generic 'required', it's always required
-    if (field.required) return true;
-
-    // Check mode-specific required flags
-    if (formMode === 'edit' && field.requiredForEdit) return true;
-    if (formMode === 'search' && field.requiredForSearch) return true;
-
-    return false;
-  };
-
   const validateForm = (): boolean => {
-    const errors: Record<string, string> = {};
-
-    // Recursively validate all fields
-    const validateField = (field: any): void => {
-      if (field.type === 'group' && field.fields) {
-        // Validate grouped fields
-        field.fields.forEach(validateField);
-      } else if (isFieldRequired(field)) {
-        const value = formValues[field.name];
-
-        // Check if value is empty
-        if (value === undefined || value === null || value === '') {
-          errors[field.name] = `${field.label} is required`;
-        } else if (Array.isArray(value) && value.length === 0) {
-          errors[field.name] = `${field.label} is required`;
-        } else if (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0) {
-          errors[field.name] = `${field.label} is required`;
-        }
-      }
-    };
-
-    fields.forEach(validateField);
+    // Required flags and per-field validation rules (see validation.ts)
+    const errors = validateFields(
+      submitChangedOnly ? fields.filter((field) => changedFields.has(field.name)) : fields,
+      formValues,
+      formMode
+    );
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -309,10 +341,26 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
       return;
     }
 
-    const flattenedValues = flattenValues(formValues);
+    const flattenedValues = submitChangedOnly ? pickChangedValues(flattenValues(formValues)) : flattenValues(formValues);
     onSearch(flattenedValues, selectedViewMode);
+
+    if (syncWithUrl) {
+      writeUrlSearchState({ values: formValues, viewMode: selectedViewMode }, fields);
+    }
   };
 
+  // Export the selected report for the current form values
+  const handleExport = (format: ReportFormat) => {
+    setExportMenuAnchor(null);
+    if (!validateForm()) {
+      return;
+    }
+    onExport?.(selectedViewMode, format, flattenValues(formValues));
+  };
+
+  // Formats offered by the selected report option
+  const exportFormats = reportOptions?.find((option) => option.id === selectedViewMode)?.exportFormats || [];
+
   const handleViewModeChange = (mode: ViewMode) => {
     setSelectedViewMode(mode);
     if (onViewModeChange) {
@@ -321,6 +369,10 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
   };
 
   const handleReset = () => {
+    if (syncWithUrl) {
+      writeUrlSearchState(null);
+    }
+
     // If onReset callback is provided, call it (e.g., to close a dialog)
     if (onReset) {
       onReset();
@@ -350,6 +402,7 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
       }
     });
     setFormValues(resetValues);
+    setChangedFields(new Set());
   };
 
   const handleSaveSearch = () => {
@@ -410,6 +463,14 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
 
     const field = findField(fieldName);
 
+    // Handle operator conditions, e.g. "Between 10 and 50"
+    if (isFilterCondition(value)) {
+      return formatFilterCondition(value, (item) => {
+        const option = field?.options?.find((opt: any) => opt.value === item);
+        return option ? option.label : String(item);
+      });
+    }
+
     // Handle arrays (pills, multiselect)
     if (Array.isArray(value)) {
       if (value.length === 0) return '(empty)';
@@ -606,7 +667,7 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
 
           {Object.keys(validationErrors).length > 0 && (
             <Alert severity="error" sx={{ mb: 2 }}>
-              Please fill in all required fields before submitting.
+              Please correct the highlighted fields before submitting.
             </Alert>
           )}
 
@@ -643,13 +704,14 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
               },
             }}
           >
-            {fields.map((field) => (
+            {fields.filter((field) => isFieldVisible(field, formValues)).map((field) => (
               <Box key={field.name}>
                 <FieldRenderer
                   field={field}
                   value={formValues[field.name]}
                   onChange={handleFieldChange}
                   error={validationErrors[field.name]}
+                  errors={validationErrors}
                   allValues={formValues}
                   allFields={fields}
                   formMode={formMode}
@@ -716,6 +778,34 @@ export const DynamicSearch: React.FC<DynamicSearchProps> = ({
                 Save Search
               </Button>
             )}
+
+            {onExport && exportFormats.length > 0 && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<DownloadIcon />}
+                  onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+                  size="large"
+                >
+                  Export
+                </Button>
+                <Menu
+                  anchorEl={exportMenuAnchor}
+                  open={Boolean(exportMenuAnchor)}
+                  onClose={() => setExportMenuAnchor(null)}
+                >
+                  {exportFormats.map((exportOption) => (
+                    <MenuItem
+                      key={exportOption.format}
+                      onClick={() => handleExport(exportOption.format)}
+                      disabled={exportOption.enabled === false}
+                    >
+                      <ListItemText>{exportOption.label || `Download as ${exportOption.format.toUpperCase()}`}</ListItemText>
+                    </MenuItem>
+                  ))}
+                </Menu>
+              </>
+            )}
           </Box>
         </Collapse>
       </Paper>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect } from 'react';
 import {
   TextField,
   FormControl,
@@ -34,12 +34,19 @@ import dayjs, { Dayjs } from 'dayjs';
 import { FieldConfig, DropdownOption, FormMode } from './types';
 import { PillField } from './PillField';
 import { ModalSelectField } from './ModalSelectField';
+import { RemoteSearchSelect } from './RemoteSearchSelect';
+import { FilterOperatorField } from './FilterOperatorField';
+import { isFilterCondition } from './filterOperators';
+import { isEmptyValue, isFieldVisible } from './visibility';
+import { getFieldDependencies, resolveApiUrl } from './dependencies';
+import { useFieldOptions } from './fieldOptions';
 
 interface FieldRendererProps {
   field: FieldConfig;
   value: any;
   onChange: (name: string, value: any) => void;
   error?: string;
+  errors?: Record<string, string>; // All validation errors, used by group/accordion sub-fields
   allValues?: Record<string, any>; // All form values for field copying
   allFields?: FieldConfig[]; // All field configs to lookup labels
   formMode?: FormMode; // Form mode: 'search' or 'edit' (default: 'search')
@@ -98,19 +105,22 @@ const FieldWrapper: React.FC<{ children: React.ReactNode }> = ({ children }) =>
   </Box>
 );
 
-export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onChange, error, allValues = {}, allFields = [], formMode = 'search' }) => {
-  const [options, setOptions] = useState<DropdownOption[]>(field.options || []);
-  const [loading, setLoading] = useState(false);
-
+export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onChange, error, errors, allValues = {}, allFields = [], formMode = 'search' }) => {
   // Determine if field is required based on form mode
   const isRequired = field.required ||
     (formMode === 'edit' && field.requiredForEdit) ||
     (formMode === 'search' && field.requiredForSearch);
 
-  // Determine if field is disabled based on form mode
+  // Resolve {placeholder} params in apiUrl from parent fields (null while a parent is empty)
+  const hasDependencies = getFieldDependencies(field).length > 0;
+  const resolvedApiUrl = resolveApiUrl(field, allValues);
+  const awaitingParent = hasDependencies && !!field.apiUrl && !resolvedApiUrl;
+
+  // Determine if field is disabled based on form mode, or while a parent field is empty
   const isDisabled = field.disabled ||
     (formMode === 'edit' && field.disabledInEdit) ||
-    (formMode === 'search' && field.disabledInSearch);
+    (formMode === 'search' && field.disabledInSearch) ||
+    awaitingParent;
 
   // Helper to find a field by name (recursively search through groups/accordions)
   const findFieldByName = (name: string, fields: FieldConfig[]): FieldConfig | null => {
@@ -131,51 +141,56 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
     }
   };
 
-  // Fetch options from API - must be defined before useEffect that calls it
-  const fetchOptions = async () => {
-    if (!field.apiUrl) return;
+  // Load options through the shared React Query cache - one request per apiUrl across all fields.
+  // Static options take precedence; remote-search fields page through the API themselves (see useRemoteOptions).
+  const usesApiOptions = !!field.apiUrl && !field.options && !field.remoteSearch;
+  const {
+    data: apiOptions,
+    isLoading: loading,
+    isError: optionsError,
+    error: optionsErrorDetail,
+  } = useFieldOptions({
+    apiUrl: usesApiOptions ? resolvedApiUrl : null,
+    apiLabelField: field.apiLabelField,
+    apiValueField: field.apiValueField,
+    staleTime: field.optionsStaleTime,
+  });
+  const options: DropdownOption[] = field.options || apiOptions || [];
 
-    setLoading(true);
-    try {
-      const response = await fetch(field.apiUrl, {
-        credentials: 'include', // Include cookies for authentication
-      });
-      const responseData = await response.json();
+  useEffect(() => {
+    if (optionsError) {
+      console.error(`Error fetching options for ${field.name}:`, optionsErrorDetail);
+    }
+  }, [optionsError, optionsErrorDetail, field.name]);
 
-      // Handle both array responses and { data: [...] } wrapped responses
-      const data = Array.isArray(responseData) ? responseData : (responseData.data || responseData);
+  // Clear a dependent field's value when it is no longer among the available options
+  const clearInvalidValue = (availableOptions: DropdownOption[]) => {
+    if (isEmptyValue(value) || isFilterCondition(value)) return;
 
-      if (!Array.isArray(data)) {
-        console.error(`Invalid API response for ${field.name}: expected array`);
-        setOptions([]);
-        return;
-      }
+    const isValid = (v: any) => availableOptions.some((opt) => opt.value === v);
 
-      // Map API response to DropdownOption format
-      const labelField = field.apiLabelField || 'label';
-      const valueField = field.apiValueField || 'value';
-
-      const mappedOptions: DropdownOption[] = data.map((item: any) => ({
-        label: item[labelField],
-        value: item[valueField],
-      }));
-
-      setOptions(mappedOptions);
-    } catch (error) {
-      console.error(`Error fetching options for ${field.name}:`, error);
-      setOptions([]);
-    } finally {
-      setLoading(false);
+    if (Array.isArray(value)) {
+      const validValues = value.filter(isValid);
+      if (validValues.length !== value.length) {
+        onChange(field.name, validValues);
+      }
+    } else if (!isValid(value)) {
+      onChange(field.name, '');
     }
   };
 
-  // Fetch options when apiUrl is provided and no static options exist
+  // Dependent fields re-fetch whenever a parent value changes the resolved URL;
+  // once the new options arrive (or a parent is cleared) drop values that no longer apply
   useEffect(() => {
-    if (field.apiUrl && !field.options) {
-      fetchOptions();
+    if (!usesApiOptions || !hasDependencies) return;
+
+    if (!resolvedApiUrl) {
+      clearInvalidValue([]);
+    } else if (apiOptions) {
+      clearInvalidValue(apiOptions);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [field.apiUrl]);
+  }, [resolvedApiUrl, apiOptions]);
 
   const handleChange = (newValue: any) => {
     onChange(field.name, newValue);
@@ -203,6 +218,11 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
     );
   };
 
+  // Hidden fields render nothing (evaluated after hooks so hook order stays stable)
+  if (!isFieldVisible(field, allValues)) {
+    return null;
+  }
+
   if (loading) {
     return (
       <FieldWrapper>
@@ -214,6 +234,24 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
     );
   }
 
+  // Fields with operators render an operator selector and emit { op, value }
+  if (field.operators && field.operators.length > 0) {
+    return (
+      <FieldWrapper>
+        <FilterOperatorField
+          field={field}
+          label={<LabelWithTooltip label={field.label} tooltip={field.tooltip} />}
+          value={value}
+          onChange={handleChange}
+          options={options}
+          error={error}
+          required={isRequired}
+          disabled={isDisabled}
+        />
+      </FieldWrapper>
+    );
+  }
+
   switch (field.type) {
     case 'text':
       return (
@@ -281,6 +319,27 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
       );
 
     case 'dropdown':
+      if (field.remoteSearch) {
+        return (
+          <FieldWrapper>
+            <RemoteSearchSelect
+              label={<LabelWithTooltip label={field.label} tooltip={field.tooltip} />}
+              value={value}
+              onChange={handleChange}
+              apiUrl={resolvedApiUrl || undefined}
+              apiLabelField={field.apiLabelField}
+              apiValueField={field.apiValueField}
+              remoteSearch={field.remoteSearch}
+              placeholder={field.placeholder}
+              helperText={field.helperText}
+              error={error}
+              required={isRequired}
+              disabled={isDisabled}
+            />
+          </FieldWrapper>
+        );
+      }
+
       const selectedOption = options.find((opt) => opt.value === value) || null;
 
       return (
@@ -310,6 +369,29 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
       );
 
     case 'multiselect':
+      if (field.remoteSearch) {
+        // "Select All" is not offered - the full list is never loaded
+        return (
+          <FieldWrapper>
+            <RemoteSearchSelect
+              multiple
+              label={<LabelWithTooltip label={field.label} tooltip={field.tooltip} />}
+              value={value || []}
+              onChange={handleChange}
+              apiUrl={resolvedApiUrl || undefined}
+              apiLabelField={field.apiLabelField}
+              apiValueField={field.apiValueField}
+              remoteSearch={field.remoteSearch}
+              placeholder={field.placeholder}
+              helperText={field.helperText}
+              error={error}
+              required={isRequired}
+              disabled={isDisabled}
+            />
+          </FieldWrapper>
+        );
+      }
+
       const allOptionValues = options.map(opt => opt.value);
       const allSelected = value?.length === options.length;
       const selectedOptions = options.filter((opt) => (value || []).includes(opt.value));
@@ -484,6 +566,8 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
                     const newValue = { ...(value || {}), [name]: val };
                     onChange(field.name, newValue);
                   }}
+                  error={errors?.[subField.name]}
+                  errors={errors}
                   allValues={{ ...allValues, ...(value || {}) }}
                   allFields={allFields}
                   formMode={formMode}
@@ -527,6 +611,8 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
                       const newValue = { ...(value || {}), [name]: val };
                       onChange(field.name, newValue);
                     }}
+                    error={errors?.[subField.name]}
+                    errors={errors}
                     allValues={{ ...allValues, ...(value || {}) }}
                     allFields={allFields}
                     formMode={formMode}
@@ -547,9 +633,11 @@ export const FieldRenderer: React.FC<FieldRendererProps> = ({ field, value, onCh
             value={field.allowMultiple ? (value || []) : (value || '')}
             onChange={onChange}
             options={field.options}
-            apiUrl={field.apiUrl}
+            apiUrl={resolvedApiUrl || undefined}
             apiLabelField={field.apiLabelField}
             apiValueField={field.apiValueField}
+            remoteSearch={field.remoteSearch}
+            optionsStaleTime={field.optionsStaleTime}
             placeholder={field.placeholder}
             helperText={field.helperText}
             required={isRequired}
@@ -0,0 +1,213 @@
+'use client';
+
+import React from 'react';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import dayjs, { Dayjs } from 'dayjs';
+import { DropdownOption, FieldConfig, FilterCondition, FilterOperator } from './types';
+import { FILTER_OPERATOR_LABELS, isFilterCondition, isListOperator } from './filterOperators';
+
+interface FilterOperatorFieldProps {
+  field: FieldConfig;
+  label: React.ReactNode;
+  value: any;
+  onChange: (value: FilterCondition) => void;
+  options?: DropdownOption[]; // Static or loaded options offered as values
+  error?: string;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+// Value shape expected by each operator, so switching operators keeps what can be kept
+const convertValue = (value: any, op: FilterOperator): any => {
+  if (op === 'isEmpty') return undefined;
+  if (op === 'between') {
+    return Array.isArray(value) ? [value[0] ?? '', value[1] ?? ''] : [value ?? '', ''];
+  }
+  if (isListOperator(op)) {
+    if (Array.isArray(value)) return value.filter((item) => item !== '' && item !== undefined);
+    return value === undefined || value === '' ? [] : [value];
+  }
+  return Array.isArray(value) ? value[0] ?? '' : value ?? '';
+};
+
+/**
+ * FilterOperatorField - Operator selector followed by the value input(s) that operator needs
+ *
+ * Emits `{ op, value }`: a single value for equals/contains/startsWith/gt/lt, `[min, max]` for
+ * between, an array for in/notIn and no value for isEmpty.
+ */
+export const FilterOperatorField: React.FC<FilterOperatorFieldProps> = ({
+  field,
+  label,
+  value,
+  onChange,
+  options,
+  error,
+  required,
+  disabled,
+}) => {
+  const operators = field.operators || [];
+  const defaultOp = field.defaultOperator && operators.includes(field.defaultOperator)
+    ? field.defaultOperator
+    : operators[0];
+
+  // A plain value (e.g. a default value or an older saved search) uses the default operator
+  const condition: FilterCondition = isFilterCondition(value)
+    ? value
+    : { op: defaultOp, value: convertValue(value === null ? '' : value, defaultOp) };
+  const op = condition.op;
+
+  const handleOperatorChange = (newOp: FilterOperator) => {
+    const next: FilterCondition = { op: newOp };
+    if (newOp !== 'isEmpty') next.value = convertValue(condition.value, newOp);
+    onChange(next);
+  };
+
+  const handleValueChange = (newValue: any) => {
+    onChange({ op, value: newValue });
+  };
+
+  // Single value input matching the field type
+  const renderScalarInput = (inputLabel: string, inputValue: any, onInputChange: (v: any) => void) => {
+    if (field.type === 'date') {
+      return (
+        <LocalizationProvider dateAdapter={AdapterDayjs}>
+          <DatePicker
+            label={inputLabel}
+            value={inputValue ? dayjs(inputValue) : null}
+            onChange={(newValue: Dayjs | null) => {
+              onInputChange(newValue ? newValue.format('YYYY-MM-DD') : '');
+            }}
+            disabled={disabled}
+            slotProps={{
+              textField: { fullWidth: true, size: 'small', error: !!error },
+            }}
+          />
+        </LocalizationProvider>
+      );
+    }
+
+    if (options && options.length > 0) {
+      return (
+        <Autocomplete
+          options={options}
+          value={options.find((opt) => opt.value === inputValue) || null}
+          onChange={(_, newValue) => onInputChange(newValue ? newValue.value : '')}
+          getOptionLabel={(option) => option.label}
+          isOptionEqualToValue={(option, val) => option.value === val.value}
+          disabled={disabled}
+          renderInput={(params) => (
+            <TextField {...params} label={inputLabel} size="small" error={!!error} />
+          )}
+          fullWidth
+        />
+      );
+    }
+
+    return (
+      <TextField
+        fullWidth
+        size="small"
+        type={field.type === 'number' ? 'number' : 'text'}
+        label={inputLabel}
+        value={inputValue ?? ''}
+        onChange={(e) => onInputChange(e.target.value)}
+        placeholder={field.placeholder}
+        disabled={disabled}
+        error={!!error}
+      />
+    );
+  };
+
+  const renderValueInput = () => {
+    if (op === 'isEmpty') return null;
+
+    if (op === 'between') {
+      const [min, max] = convertValue(condition.value, 'between');
+      return (
+        <Box sx={{ display: 'flex', gap: 1, flex: 1 }}>
+          {renderScalarInput('From', min, (v) => handleValueChange([v, max]))}
+          {renderScalarInput('To', max, (v) => handleValueChange([min, v]))}
+        </Box>
+      );
+    }
+
+    if (isListOperator(op)) {
+      const selected: any[] = convertValue(condition.value, op);
+      const hasOptions = !!options && options.length > 0;
+      return (
+        <Autocomplete
+          multiple
+          freeSolo={!hasOptions}
+          options={hasOptions ? options!.map((opt) => opt.value) : []}
+          value={selected}
+          onChange={(_, newValue) => handleValueChange(newValue)}
+          getOptionLabel={(item) => String(options?.find((opt) => opt.value === item)?.label ?? item)}
+          disabled={disabled}
+          renderTags={(items, getTagProps) =>
+            items.map((item, index) => {
+              const { key, ...tagProps } = getTagProps({ index });
+              return (
+                <Chip
+                  key={key}
+                  label={options?.find((opt) => opt.value === item)?.label ?? item}
+                  size="small"
+                  {...tagProps}
+                />
+              );
+            })
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Values"
+              size="small"
+              placeholder={hasOptions ? undefined : 'Type a value and press Enter'}
+              error={!!error}
+            />
+          )}
+          sx={{ flex: 1 }}
+        />
+      );
+    }
+
+    return <Box sx={{ flex: 1 }}>{renderScalarInput('Value', condition.value, handleValueChange)}</Box>;
+  };
+
+  return (
+    <FormControl fullWidth error={!!error} required={required} disabled={disabled}>
+      <FormLabel sx={{ mb: 1 }}>{label}</FormLabel>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+        <TextField
+          select
+          size="small"
+          label="Operator"
+          value={op}
+          onChange={(e) => handleOperatorChange(e.target.value as FilterOperator)}
+          disabled={disabled}
+          sx={{ width: 160, flexShrink: 0 }}
+        >
+          {operators.map((operator) => (
+            <MenuItem key={operator} value={operator}>
+              {FILTER_OPERATOR_LABELS[operator]}
+            </MenuItem>
+          ))}
+        </TextField>
+        {renderValueInput()}
+      </Box>
+      {(error || field.helperText) && <FormHelperText>{error || field.helperText}</FormHelperText>}
+    </FormControl>
+  );
+};
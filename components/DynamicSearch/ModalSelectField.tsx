@@ -25,7 +25,9 @@ import {
   Clear as ClearIcon,
   HelpOutline as HelpIcon,
 } from '@mui/icons-material';
-import { DropdownOption } from './types';
+import { DropdownOption, RemoteSearchConfig } from './types';
+import { useRemoteOptions, loadMoreOnScroll } from './useRemoteOptions';
+import { useFieldOptions } from './fieldOptions';
 
 interface ModalSelectFieldProps {
   label: string;
@@ -36,6 +38,8 @@ interface ModalSelectFieldProps {
   apiUrl?: string;
   apiLabelField?: string;
   apiValueField?: string;
+  remoteSearch?: boolean | RemoteSearchConfig; // Search apiUrl on the server instead of loading every option
+  optionsStaleTime?: number; // How long (ms) cached apiUrl options stay fresh
   placeholder?: string;
   helperText?: string;
   required?: boolean;
@@ -54,6 +58,8 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
   apiUrl,
   apiLabelField,
   apiValueField,
+  remoteSearch,
+  optionsStaleTime,
   placeholder,
   helperText,
   required,
@@ -67,12 +73,32 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
   const [selectedValue, setSelectedValue] = useState<string | number | (string | number)[]>(
     allowMultiple ? (Array.isArray(value) ? value : []) : (value || '')
   );
-  const [apiOptions, setApiOptions] = useState<DropdownOption[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
+
+  // Remote mode pages through the API as the user types instead of loading everything up front
+  const isRemote = !!remoteSearch && !staticOptions && !!apiUrl;
+  const remote = useRemoteOptions({
+    apiUrl: isRemote ? apiUrl : null,
+    apiLabelField,
+    apiValueField,
+    remoteSearch,
+    enabled: modalOpen,
+    selectedValues: Array.isArray(value) ? value : (value === '' || value === undefined || value === null ? [] : [value]),
+  });
+
+  // Load the full list through the shared options cache - lazily when the modal opens,
+  // or up front when a value is already selected so its label can be displayed
+  const hasValue = Array.isArray(value) ? value.length > 0 : !!value;
+  const { data: apiOptions = [], isLoading: loading } = useFieldOptions({
+    apiUrl: !staticOptions && !isRemote ? apiUrl : null,
+    apiLabelField,
+    apiValueField,
+    enabled: modalOpen || hasValue,
+    staleTime: optionsStaleTime,
+  });
 
   // Use static options if provided, otherwise use API options
-  const options = staticOptions || apiOptions;
+  const options = staticOptions || (isRemote ? remote.options : apiOptions);
+  const isLoading = isRemote ? remote.loading && remote.options.length === 0 : loading;
 
   // Sync selectedValue with value prop when it changes
   useEffect(() => {
@@ -83,41 +109,12 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
     }
   }, [value, allowMultiple]);
 
-  // Fetch data from API when modal opens (lazy loading)
-  useEffect(() => {
-    if (modalOpen && apiUrl && !staticOptions && !hasLoadedOnce) {
-      fetchOptions();
-    }
-  }, [modalOpen, apiUrl, staticOptions, hasLoadedOnce]);
-
-  const fetchOptions = async () => {
-    if (!apiUrl) return;
-
-    setLoading(true);
-    try {
-      const response = await fetch(apiUrl);
-      const data = await response.json();
-
-      // Map API response to DropdownOption format
-      const labelField = apiLabelField || 'label';
-      const valueField = apiValueField || 'value';
-
-      const mappedOptions: DropdownOption[] = data.map((item: any) => ({
-        label: item[labelField],
-        value: item[valueField],
-      }));
-
-      setApiOptions(mappedOptions);
-      setHasLoadedOnce(true);
-    } catch (error) {
-      console.error(`Error fetching options for ${name}:`, error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Get display text for selected value(s)
   const displayText = useMemo(() => {
+    // Remote labels come from the lookup-by-value call, since the selection may not be on a loaded page
+    if (isRemote) {
+      return remote.selectedOptions.map((opt) => opt.label).join(', ');
+    }
     if (allowMultiple && Array.isArray(value)) {
       if (value.length === 0) return '';
       const labels = value
@@ -127,16 +124,23 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
     }
     const selectedOption = options.find((opt) => opt.value === value);
     return selectedOption ? selectedOption.label : '';
-  }, [value, options, allowMultiple]);
+  }, [value, options, allowMultiple, isRemote, remote.selectedOptions]);
 
   // Filter options based on search text
   const filteredOptions = useMemo(() => {
-    if (!filterText.trim()) return options;
+    if (isRemote || !filterText.trim()) return options; // Remote options are already filtered by the server
     const searchLower = filterText.toLowerCase();
     return options.filter((opt) =>
       opt.label.toLowerCase().includes(searchLower)
     );
-  }, [filterText, options]);
+  }, [filterText, options, isRemote]);
+
+  const handleFilterChange = (text: string) => {
+    setFilterText(text);
+    if (isRemote) {
+      remote.setQuery(text);
+    }
+  };
 
   const handleOpenModal = () => {
     // selectedValue is already synced via useEffect, no need to set it again
@@ -146,7 +150,7 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
 
   const handleCloseModal = () => {
     setModalOpen(false);
-    setFilterText('');
+    handleFilterChange('');
   };
 
   const handleSelectOption = (optionValue: string | number) => {
@@ -263,16 +267,16 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
         }}
       >
         <DialogTitle>{label}</DialogTitle>
-        <DialogContent sx={{ p: 0 }}>
+        <DialogContent sx={{ p: 0 }} onScroll={isRemote ? loadMoreOnScroll(remote.loadMore) : undefined}>
           {/* Filter Input */}
           <Box sx={{ p: 2, pb: 1, position: 'sticky', top: 0, bgcolor: 'background.paper', zIndex: 1 }}>
             <TextField
               fullWidth
               placeholder="Filter options..."
               value={filterText}
-              onChange={(e) => setFilterText(e.target.value)}
+              onChange={(e) => handleFilterChange(e.target.value)}
               autoFocus
-              disabled={loading}
+              disabled={isLoading && !isRemote}
               slotProps={{
                 input: {
                   startAdornment: (
@@ -282,7 +286,7 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
                   ),
                   endAdornment: filterText && (
                     <InputAdornment position="end">
-                      <IconButton size="small" onClick={() => setFilterText('')}>
+                      <IconButton size="small" onClick={() => handleFilterChange('')}>
                         <ClearIcon fontSize="small" />
                       </IconButton>
                     </InputAdornment>
@@ -294,7 +298,7 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
 
           {/* Options List */}
           <List sx={{ pt: 0 }}>
-            {loading ? (
+            {isLoading ? (
               <ListItem>
                 <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', width: '100%', py: 4 }}>
                   <CircularProgress size={40} />
@@ -323,12 +327,31 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
             ) : (
               <ListItem>
                 <ListItemText
-                  primary="No options found"
-                  secondary="Try adjusting your filter"
+                  primary={isRemote && remote.error ? 'Could not load options' : 'No options found'}
+                  secondary={
+                    isRemote && remote.belowMinChars
+                      ? `Type at least ${remote.minChars} characters to search`
+                      : isRemote && remote.error
+                        ? remote.error.message
+                        : 'Try adjusting your filter'
+                  }
                   sx={{ textAlign: 'center', color: 'text.secondary' }}
                 />
               </ListItem>
             )}
+
+            {/* Load more (remote mode) - also triggered by scrolling to the bottom */}
+            {isRemote && !isLoading && (remote.hasMore || remote.loading) && (
+              <ListItem sx={{ justifyContent: 'center' }}>
+                {remote.loading ? (
+                  <CircularProgress size={24} />
+                ) : (
+                  <Button size="small" onClick={remote.loadMore}>
+                    Load more
+                  </Button>
+                )}
+              </ListItem>
+            )}
           </List>
         </DialogContent>
         <DialogActions>
@@ -337,7 +360,7 @@ export const ModalSelectField: React.FC<ModalSelectFieldProps> = ({
             onClick={handleDone}
             variant="contained"
             disabled={
-              loading ||
+              isLoading ||
               (allowMultiple
                 ? Array.isArray(selectedValue) && selectedValue.length === 0
                 : !selectedValue
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { createContext, forwardRef, useContext, useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Chip,
+  CircularProgress,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DropdownOption, RemoteSearchConfig } from './types';
+import { useRemoteOptions, loadMoreOnScroll } from './useRemoteOptions';
+
+interface RemoteSearchSelectProps {
+  label: React.ReactNode;
+  value: any;
+  onChange: (value: any) => void;
+  apiUrl?: string;
+  apiLabelField?: string;
+  apiValueField?: string;
+  remoteSearch?: boolean | RemoteSearchConfig;
+  multiple?: boolean;
+  placeholder?: string;
+  helperText?: string;
+  error?: string;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+// Footer state for the listbox (loading more / more results available)
+const ListboxFooterContext = createContext<{ loading: boolean; hasMore: boolean }>({
+  loading: false,
+  hasMore: false,
+});
+
+// Listbox that renders a "load more" footer below the options
+const RemoteListbox = forwardRef<HTMLUListElement, React.HTMLAttributes<HTMLElement>>(
+  function RemoteListbox({ children, ...props }, ref) {
+    const { loading, hasMore } = useContext(ListboxFooterContext);
+
+    return (
+      <ul ref={ref} {...props}>
+        {children}
+        {(hasMore || loading) && (
+          <Box component="li" role="presentation" sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 2, py: 1 }}>
+            {loading && <CircularProgress size={16} />}
+            <Typography variant="caption" color="text.secondary">
+              {loading ? 'Loading more...' : 'Scroll for more results'}
+            </Typography>
+          </Box>
+        )}
+      </ul>
+    );
+  }
+);
+
+/**
+ * RemoteSearchSelect - Dropdown/multiselect for large option lists searched on the server
+ *
+ * Typed text is debounced and sent to `apiUrl` with a page cursor; more pages load as the
+ * list is scrolled. Selected values keep their labels through a lookup-by-value call.
+ */
+export const RemoteSearchSelect: React.FC<RemoteSearchSelectProps> = ({
+  label,
+  value,
+  onChange,
+  apiUrl,
+  apiLabelField,
+  apiValueField,
+  remoteSearch = true,
+  multiple = false,
+  placeholder,
+  helperText,
+  error,
+  required,
+  disabled,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const selectedValues: (string | number)[] = multiple
+    ? (Array.isArray(value) ? value : [])
+    : (value === undefined || value === null || value === '' ? [] : [value]);
+
+  const remote = useRemoteOptions({
+    apiUrl,
+    apiLabelField,
+    apiValueField,
+    remoteSearch,
+    enabled: open,
+    selectedValues,
+  });
+
+  const searchError = remote.error ? remote.error.message || 'Failed to load options' : null;
+  const noOptionsText = remote.belowMinChars
+    ? `Type at least ${remote.minChars} characters to search`
+    : searchError ? 'Could not load options' : 'No matches found';
+
+  return (
+    <ListboxFooterContext.Provider value={{ loading: remote.loading && remote.options.length > 0, hasMore: remote.hasMore }}>
+      <Autocomplete<DropdownOption, boolean>
+        multiple={multiple}
+        open={open}
+        onOpen={() => setOpen(true)}
+        onClose={() => {
+          setOpen(false);
+          remote.setQuery('');
+        }}
+        options={remote.options}
+        value={multiple ? remote.selectedOptions : (remote.selectedOptions[0] || null)}
+        onChange={(_, newValue) => {
+          if (multiple) {
+            onChange(((newValue as DropdownOption[]) || []).map((opt) => opt.value));
+          } else {
+            onChange((newValue as DropdownOption | null)?.value ?? '');
+          }
+        }}
+        onInputChange={(_, inputValue, reason) => {
+          // Only typed text is searched; ignore MUI resetting the input to the selected label
+          if (reason === 'input' || reason === 'clear') {
+            remote.setQuery(inputValue);
+          }
+        }}
+        filterOptions={(options) => options} // Filtering happens on the server
+        getOptionLabel={(option) => option.label}
+        isOptionEqualToValue={(option, selected) => option.value === selected.value}
+        loading={remote.loading && remote.options.length === 0}
+        noOptionsText={noOptionsText}
+        disabled={disabled}
+        slots={{ listbox: RemoteListbox }}
+        slotProps={{ listbox: { onScroll: loadMoreOnScroll(remote.loadMore) } }}
+        renderInput={(params) => (
+          <TextField
+            {...params}
+            label={label}
+            placeholder={placeholder}
+            required={required}
+            helperText={error || searchError || helperText}
+            variant="outlined"
+            error={!!error || !!searchError}
+          />
+        )}
+        renderTags={(tags, getTagProps) =>
+          tags.map((option, index) => (
+            <Chip
+              {...getTagProps({ index })}
+              key={option.value}
+              label={option.label}
+              size="small"
+            />
+          ))
+        }
+        fullWidth
+      />
+    </ListboxFooterContext.Provider>
+  );
+};
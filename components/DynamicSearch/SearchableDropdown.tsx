@@ -1,12 +1,13 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import {
   TextField,
   CircularProgress,
   Box,
   Autocomplete,
 } from '@mui/material';
+import { useFieldOptions } from './fieldOptions';
 
 export interface DropdownOption {
   label: string;
@@ -21,6 +22,7 @@ export interface SearchableDropdownProps {
   apiUrl?: string;
   apiLabelField?: string; // Field name for label in API response (default: 'label')
   apiValueField?: string; // Field name for value in API response (default: 'value')
+  optionsStaleTime?: number; // How long (ms) cached API options stay fresh (default: 5 minutes)
   placeholder?: string;
   helperText?: string;
   error?: string;
@@ -73,6 +75,7 @@ export const SearchableDropdown: React.FC<SearchableDropdownProps> = ({
   apiUrl,
   apiLabelField = 'label',
   apiValueField = 'value',
+  optionsStaleTime,
   placeholder,
   helperText,
   error,
@@ -82,61 +85,36 @@ export const SearchableDropdown: React.FC<SearchableDropdownProps> = ({
   loading: externalLoading,
   onLoadOptions,
 }) => {
-  const [options, setOptions] = useState<DropdownOption[]>(staticOptions || []);
-  const [internalLoading, setInternalLoading] = useState(false);
-  const [apiError, setApiError] = useState<string | null>(null);
+  // Load API options through the shared options cache (deduped across fields with the same apiUrl)
+  const {
+    data: apiOptions,
+    isLoading: apiLoading,
+    error: loadError,
+  } = useFieldOptions({
+    apiUrl: staticOptions ? null : apiUrl,
+    apiLabelField,
+    apiValueField,
+    staleTime: optionsStaleTime,
+  });
+  const options = staticOptions || apiOptions || [];
+  const apiError = loadError ? loadError.message || 'Failed to load options' : null;
 
   // Use external loading if provided, otherwise use internal
-  const isLoading = externalLoading !== undefined ? externalLoading : internalLoading;
+  const isLoading = externalLoading !== undefined ? externalLoading : apiLoading;
 
   useEffect(() => {
-    // If static options are provided, use them
-    if (staticOptions) {
-      setOptions(staticOptions);
-      return;
+    if (loadError) {
+      console.error(`Error fetching options for ${label}:`, loadError);
     }
+  }, [loadError, label]);
 
-    // If API URL is provided, fetch options
-    if (apiUrl) {
-      fetchOptions();
-    }
-  }, [apiUrl, staticOptions]);
-
-  const fetchOptions = async () => {
-    if (!apiUrl) return;
-
-    setInternalLoading(true);
-    setApiError(null);
-
-    try {
-      const response = await fetch(apiUrl);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      // Map API response to DropdownOption format
-      const mappedOptions: DropdownOption[] = data.map((item: any) => ({
-        label: item[apiLabelField],
-        value: item[apiValueField],
-      }));
-
-      setOptions(mappedOptions);
-
-      // Notify parent if callback provided
-      if (onLoadOptions) {
-        onLoadOptions(mappedOptions);
-      }
-    } catch (err) {
-      console.error(`Error fetching options for ${label}:`, err);
-      setApiError(err instanceof Error ? err.message : 'Failed to load options');
-      setOptions([]);
-    } finally {
-      setInternalLoading(false);
+  // Notify parent when options are loaded from the API
+  useEffect(() => {
+    if (apiOptions && onLoadOptions) {
+      onLoadOptions(apiOptions);
     }
-  };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [apiOptions]);
 
   // Find the selected option object
   const selectedOption = options.find((opt) => opt.value === value) || null;
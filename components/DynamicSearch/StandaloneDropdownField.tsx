@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import {
   TextField,
   MenuItem,
@@ -9,6 +9,7 @@ import {
   CircularProgress,
 } from '@mui/material';
 import { HelpOutline as HelpIcon } from '@mui/icons-material';
+import { useFieldOptions } from './fieldOptions';
 
 export interface DropdownOption {
   value: string | number;
@@ -88,33 +89,19 @@ export const StandaloneDropdownField: React.FC<StandaloneDropdownFieldProps> = (
   disabled = false,
   tooltip,
 }) => {
-  const [options, setOptions] = useState<DropdownOption[]>(initialOptions);
-  const [loading, setLoading] = useState(false);
+  // Load API options through the shared options cache (deduped across fields with the same endpoint)
+  const { data: apiOptions, isLoading: loading, error: loadError } = useFieldOptions({
+    apiUrl: apiEndpoint,
+    apiLabelField,
+    apiValueField,
+  });
+  const options: DropdownOption[] = apiEndpoint ? apiOptions || [] : initialOptions;
 
   useEffect(() => {
-    if (apiEndpoint) {
-      const fetchOptions = async () => {
-        setLoading(true);
-        try {
-          const response = await fetch(apiEndpoint);
-          const data = await response.json();
-
-          // Map API response to DropdownOption format
-          const mappedOptions: DropdownOption[] = data.map((item: any) => ({
-            value: item[apiValueField],
-            label: item[apiLabelField],
-          }));
-
-          setOptions(mappedOptions);
-        } catch (error) {
-          console.error('Failed to fetch dropdown options:', error);
-        } finally {
-          setLoading(false);
-        }
-      };
-      fetchOptions();
+    if (loadError) {
+      console.error('Failed to fetch dropdown options:', loadError);
     }
-  }, [apiEndpoint, apiValueField, apiLabelField]);
+  }, [loadError]);
 
   const labelWithTooltip = tooltip ? (
     <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
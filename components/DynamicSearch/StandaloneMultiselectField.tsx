@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import {
   Autocomplete,
   TextField,
@@ -12,6 +12,7 @@ import {
   Stack,
 } from '@mui/material';
 import { HelpOutline as HelpIcon } from '@mui/icons-material';
+import { useFieldOptions } from './fieldOptions';
 
 export interface MultiselectOption {
   value: string | number;
@@ -98,33 +99,19 @@ export const StandaloneMultiselectField: React.FC<StandaloneMultiselectFieldProp
   limitTags = 3,
   showSelectAllButtons = false,
 }) => {
-  const [options, setOptions] = useState<MultiselectOption[]>(initialOptions);
-  const [loading, setLoading] = useState(false);
+  // Load API options through the shared options cache (deduped across fields with the same endpoint)
+  const { data: apiOptions, isLoading: loading, error: loadError } = useFieldOptions({
+    apiUrl: apiEndpoint,
+    apiLabelField,
+    apiValueField,
+  });
+  const options: MultiselectOption[] = apiEndpoint ? apiOptions || [] : initialOptions;
 
   useEffect(() => {
-    if (apiEndpoint) {
-      const fetchOptions = async () => {
-        setLoading(true);
-        try {
-          const response = await fetch(apiEndpoint);
-          const data = await response.json();
-
-          // Map API response to MultiselectOption format
-          const mappedOptions: MultiselectOption[] = data.map((item: any) => ({
-            value: item[apiValueField],
-            label: item[apiLabelField],
-          }));
-
-          setOptions(mappedOptions);
-        } catch (error) {
-          console.error('Failed to fetch multiselect options:', error);
-        } finally {
-          setLoading(false);
-        }
-      };
-      fetchOptions();
+    if (loadError) {
+      console.error('Failed to fetch multiselect options:', loadError);
     }
-  }, [apiEndpoint, apiValueField, apiLabelField]);
+  }, [loadError]);
 
   const labelWithTooltip = tooltip ? (
     <Box sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5 }}>
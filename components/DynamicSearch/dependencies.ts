@@ -0,0 +1,43 @@
+import { FieldConfig } from './types';
+import { isEmptyValue } from './visibility';
+
+// Matches {fieldName} placeholders in an apiUrl
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Get the names of the fields a field's options depend on.
+ * Combines `dependsOn` with any `{placeholder}` used in `apiUrl`.
+ */
+export const getFieldDependencies = (field: FieldConfig): string[] => {
+  const names = new Set<string>(
+    Array.isArray(field.dependsOn) ? field.dependsOn : field.dependsOn ? [field.dependsOn] : []
+  );
+  field.apiUrl?.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    names.add(name);
+    return match;
+  });
+  return Array.from(names);
+};
+
+// Format a parent value for use in a URL (multi-value parents are comma-separated)
+const formatParam = (value: any): string =>
+  encodeURIComponent(Array.isArray(value) ? value.join(',') : String(value));
+
+/**
+ * Resolve `{placeholder}` parameters in a field's apiUrl from the current form values.
+ *
+ * @example
+ * resolveApiUrl({ apiUrl: '/api/cities?country={country}', ... }, { country: 'us' }); // '/api/cities?country=us'
+ *
+ * @returns The URL to fetch, or null while any parent field is still empty
+ */
+export const resolveApiUrl = (field: FieldConfig, values: Record<string, any>): string | null => {
+  if (!field.apiUrl) return null;
+
+  const dependencies = getFieldDependencies(field);
+  if (dependencies.some((name) => isEmptyValue(values[name]))) {
+    return null;
+  }
+
+  return field.apiUrl.replace(PLACEHOLDER_PATTERN, (_, name: string) => formatParam(values[name]));
+};
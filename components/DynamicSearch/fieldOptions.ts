@@ -0,0 +1,101 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { DropdownOption } from './types';
+
+// Default time API options stay fresh before a background refetch (option lists rarely change)
+export const DEFAULT_OPTIONS_STALE_TIME = 5 * 60 * 1000;
+
+// Query key factory for apiUrl-backed options
+export const fieldOptionKeys = {
+  all: ['fieldOptions'] as const,
+  url: (apiUrl: string) => [...fieldOptionKeys.all, apiUrl] as const,
+};
+
+/**
+ * Fetch the raw option items for an apiUrl.
+ * Handles both array responses and `{ data: [...] }` wrapped responses.
+ */
+export const fetchFieldOptions = async (apiUrl: string): Promise<any[]> => {
+  const response = await fetch(apiUrl, {
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const responseData = await response.json();
+  const data = Array.isArray(responseData) ? responseData : (responseData.data || responseData);
+
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid API response from ${apiUrl}: expected array`);
+  }
+
+  return data;
+};
+
+interface UseFieldOptionsArgs {
+  apiUrl?: string | null;
+  apiLabelField?: string;
+  apiValueField?: string;
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Load options for an apiUrl through the shared React Query cache.
+ *
+ * Fields with the same apiUrl share one request and one cache entry (concurrent
+ * mounts are deduped), even when they map labels/values from different fields.
+ */
+export const useFieldOptions = ({
+  apiUrl,
+  apiLabelField = 'label',
+  apiValueField = 'value',
+  enabled = true,
+  staleTime = DEFAULT_OPTIONS_STALE_TIME,
+}: UseFieldOptionsArgs) => {
+  // Map API response to DropdownOption format
+  const select = useCallback(
+    (items: any[]): DropdownOption[] =>
+      items.map((item) => ({
+        label: item[apiLabelField],
+        value: item[apiValueField],
+      })),
+    [apiLabelField, apiValueField]
+  );
+
+  return useQuery({
+    queryKey: fieldOptionKeys.url(apiUrl || ''),
+    queryFn: () => fetchFieldOptions(apiUrl as string),
+    select,
+    enabled: !!apiUrl && enabled,
+    staleTime,
+  });
+};
+
+/**
+ * Invalidate cached options so mounted fields refetch them.
+ * Without an apiUrl, every apiUrl-backed option list is invalidated.
+ *
+ * @example
+ * await createCategory(data);
+ * invalidateFieldOptions(queryClient, '/api/categories');
+ */
+export const invalidateFieldOptions = (queryClient: QueryClient, apiUrl?: string) =>
+  queryClient.invalidateQueries({
+    queryKey: apiUrl ? fieldOptionKeys.url(apiUrl) : fieldOptionKeys.all,
+  });
+
+/**
+ * Hook returning `invalidateFieldOptions(apiUrl?)` bound to the app's QueryClient.
+ */
+export const useInvalidateFieldOptions = () => {
+  const queryClient = useQueryClient();
+  return useCallback(
+    (apiUrl?: string) => invalidateFieldOptions(queryClient, apiUrl),
+    [queryClient]
+  );
+};
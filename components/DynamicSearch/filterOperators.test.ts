@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { isFilterCondition } from './filterOperators';
+
+describe('isFilterCondition', () => {
+  it('accepts { op, value } with a known operator', () => {
+    expect(isFilterCondition({ op: 'gt', value: 5 })).toBe(true);
+    expect(isFilterCondition({ op: 'isEmpty' })).toBe(true);
+  });
+
+  it('rejects plain values, unknown operators and Object.prototype members', () => {
+    expect(isFilterCondition('gt')).toBe(false);
+    expect(isFilterCondition([{ op: 'gt' }])).toBe(false);
+    expect(isFilterCondition({ op: 'near', value: 1 })).toBe(false);
+    expect(isFilterCondition({ op: 'constructor', value: 1 })).toBe(false);
+    expect(isFilterCondition({ op: 'toString' })).toBe(false);
+  });
+});
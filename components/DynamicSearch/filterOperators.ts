@@ -0,0 +1,68 @@
+import { FilterCondition, FilterOperator } from './types';
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: 'Equals',
+  contains: 'Contains',
+  startsWith: 'Starts with',
+  between: 'Between',
+  gt: 'Greater than',
+  gte: 'At least',
+  lt: 'Less than',
+  lte: 'At most',
+  in: 'Is any of',
+  notIn: 'Is none of',
+  isEmpty: 'Is empty',
+};
+
+/**
+ * Check whether a value is an operator condition (`{ op, value }`) rather than a plain value.
+ */
+export const isFilterCondition = (value: any): value is FilterCondition =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof value.op === 'string' &&
+  Object.hasOwn(FILTER_OPERATOR_LABELS, value.op);
+
+// Operators whose value is a list of items
+export const isListOperator = (op: FilterOperator): boolean => op === 'in' || op === 'notIn';
+
+const isBlank = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Check whether a condition still needs a value before it can filter anything.
+ * `isEmpty` never needs one; `between` needs at least one bound of its [min, max] (lib/filterEngine takes the same form).
+ */
+export const isIncompleteCondition = (condition: FilterCondition): boolean => {
+  if (condition.op === 'isEmpty') return false;
+  if (condition.op === 'between') {
+    const [min, max] = Array.isArray(condition.value) ? condition.value : [];
+    return isBlank(min) && isBlank(max);
+  }
+  return isBlank(condition.value);
+};
+
+/**
+ * Human readable form of a condition, e.g. "Between 10 and 50" or "Is none of: a, b".
+ */
+export const formatFilterCondition = (
+  condition: FilterCondition,
+  formatValue: (value: any) => string = String
+): string => {
+  const label = FILTER_OPERATOR_LABELS[condition.op];
+  if (condition.op === 'isEmpty') return label;
+
+  if (condition.op === 'between') {
+    const [min, max] = Array.isArray(condition.value) ? condition.value : [];
+    if (isBlank(max)) return `${FILTER_OPERATOR_LABELS.gte} ${formatValue(min)}`;
+    if (isBlank(min)) return `${FILTER_OPERATOR_LABELS.lte} ${formatValue(max)}`;
+    return `${label} ${formatValue(min)} and ${formatValue(max)}`;
+  }
+
+  if (Array.isArray(condition.value)) {
+    return `${label}: ${condition.value.map(formatValue).join(', ')}`;
+  }
+
+  return `${label} ${formatValue(condition.value)}`;
+};
@@ -5,8 +5,32 @@ export { FieldRenderer } from './FieldRenderer';
 // Standalone components
 export { SearchableDropdown } from './SearchableDropdown';
 export { SearchableMultiSelect } from './SearchableMultiSelect';
+export { RemoteSearchSelect } from './RemoteSearchSelect';
+export { FilterOperatorField } from './FilterOperatorField';
 export { StandalonePillField } from './StandalonePillField';
 
+// Helpers
+export { isFieldVisible, evaluateCondition, isEmptyValue } from './visibility';
+export { validateFieldValue, validateFields, buildZodSchema, isFieldRequired } from './validation';
+export { resolveApiUrl, getFieldDependencies } from './dependencies';
+export { useRemoteOptions } from './useRemoteOptions';
+export {
+  FILTER_OPERATOR_LABELS,
+  isFilterCondition,
+  isListOperator,
+  isIncompleteCondition,
+  formatFilterCondition,
+} from './filterOperators';
+export { serializeSearchState, parseSearchState, readUrlSearchState, writeUrlSearchState } from './urlState';
+export type { SearchUrlState } from './urlState';
+export {
+  useFieldOptions,
+  fieldOptionKeys,
+  invalidateFieldOptions,
+  useInvalidateFieldOptions,
+  DEFAULT_OPTIONS_STALE_TIME,
+} from './fieldOptions';
+
 // Types
 export type { ViewMode } from './types';
 export * from './types';
@@ -7,6 +7,59 @@ export interface DropdownOption {
 
 export type FormMode = 'search' | 'edit';
 
+// Declarative rule controlling whether a field is shown (see visibility.ts)
+export type VisibilityCondition =
+  | { field: string; equals: any }
+  | { field: string; in: any[] }
+  | { field: string; notEmpty: boolean }
+  | { and: VisibilityCondition[] }
+  | { or: VisibilityCondition[] };
+
+// Comparison operators a field can offer in search mode (see filterOperators.ts)
+export type FilterOperator =
+  | 'equals'
+  | 'contains'
+  | 'startsWith'
+  | 'between'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'notIn'
+  | 'isEmpty';
+
+// Value of a field with `operators`: between takes [min, max], in/notIn take an array, isEmpty takes no value
+export interface FilterCondition {
+  op: FilterOperator;
+  value?: any;
+}
+
+// Validation rules applied on top of required checks (see validation.ts)
+export interface FieldValidation {
+  min?: number | string; // Minimum number, or minimum date (YYYY-MM-DD) for date fields
+  max?: number | string; // Maximum number, or maximum date (YYYY-MM-DD) for date fields
+  minLength?: number; // Minimum text length (or number of items for array values)
+  maxLength?: number; // Maximum text length (or number of items for array values)
+  integer?: boolean; // Number fields only accept whole numbers
+  pattern?: string | RegExp; // Regex the text value must match
+  patternMessage?: string; // Message shown when pattern does not match
+  gteField?: string; // Value must be >= another field's value (e.g. dateTo >= dateFrom)
+  lteField?: string; // Value must be <= another field's value
+  message?: string; // Overrides the default message for min/max/length/cross-field errors
+  custom?: (value: any, values: Record<string, any>) => string | undefined; // Return an error message or undefined
+}
+
+// Server-side search for large option lists (see useRemoteOptions.ts)
+export interface RemoteSearchConfig {
+  queryParam?: string; // Query string param for the typed text (default: 'q')
+  cursorParam?: string; // Query string param for the page cursor (default: 'cursor')
+  lookupParam?: string; // Query string param used to look up labels of selected values (default: 'values')
+  pageSize?: number; // Sent as `limit` (default: 50)
+  debounceMs?: number; // Delay before searching after typing stops (default: 300)
+  minChars?: number; // Minimum characters typed before searching (default: 0)
+}
+
 export interface FieldConfig {
   name: string;
   label: string;
@@ -16,6 +69,9 @@ export interface FieldConfig {
   apiUrl?: string;
   apiLabelField?: string; // Field name for label in API response (default: 'label')
   apiValueField?: string; // Field name for value in API response (default: 'value')
+  optionsStaleTime?: number; // How long (ms) cached apiUrl options stay fresh (default: 5 minutes)
+  remoteSearch?: boolean | RemoteSearchConfig; // Search apiUrl on the server (?q=&cursor=) instead of loading every option
+  dependsOn?: string | string[]; // Parent field(s) whose values fill {placeholders} in apiUrl (dropdown, multiselect, modal-select)
   required?: boolean; // Always required (both search and edit)
   requiredForEdit?: boolean; // Only required in edit mode
   requiredForSearch?: boolean; // Only required in search mode
@@ -32,6 +88,10 @@ export interface FieldConfig {
   defaultExpanded?: boolean; // For accordion: whether section starts expanded (default: false)
   copyFromField?: string; // Field name to copy value from (creates a "Copy from X" button)
   copyButtonText?: string; // Custom text for copy button (default: "Copy from {fieldLabel}")
+  visibleWhen?: VisibilityCondition; // Only show (and validate/submit) the field when this rule matches
+  validation?: FieldValidation; // Min/max, length, pattern and cross-field rules
+  operators?: FilterOperator[]; // Show an operator selector; the value becomes { op, value }
+  defaultOperator?: FilterOperator; // Initially selected operator (default: first entry of operators)
 }
 
 export type SearchVisibility = 'user' | 'global';
@@ -41,7 +101,7 @@ export type ColumnLayout = 'auto' | 1 | 2 | 3 | 4;
 export type ModalPosition = 'center' | 'top' | 'bottom' | 'left' | 'right' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
 
 export type ViewMode = 'grid' | 'report' | string; // 'grid' for data grid, 'report' for default report, or custom string for custom views
-export type ReportFormat = 'pdf' | 'excel' | 'csv' | 'zip' | 'html' | 'json';
+export type ReportFormat = 'pdf' | 'excel' | 'csv' | 'zip' | 'html' | 'json' | string; // Built-in formats, or any format registered with registerExporter (lib/reports)
 
 // Export format configuration for a report
 export interface ExportFormat {
@@ -51,6 +111,15 @@ export interface ExportFormat {
   enabled?: boolean; // Whether this export is enabled (default: true)
 }
 
+// Chart shown by a report option, drawn from its fetchAll rows
+export interface ReportChartConfig {
+  type: 'bar' | 'line' | 'pie';
+  x: string; // Column id of the dimension - one bar, point or slice per distinct value
+  y?: string; // Column id of the measure (default: count rows)
+  aggregate?: 'sum' | 'avg' | 'count' | 'min' | 'max'; // How y is aggregated per x value (default: 'sum', or 'count' without y)
+  title?: string;
+}
+
 // Configuration for view/report options in the dropdown
 export interface ReportOption {
   id: string; // Unique identifier (used as ViewMode value)
@@ -59,6 +128,8 @@ export interface ReportOption {
   icon?: 'grid' | 'report' | 'chart' | 'summary' | 'detailed' | 'table'; // Icon for the report type
   fetchAll?: boolean; // Whether this report needs all data (no pagination)
   exportFormats?: ExportFormat[]; // Available export formats for this report (if any)
+  groupBy?: string[]; // Column ids to group the report by, outermost first - each group gets subtotals
+  chart?: ReportChartConfig; // Show the rows as a chart (also embedded in PDF and HTML exports)
 }
 
 // Legacy type for backward compatibility - maps to download action
@@ -84,6 +155,23 @@ export interface SavedSearch {
   viewMode?: ViewMode; // Preferred view mode for this saved search
 }
 
+// Report of a saved search delivered on a schedule (see /api/report-schedules)
+export interface ReportSchedule {
+  id: string;
+  savedSearchId: string; // Its params are the report's filters; deleting the search deletes its schedules
+  cron: string; // 5-field cron in server time, e.g. "0 8 * * 1" = Mondays at 08:00
+  format: ReportFormat; // Any registered exporter
+  recipients: string[]; // Email addresses
+  title?: string; // Report title (default: the saved search name)
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+  nextRunAt?: string; // Unset while disabled
+  lastRunAt?: string;
+  lastStatus?: 'success' | 'error';
+  lastError?: string;
+}
+
 export interface DynamicSearchProps {
   fields: FieldConfig[];
   onSearch: (params: Record<string, any>, viewMode?: ViewMode) => void;
@@ -109,7 +197,9 @@ export interface DynamicSearchProps {
   availableViewModes?: ViewMode[]; // Available view modes (default: all) - deprecated, use reportOptions instead
   onViewModeChange?: (viewMode: ViewMode) => void; // Callback when view mode changes
   reportOptions?: ReportOption[]; // Custom report/view options for the dropdown
-  onExport?: (reportId: string, format: ReportFormat, params: Record<string, any>) => void; // Callback when user wants to export/download
+  onExport?: (reportId: string, format: ReportFormat, params: Record<string, any>) => void; // Shows an Export menu with the selected report option's exportFormats; route it through runExport (lib/reports)
   customFields?: (values: Record<string, any>, onChange: (name: string, value: any) => void) => React.ReactNode; // Custom fields render function
   formMode?: FormMode; // Form mode: 'search' or 'edit' (default: 'search')
+  syncWithUrl?: boolean; // Keep values and view mode in the URL query string; opening such a URL runs the search (default: false)
+  submitChangedOnly?: boolean; // Submit and validate only the fields the user changed, e.g. for bulk edit (default: false)
 }
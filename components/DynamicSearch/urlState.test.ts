@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import dayjs from 'dayjs';
+import { parseSearchState, serializeSearchState } from './urlState';
+import type { FieldConfig } from './types';
+
+const fields: FieldConfig[] = [
+  { name: 'search', label: 'Name', type: 'text', operators: ['contains', 'startsWith', 'equals'] },
+  {
+    name: 'category',
+    label: 'Category',
+    type: 'dropdown',
+    options: [
+      { label: 'Home', value: 'home' },
+      { label: 'Toys', value: 'toys' },
+    ],
+    operators: ['equals', 'in', 'notIn'],
+  },
+  { name: 'price', label: 'Price', type: 'number', operators: ['between', 'gt', 'lt', 'equals'] },
+  { name: 'createdAt', label: 'Created', type: 'date', operators: ['gte', 'lte', 'isEmpty'] },
+  { name: 'notes', label: 'Notes', type: 'text' },
+  { name: 'inStock', label: 'In stock', type: 'checkbox' },
+  { name: 'stockRange', label: 'Stock', type: 'pill', pillType: 'number', allowRanges: true },
+];
+
+const roundTrip = (values: Record<string, any>) =>
+  parseSearchState(serializeSearchState({ values }, fields).toString(), fields)?.values;
+
+describe('search URL state', () => {
+  it('round-trips operator conditions with their value types', () => {
+    const values = {
+      search: { op: 'startsWith', value: 'Lamp' },
+      category: { op: 'in', value: ['home'] },
+      price: { op: 'between', value: [10, 50] },
+    };
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it.each([
+    { op: 'notIn', value: ['toys'] },
+    { op: 'in', value: ['home', 'toys'] },
+    { op: 'equals', value: 'home' },
+  ])('keeps %o on a dropdown', (condition) => {
+    expect(roundTrip({ category: condition })).toEqual({ category: condition });
+  });
+
+  it('keeps numeric bounds numeric', () => {
+    expect(roundTrip({ price: { op: 'gt', value: 100 } })).toEqual({ price: { op: 'gt', value: 100 } });
+    expect(roundTrip({ price: { op: 'between', value: [10, ''] } })).toEqual({ price: { op: 'between', value: [10, ''] } });
+  });
+
+  it('writes conditions as one op:json key', () => {
+    const params = serializeSearchState({ values: { price: { op: 'between', value: [10, 50] } } }, fields);
+    expect(params.toString()).toBe(`f.price=${encodeURIComponent('between:[10,50]')}`);
+  });
+
+  it('writes dates inside conditions as YYYY-MM-DD', () => {
+    expect(roundTrip({ createdAt: { op: 'gte', value: dayjs('2024-03-05T10:00:00') } })).toEqual({
+      createdAt: { op: 'gte', value: '2024-03-05' },
+    });
+  });
+
+  it('round-trips isEmpty and drops incomplete conditions', () => {
+    expect(roundTrip({ createdAt: { op: 'isEmpty' } })).toEqual({ createdAt: { op: 'isEmpty' } });
+    expect(parseSearchState(serializeSearchState({ values: { price: { op: 'gt', value: '' } } }, fields), fields)).toBeNull();
+  });
+
+  it('does not decode Object.prototype members as operators', () => {
+    expect(parseSearchState('f.price=toString:1&f.search=constructor:"x"', fields)?.values).toEqual({
+      price: 'toString:1',
+      search: 'constructor:"x"',
+    });
+  });
+
+  it('leaves text that looks like a condition alone on fields without operators', () => {
+    expect(roundTrip({ notes: 'in:["x"]' })).toEqual({ notes: 'in:["x"]' });
+  });
+
+  it('still round-trips plain values, arrays and checkboxes', () => {
+    const values = { notes: 'hello', stockRange: ['0', '5'], inStock: true, category: 'toys' };
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it('round-trips view, page, page size and sort', () => {
+    const state = {
+      values: { notes: 'x' },
+      viewMode: 'report',
+      page: 2,
+      pageSize: 50,
+      sortModel: [{ field: 'price', sort: 'desc' as const }, { field: 'name', sort: 'asc' as const }],
+    };
+    expect(parseSearchState(serializeSearchState(state, fields), fields)).toEqual(state);
+  });
+});
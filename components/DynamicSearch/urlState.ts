@@ -0,0 +1,223 @@
+import dayjs from 'dayjs';
+import { FieldConfig, FilterCondition, ViewMode } from './types';
+import { isEmptyValue } from './visibility';
+import { FILTER_OPERATOR_LABELS, isFilterCondition, isIncompleteCondition } from './filterOperators';
+
+// Query string layout:
+//   f.<field>=value            one key per field value
+//   f.<field>=a&f.<field>=b    arrays (multiselect, pill ranges, multi modal-select) as repeated keys
+//   f.<group>.<field>=value    grouped/accordion values as dotted keys
+//   f.<field>=op:json          operator conditions, e.g. f.price=between:[10,50] or f.category=in:["home"]
+//   view=report&page=2&pageSize=50&sort=price:desc
+// Keys are written in sorted order so the same search always produces the same URL.
+const FIELD_PREFIX = 'f.';
+const STATE_KEYS = ['view', 'page', 'pageSize', 'sort'];
+
+export interface SearchUrlState {
+  values: Record<string, any>;
+  viewMode?: ViewMode;
+  page?: number; // Zero-based (written one-based in the URL)
+  pageSize?: number;
+  sortModel?: Array<{ field: string; sort: 'asc' | 'desc' }>;
+}
+
+// Find the config for a (possibly dotted) field path, looking inside groups/accordions
+const findFieldConfig = (path: string[], fields: FieldConfig[]): FieldConfig | undefined => {
+  const field = fields.find((f) => f.name === path[0]);
+  if (!field || path.length === 1) return field;
+  return field.fields ? findFieldConfig(path.slice(1), field.fields) : undefined;
+};
+
+const isMultiValueField = (field?: FieldConfig): boolean =>
+  !!field && (
+    field.type === 'multiselect' ||
+    field.type === 'pill' ||
+    (field.type === 'modal-select' && !!field.allowMultiple)
+  );
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) &&
+  !(value instanceof Date) && !dayjs.isDayjs(value);
+
+// Dates (Date or Dayjs) are written as YYYY-MM-DD; everything else as its string form
+const formatValue = (value: any): string => {
+  if (value instanceof Date || dayjs.isDayjs(value)) {
+    return dayjs(value).format('YYYY-MM-DD');
+  }
+  return String(value);
+};
+
+// Condition values keep their JSON types (numbers, single-item lists); dates become YYYY-MM-DD
+const toJsonValue = (value: any): any => {
+  if (value instanceof Date || dayjs.isDayjs(value)) return formatValue(value);
+  return Array.isArray(value) ? value.map(toJsonValue) : value;
+};
+
+const formatCondition = (condition: FilterCondition): string =>
+  condition.op === 'isEmpty' ? `${condition.op}:` : `${condition.op}:${JSON.stringify(toJsonValue(condition.value))}`;
+
+// Decode "op:json"; null when the text is not a condition
+const parseCondition = (raw: string): FilterCondition | null => {
+  const separator = raw.indexOf(':');
+  const op = raw.slice(0, separator);
+  if (separator === -1 || !Object.hasOwn(FILTER_OPERATOR_LABELS, op)) return null;
+
+  const json = raw.slice(separator + 1);
+  if (json === '') return op === 'isEmpty' ? { op } as FilterCondition : null;
+  try {
+    return { op, value: JSON.parse(json) } as FilterCondition;
+  } catch {
+    return null;
+  }
+};
+
+// Restore the original value type from the field config (checkbox booleans, numeric option values)
+const parseValue = (raw: string, field?: FieldConfig): any => {
+  if (!field) return raw;
+  if (field.type === 'checkbox') return raw === 'true';
+  const option = field.options?.find((opt) => String(opt.value) === raw);
+  return option ? option.value : raw;
+};
+
+const appendValue = (
+  params: URLSearchParams,
+  path: string[],
+  value: any,
+  fields: FieldConfig[]
+): void => {
+  if (isEmptyValue(value)) return;
+
+  const key = FIELD_PREFIX + path.join('.');
+  if (isFilterCondition(value)) {
+    if (!isIncompleteCondition(value)) params.append(key, formatCondition(value));
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    Object.keys(value).sort().forEach((key) => appendValue(params, [...path, key], value[key], fields));
+    return;
+  }
+
+  // Unchecked checkboxes are omitted unless the field defaults to checked
+  if (value === false && findFieldConfig(path, fields)?.defaultValue !== true) return;
+
+  (Array.isArray(value) ? value : [value]).forEach((item) => params.append(key, formatValue(item)));
+};
+
+/**
+ * Encode search values, view mode, page and sort into query string params.
+ *
+ * @example
+ * serializeSearchState({ values: { category: 'electronics', stockRange: ['0-50', '100'] }, viewMode: 'grid' }, fields).toString();
+ * // 'f.category=electronics&f.stockRange=0-50&f.stockRange=100&view=grid'
+ */
+export const serializeSearchState = (state: SearchUrlState, fields: FieldConfig[] = []): URLSearchParams => {
+  const params = new URLSearchParams();
+
+  Object.keys(state.values).sort().forEach((name) => {
+    appendValue(params, [name], state.values[name], fields);
+  });
+
+  if (state.viewMode) params.set('view', state.viewMode);
+  if (state.page) params.set('page', String(state.page + 1));
+  if (state.pageSize) params.set('pageSize', String(state.pageSize));
+  state.sortModel?.forEach((item) => params.append('sort', `${item.field}:${item.sort}`));
+
+  return params;
+};
+
+/**
+ * Decode search state written by `serializeSearchState`.
+ * Field configs are used to restore arrays, booleans and numeric option values.
+ *
+ * @returns The decoded state, or null when the URL contains no search
+ */
+export const parseSearchState = (
+  input: string | URLSearchParams,
+  fields: FieldConfig[] = []
+): SearchUrlState | null => {
+  const params = typeof input === 'string' ? new URLSearchParams(input) : input;
+  const keys = Array.from(new Set(Array.from(params.keys())));
+  const fieldKeys = keys.filter((key) => key.startsWith(FIELD_PREFIX));
+
+  if (fieldKeys.length === 0 && !STATE_KEYS.some((key) => params.has(key))) {
+    return null;
+  }
+
+  const values: Record<string, any> = {};
+  fieldKeys.forEach((key) => {
+    const path = key.slice(FIELD_PREFIX.length).split('.');
+    const field = findFieldConfig(path, fields);
+    const raw = params.getAll(key);
+    // Conditions are only read for fields with operators (or unknown fields), so a text value
+    // such as "in:stock" stays plain text
+    const condition = (!field || field.operators) && raw.length === 1 ? parseCondition(raw[0]) : null;
+    const value = condition
+      ? condition
+      : isMultiValueField(field) || (!field && raw.length > 1)
+        ? raw.map((item) => parseValue(item, field))
+        : parseValue(raw[0], field);
+
+    // Build nested objects for grouped values
+    let target = values;
+    path.slice(0, -1).forEach((segment) => {
+      target[segment] = isPlainObject(target[segment]) ? target[segment] : {};
+      target = target[segment];
+    });
+    target[path[path.length - 1]] = value;
+  });
+
+  const state: SearchUrlState = { values };
+
+  const view = params.get('view');
+  if (view) state.viewMode = view;
+
+  const page = parseInt(params.get('page') || '', 10);
+  if (page > 0) state.page = page - 1;
+
+  const pageSize = parseInt(params.get('pageSize') || '', 10);
+  if (pageSize > 0) state.pageSize = pageSize;
+
+  const sortModel = params.getAll('sort')
+    .map((item) => {
+      const [field, sort] = item.split(':');
+      return { field, sort: sort === 'desc' ? 'desc' as const : 'asc' as const };
+    })
+    .filter((item) => item.field);
+  if (sortModel.length > 0) state.sortModel = sortModel;
+
+  return state;
+};
+
+/**
+ * Read search state from the current browser URL.
+ */
+export const readUrlSearchState = (fields: FieldConfig[] = []): SearchUrlState | null => {
+  if (typeof window === 'undefined') return null;
+  return parseSearchState(window.location.search, fields);
+};
+
+/**
+ * Replace the search state in the current URL without a navigation or new history entry.
+ * Query params that are not part of the search state are preserved. Pass null to clear it.
+ */
+export const writeUrlSearchState = (state: SearchUrlState | null, fields: FieldConfig[] = []): void => {
+  if (typeof window === 'undefined') return;
+
+  const current = new URLSearchParams(window.location.search);
+  const params = new URLSearchParams();
+  current.forEach((value, key) => {
+    if (!key.startsWith(FIELD_PREFIX) && !STATE_KEYS.includes(key)) {
+      params.append(key, value);
+    }
+  });
+  if (state) {
+    serializeSearchState(state, fields).forEach((value, key) => params.append(key, value));
+  }
+
+  const query = params.toString();
+  const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+  if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+    window.history.replaceState(window.history.state, '', url);
+  }
+};
@@ -0,0 +1,194 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { DropdownOption, RemoteSearchConfig } from './types';
+import { DEFAULT_OPTIONS_STALE_TIME, fieldOptionKeys } from './fieldOptions';
+
+const DEFAULT_REMOTE_SEARCH: Required<RemoteSearchConfig> = {
+  queryParam: 'q',
+  cursorParam: 'cursor',
+  lookupParam: 'values',
+  pageSize: 50,
+  debounceMs: 300,
+  minChars: 0,
+};
+
+/**
+ * Merge a field's `remoteSearch` setting with the defaults.
+ *
+ * @returns The full config, or null when remote search is off
+ */
+export const normalizeRemoteSearch = (
+  remoteSearch?: boolean | RemoteSearchConfig
+): Required<RemoteSearchConfig> | null => {
+  if (!remoteSearch) return null;
+  return remoteSearch === true ? DEFAULT_REMOTE_SEARCH : { ...DEFAULT_REMOTE_SEARCH, ...remoteSearch };
+};
+
+// Append query params to a URL that may already have a query string (e.g. a resolved cascading apiUrl)
+const appendParams = (url: string, params: Record<string, string>): string => {
+  const query = new URLSearchParams(params).toString();
+  return `${url}${url.includes('?') ? '&' : '?'}${query}`;
+};
+
+interface UseRemoteOptionsArgs {
+  apiUrl?: string | null;
+  apiLabelField?: string;
+  apiValueField?: string;
+  remoteSearch?: boolean | RemoteSearchConfig;
+  enabled?: boolean; // Only search while the option list is open
+  selectedValues?: (string | number)[]; // Values whose labels must be shown even when not on a loaded page
+}
+
+interface RemotePage {
+  items: any[];
+  nextCursor: string | null;
+}
+
+/**
+ * Fetch one page of remote options.
+ * Plain array responses are treated as a single, final page.
+ * @throws on a non-ok response, so React Query reports the error and retries instead of caching an empty page
+ */
+const fetchRemotePage = async (url: string): Promise<RemotePage> => {
+  const response = await fetch(url, {
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  const responseData = await response.json();
+  if (Array.isArray(responseData)) return { items: responseData, nextCursor: null };
+  return { items: responseData.data || [], nextCursor: responseData.nextCursor ?? null };
+};
+
+/**
+ * Page through a large option list on the server.
+ *
+ * The API receives `?q=<text>&cursor=<cursor>&limit=<pageSize>` and responds with
+ * `{ data: [...], nextCursor: string | null }`. Labels for selected values are looked up
+ * with `?values=a,b,c` so they display before the matching page has been loaded.
+ * Pages are cached under the apiUrl's fieldOptionKeys entry, so invalidateFieldOptions refreshes them too.
+ */
+export const useRemoteOptions = ({
+  apiUrl,
+  apiLabelField = 'label',
+  apiValueField = 'value',
+  remoteSearch,
+  enabled = true,
+  selectedValues = [],
+}: UseRemoteOptionsArgs) => {
+  const config = normalizeRemoteSearch(remoteSearch) || DEFAULT_REMOTE_SEARCH;
+  const { queryParam, cursorParam, lookupParam, pageSize, debounceMs, minChars } = config;
+
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [knownLabels, setKnownLabels] = useState<Record<string, string>>({});
+
+  const mapItems = (items: any[]): DropdownOption[] =>
+    items.map((item) => ({ label: item[apiLabelField], value: item[apiValueField] }));
+
+  const rememberLabels = (items: DropdownOption[]) => {
+    if (items.length === 0) return;
+    setKnownLabels((prev) => {
+      const next = { ...prev };
+      items.forEach((opt) => {
+        next[String(opt.value)] = opt.label;
+      });
+      return next;
+    });
+  };
+
+  // Debounce typed text before searching
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), debounceMs);
+    return () => clearTimeout(timer);
+  }, [query, debounceMs]);
+
+  // Search pages for the typed text - loaded when the list opens, the text changes, or the URL changes
+  const canSearch = !!apiUrl && debouncedQuery.length >= minChars;
+  const search = useInfiniteQuery({
+    queryKey: [...fieldOptionKeys.url(apiUrl || ''), 'search', debouncedQuery, pageSize],
+    queryFn: ({ pageParam }) => {
+      const params: Record<string, string> = { [queryParam]: debouncedQuery, limit: String(pageSize) };
+      if (pageParam) {
+        params[cursorParam] = pageParam;
+      }
+      return fetchRemotePage(appendParams(apiUrl as string, params));
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: canSearch && enabled,
+    staleTime: DEFAULT_OPTIONS_STALE_TIME,
+  });
+
+  const options = useMemo<DropdownOption[]>(
+    () => (canSearch && search.data ? search.data.pages.flatMap((page) => mapItems(page.items)) : []),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [canSearch, search.data, apiLabelField, apiValueField]
+  );
+
+  useEffect(() => {
+    rememberLabels(options);
+  }, [options]);
+
+  // Look up labels for selected values that have not appeared on a loaded page
+  const missing = selectedValues.filter((v) => knownLabels[String(v)] === undefined).map(String);
+  const lookup = useQuery({
+    queryKey: [...fieldOptionKeys.url(apiUrl || ''), 'lookup', missing.join(',')],
+    queryFn: () => fetchRemotePage(appendParams(apiUrl as string, { [lookupParam]: missing.join(',') })),
+    enabled: !!apiUrl && missing.length > 0,
+    staleTime: DEFAULT_OPTIONS_STALE_TIME,
+  });
+
+  useEffect(() => {
+    if (lookup.data) rememberLabels(mapItems(lookup.data.items));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lookup.data]);
+
+  useEffect(() => {
+    if (search.error) console.error(`Error searching options from ${apiUrl}:`, search.error);
+    if (lookup.error) console.error(`Error looking up selected options from ${apiUrl}:`, lookup.error);
+  }, [search.error, lookup.error, apiUrl]);
+
+  // Selected values as options, falling back to the raw value until its label is known
+  const selectedKey = selectedValues.map(String).join(',');
+  const selectedOptions = useMemo<DropdownOption[]>(
+    () => selectedValues.map((v) => ({ value: v, label: knownLabels[String(v)] ?? String(v) })),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedKey, knownLabels]
+  );
+
+  const loadMore = () => {
+    if (search.hasNextPage && !search.isFetchingNextPage) {
+      search.fetchNextPage();
+    }
+  };
+
+  return {
+    options,
+    selectedOptions,
+    query,
+    setQuery,
+    loading: canSearch && (search.isLoading || search.isFetchingNextPage),
+    error: canSearch ? search.error : null, // Failed search, after React Query's retries
+    hasMore: canSearch && search.hasNextPage,
+    loadMore,
+    belowMinChars: debouncedQuery.length < minChars,
+    minChars,
+  };
+};
+
+/**
+ * Call `loadMore` when a scrollable list is scrolled near its bottom (infinite scroll).
+ */
+export const loadMoreOnScroll = (loadMore: () => void, threshold = 48) =>
+  (event: React.UIEvent<HTMLElement>) => {
+    const target = event.currentTarget;
+    if (target.scrollTop + target.clientHeight >= target.scrollHeight - threshold) {
+      loadMore();
+    }
+  };
@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import dayjs from 'dayjs';
+import { FieldConfig, FormMode } from './types';
+import { isEmptyValue, isFieldVisible } from './visibility';
+import { isFilterCondition, isIncompleteCondition } from './filterOperators';
+
+// Field types whose sub-fields are stored as a nested object under the field name
+const CONTAINER_TYPES = ['group', 'accordion'];
+
+/**
+ * Determine if a field is required for the given form mode.
+ */
+export const isFieldRequired = (field: FieldConfig, formMode: FormMode = 'search'): boolean => {
+  if (field.required) return true;
+  if (formMode === 'edit' && field.requiredForEdit) return true;
+  if (formMode === 'search' && field.requiredForSearch) return true;
+  return false;
+};
+
+// Find a field config by name, searching nested groups/accordions
+const findField = (name: string, fields: FieldConfig[]): FieldConfig | undefined => {
+  for (const field of fields) {
+    if (field.name === name) return field;
+    if (field.fields) {
+      const found = findField(name, field.fields);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Compare two values of a field: dates chronologically, numbers numerically, text lexically
+const compareValues = (field: FieldConfig, a: any, b: any): number => {
+  if (field.type === 'date') {
+    return dayjs(a).valueOf() - dayjs(b).valueOf();
+  }
+  if (field.type === 'number') {
+    return Number(a) - Number(b);
+  }
+  return String(a).localeCompare(String(b));
+};
+
+interface ValidateOptions {
+  formMode?: FormMode;
+  fields?: FieldConfig[]; // All field configs, used to look up labels for cross-field messages
+}
+
+/**
+ * Validate a single field value against its required flags and `validation` rules.
+ * Rules other than `required` only run when the field has a value.
+ *
+ * @returns The error message, or undefined when the value is valid
+ */
+export const validateFieldValue = (
+  field: FieldConfig,
+  value: any,
+  values: Record<string, any>,
+  { formMode = 'search', fields = [] }: ValidateOptions = {}
+): string | undefined => {
+  // Operator conditions validate each value they carry; isEmpty carries none
+  if (isFilterCondition(value)) {
+    if (isIncompleteCondition(value)) {
+      return isFieldRequired(field, formMode) ? `${field.label} is required` : undefined;
+    }
+    if (value.op === 'isEmpty') return undefined;
+
+    const items: any[] = Array.isArray(value.value) ? value.value : [value.value];
+    for (const item of items) {
+      if (isEmptyValue(item)) continue;
+      const itemError = validateFieldValue(field, item, values, { formMode, fields });
+      if (itemError) return itemError;
+    }
+
+    if (value.op === 'between' && !isEmptyValue(items[0]) && !isEmptyValue(items[1])) {
+      if (compareValues(field, items[0], items[1]) > 0) {
+        return `${field.label} range start must not be after its end`;
+      }
+    }
+    return undefined;
+  }
+
+  if (isEmptyValue(value)) {
+    return isFieldRequired(field, formMode) ? `${field.label} is required` : undefined;
+  }
+
+  const rules = field.validation;
+  if (!rules) return undefined;
+
+  if (field.type === 'number') {
+    const num = Number(value);
+    if (isNaN(num)) return `${field.label} must be a number`;
+    if (rules.integer && !Number.isInteger(num)) return `${field.label} must be a whole number`;
+    if (rules.min !== undefined && num < Number(rules.min)) {
+      return rules.message || `${field.label} must be at least ${rules.min}`;
+    }
+    if (rules.max !== undefined && num > Number(rules.max)) {
+      return rules.message || `${field.label} must be at most ${rules.max}`;
+    }
+  } else if (field.type === 'date') {
+    if (!dayjs(value).isValid()) return `${field.label} must be a valid date`;
+    if (rules.min !== undefined && compareValues(field, value, rules.min) < 0) {
+      return rules.message || `${field.label} must be on or after ${rules.min}`;
+    }
+    if (rules.max !== undefined && compareValues(field, value, rules.max) > 0) {
+      return rules.message || `${field.label} must be on or before ${rules.max}`;
+    }
+  }
+
+  // Length rules apply to text and to the number of selected items for array values
+  const length = Array.isArray(value) ? value.length : typeof value === 'string' ? value.length : undefined;
+  if (length !== undefined) {
+    const unit = Array.isArray(value) ? 'items' : 'characters';
+    if (rules.minLength !== undefined && length < rules.minLength) {
+      return rules.message || `${field.label} must have at least ${rules.minLength} ${unit}`;
+    }
+    if (rules.maxLength !== undefined && length > rules.maxLength) {
+      return rules.message || `${field.label} must have at most ${rules.maxLength} ${unit}`;
+    }
+  }
+
+  if (rules.pattern && typeof value === 'string') {
+    const regex = typeof rules.pattern === 'string' ? new RegExp(rules.pattern) : rules.pattern;
+    if (!regex.test(value)) {
+      return rules.patternMessage || `${field.label} has an invalid format`;
+    }
+  }
+
+  // Cross-field checks only run once the other field has a value
+  if (rules.gteField && !isEmptyValue(values[rules.gteField])) {
+    if (compareValues(field, value, values[rules.gteField]) < 0) {
+      const otherLabel = findField(rules.gteField, fields)?.label || rules.gteField;
+      return rules.message || `${field.label} must be on or after ${otherLabel}`;
+    }
+  }
+  if (rules.lteField && !isEmptyValue(values[rules.lteField])) {
+    if (compareValues(field, value, values[rules.lteField]) > 0) {
+      const otherLabel = findField(rules.lteField, fields)?.label || rules.lteField;
+      return rules.message || `${field.label} must be on or before ${otherLabel}`;
+    }
+  }
+
+  if (rules.custom) {
+    return rules.custom(value, values);
+  }
+
+  return undefined;
+};
+
+/**
+ * Validate every visible field in a field tree.
+ * Group/accordion sub-fields are read from the nested object stored under the container's name.
+ *
+ * @returns Map of field name to error message (empty when the form is valid)
+ */
+export const validateFields = (
+  fields: FieldConfig[],
+  values: Record<string, any>,
+  formMode: FormMode = 'search'
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  const validateField = (field: FieldConfig, scopeValues: Record<string, any>): void => {
+    // Hidden fields are never validated
+    if (!isFieldVisible(field, scopeValues)) return;
+
+    if (CONTAINER_TYPES.includes(field.type) && field.fields) {
+      const groupScope = { ...scopeValues, ...(scopeValues[field.name] || {}) };
+      field.fields.forEach((subField) => validateField(subField, groupScope));
+      return;
+    }
+
+    const error = validateFieldValue(field, scopeValues[field.name], scopeValues, { formMode, fields });
+    if (error) {
+      errors[field.name] = error;
+    }
+  };
+
+  fields.forEach((field) => validateField(field, values));
+  return errors;
+};
+
+// Convert number inputs (which arrive as strings from text fields) into numbers
+const toNumber = (value: unknown) =>
+  value === '' || value === null || value === undefined ? undefined : Number(value);
+
+/**
+ * Build a zod schema from field configs so react-hook-form pages and DynamicSearch
+ * share one validation definition.
+ *
+ * Number fields are coerced to numbers; all rules are evaluated by `validateFields`.
+ *
+ * @example
+ * const schema = buildZodSchema<ProductFormData>(productEditFields, 'edit');
+ * useForm<ProductFormData>({ resolver: zodResolver(schema) });
+ */
+export const buildZodSchema = <T extends Record<string, any> = Record<string, any>>(
+  fields: FieldConfig[],
+  formMode: FormMode = 'search'
+): z.ZodType<T, T> => {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  fields.forEach((field) => {
+    // Operator fields submit { op, value } conditions, so only plain number fields are coerced
+    shape[field.name] = field.type === 'number' && !field.operators
+      ? z.preprocess(toNumber, z.number({ error: `${field.label} must be a number` }).optional())
+      : z.any();
+  });
+
+  return z.looseObject(shape).superRefine((data, ctx) => {
+    const errors = validateFields(fields, data, formMode);
+    Object.entries(errors).forEach(([name, message]) => {
+      ctx.addIssue({ code: 'custom', path: [name], message });
+    });
+  }) as unknown as z.ZodType<T, T>;
+};
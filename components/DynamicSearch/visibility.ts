@@ -0,0 +1,54 @@
+import { FieldConfig, VisibilityCondition } from './types';
+
+/**
+ * Check whether a form value should be treated as empty.
+ * Empty strings, null/undefined, empty arrays and empty objects are all empty.
+ */
+export const isEmptyValue = (value: any): boolean => {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+};
+
+/**
+ * Evaluate a visibility condition against the current form values.
+ *
+ * @example
+ * evaluateCondition({ field: 'category', equals: 'electronics' }, { category: 'electronics' }); // true
+ * evaluateCondition({ or: [{ field: 'a', notEmpty: true }, { field: 'b', in: [1, 2] }] }, values);
+ */
+export const evaluateCondition = (condition: VisibilityCondition, values: Record<string, any>): boolean => {
+  if ('and' in condition) {
+    return condition.and.every((c) => evaluateCondition(c, values));
+  }
+  if ('or' in condition) {
+    return condition.or.some((c) => evaluateCondition(c, values));
+  }
+
+  const value = values[condition.field];
+
+  if ('equals' in condition) {
+    // Multi-value fields match when any selected value equals the target
+    if (Array.isArray(value)) return value.includes(condition.equals);
+    return value === condition.equals;
+  }
+  if ('in' in condition) {
+    if (Array.isArray(value)) return value.some((v) => condition.in.includes(v));
+    return condition.in.includes(value);
+  }
+  if ('notEmpty' in condition) {
+    return condition.notEmpty ? !isEmptyValue(value) : isEmptyValue(value);
+  }
+
+  return true;
+};
+
+/**
+ * Determine if a field should be rendered, validated and submitted.
+ * Fields without a `visibleWhen` rule are always visible.
+ */
+export const isFieldVisible = (field: FieldConfig, values: Record<string, any>): boolean => {
+  if (!field.visibleWhen) return true;
+  return evaluateCondition(field.visibleWhen, values);
+};
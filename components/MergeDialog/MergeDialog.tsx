@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import type { FieldConfig } from '../DynamicSearch/types';
+import {
+  diffThreeWay,
+  defaultMergeChoices,
+  applyMergeChoices,
+  type MergeSource,
+  type MergeStatus,
+  type MergeChoices,
+} from './merge';
+
+export interface MergeDialogProps {
+  open: boolean;
+  // Fields to compare; dropdown options are used to show labels instead of raw values
+  fields: Pick<FieldConfig, 'name' | 'label' | 'options'>[];
+  original: Record<string, any>; // Values the edit started from
+  mine: Record<string, any>; // The user's unsaved values
+  server: Record<string, any>; // The latest saved values
+  onApply: (merged: Record<string, any>) => void;
+  onCancel: () => void;
+}
+
+const STATUS_CHIPS: Record<Exclude<MergeStatus, 'unchanged'>, { label: string; color: 'default' | 'primary' | 'info' | 'error' }> = {
+  mine: { label: 'Changed by you', color: 'primary' },
+  server: { label: 'Changed on server', color: 'info' },
+  same: { label: 'Same change', color: 'default' },
+  conflict: { label: 'Conflict', color: 'error' },
+};
+
+const SOURCES: Array<{ source: MergeSource; label: string }> = [
+  { source: 'mine', label: 'Yours' },
+  { source: 'original', label: 'Original' },
+  { source: 'server', label: 'Latest' },
+];
+
+/**
+ * Three-way merge dialog shown when a save is rejected because the record changed in the meantime.
+ * Shows the user's edits, the original and the server's latest values side by side; the user
+ * picks one per field. Non-conflicting changes are pre-selected, conflicts must be resolved.
+ */
+export const MergeDialog: React.FC<MergeDialogProps> = ({
+  open,
+  fields,
+  original,
+  mine,
+  server,
+  onApply,
+  onCancel,
+}) => {
+  const diff = useMemo(
+    () => diffThreeWay(fields.map((field) => field.name), original, mine, server),
+    [fields, original, mine, server]
+  );
+  const [choices, setChoices] = useState<MergeChoices>({});
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Start from the default choices whenever a new conflict is shown
+  useEffect(() => {
+    if (open) setChoices(defaultMergeChoices(diff));
+  }, [open, diff]);
+
+  const fieldsByName = useMemo(() => new Map(fields.map((field) => [field.name, field])), [fields]);
+  const unresolved = diff.filter((field) => field.status === 'conflict' && !choices[field.name]).length;
+  const visibleRows = showUnchanged ? diff : diff.filter((field) => field.status !== 'unchanged');
+
+  const formatValue = (name: string, value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    const option = fieldsByName.get(name)?.options?.find((opt) => opt.value === value);
+    return option ? option.label : String(value);
+  };
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>
+        Someone else saved this record while you were editing
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Choose which value to keep for each field. Your choices are copied into the form, and you can review them before saving.
+        </Typography>
+
+        {unresolved > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {unresolved} conflicting {unresolved === 1 ? 'field needs' : 'fields need'} a choice.
+          </Alert>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              {SOURCES.map(({ source, label }) => (
+                <TableCell key={source}>{label}</TableCell>
+              ))}
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleRows.map((field) => (
+              <TableRow key={field.name} selected={field.status === 'conflict' && !choices[field.name]}>
+                <TableCell sx={{ fontWeight: 500 }}>{fieldsByName.get(field.name)?.label ?? field.name}</TableCell>
+                {SOURCES.map(({ source }) => (
+                  <TableCell key={source}>
+                    {field.status === 'unchanged' ? (
+                      formatValue(field.name, field[source])
+                    ) : (
+                      <FormControlLabel
+                        control={
+                          <Radio
+                            size="small"
+                            checked={choices[field.name] === source}
+                            onChange={() => setChoices((prev) => ({ ...prev, [field.name]: source }))}
+                          />
+                        }
+                        label={formatValue(field.name, field[source])}
+                        sx={{ m: 0, '& .MuiFormControlLabel-label': { fontSize: '0.875rem', wordBreak: 'break-word' } }}
+                      />
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell align="right">
+                  {field.status !== 'unchanged' && (
+                    <Chip size="small" label={STATUS_CHIPS[field.status].label} color={STATUS_CHIPS[field.status].color} />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Box sx={{ mt: 1 }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />}
+            label={<Typography variant="body2">Show unchanged fields</Typography>}
+          />
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Keep Editing</Button>
+        <Button variant="contained" disabled={unresolved > 0} onClick={() => onApply(applyMergeChoices(diff, choices))}>
+          Apply to Form
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,4 @@
+export { MergeDialog } from './MergeDialog';
+export type { MergeDialogProps } from './MergeDialog';
+export { diffThreeWay, defaultMergeChoices, applyMergeChoices } from './merge';
+export type { MergeSource, MergeStatus, MergeChoices, FieldMerge } from './merge';
@@ -0,0 +1,66 @@
+// Three-way merge of a record edited while someone else saved it
+
+export type MergeSource = 'mine' | 'original' | 'server';
+
+// How a field changed relative to the version the edit started from
+export type MergeStatus =
+  | 'unchanged' // Nobody changed it
+  | 'mine' // Only the user changed it
+  | 'server' // Only the other save changed it
+  | 'same' // Both changed it to the same value
+  | 'conflict'; // Both changed it to different values
+
+export interface FieldMerge {
+  name: string;
+  mine: any;
+  original: any;
+  server: any;
+  status: MergeStatus;
+}
+
+export type MergeChoices = Record<string, MergeSource>;
+
+const isSameValue = (a: any, b: any): boolean =>
+  a === b || ((a === undefined || a === null || a === '') && (b === undefined || b === null || b === ''));
+
+/**
+ * Compare the user's values and the server's latest values against the original, field by field.
+ */
+export const diffThreeWay = (
+  fieldNames: string[],
+  original: Record<string, any>,
+  mine: Record<string, any>,
+  server: Record<string, any>
+): FieldMerge[] =>
+  fieldNames.map((name) => {
+    const mineChanged = !isSameValue(mine[name], original[name]);
+    const serverChanged = !isSameValue(server[name], original[name]);
+
+    let status: MergeStatus = 'unchanged';
+    if (mineChanged && serverChanged) {
+      status = isSameValue(mine[name], server[name]) ? 'same' : 'conflict';
+    } else if (mineChanged) {
+      status = 'mine';
+    } else if (serverChanged) {
+      status = 'server';
+    }
+
+    return { name, mine: mine[name], original: original[name], server: server[name], status };
+  });
+
+/**
+ * Pre-selected source for each field: non-conflicting changes from either side are kept.
+ * Conflicts are left out - the user has to pick them.
+ */
+export const defaultMergeChoices = (diff: FieldMerge[]): MergeChoices =>
+  Object.fromEntries(
+    diff
+      .filter((field) => field.status !== 'conflict')
+      .map((field) => [field.name, field.status === 'mine' ? 'mine' : 'server'])
+  );
+
+/**
+ * Build the merged values from the chosen source of each field (server value when none was chosen).
+ */
+export const applyMergeChoices = (diff: FieldMerge[], choices: MergeChoices): Record<string, any> =>
+  Object.fromEntries(diff.map((field) => [field.name, field[choices[field.name] ?? 'server']]));
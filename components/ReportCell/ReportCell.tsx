@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { Chip, Typography, type ChipProps } from '@mui/material';
+import { formatColumnValue, type ReportColumn, type ReportTone } from '@/lib/reports';
+
+export interface ReportCellProps<Row extends Record<string, any> = Record<string, any>> {
+  column: ReportColumn<Row>;
+  row: Row;
+}
+
+const CHIP_COLORS: Record<ReportTone, ChipProps['color']> = {
+  default: 'default',
+  info: 'primary',
+  success: 'success',
+  warning: 'warning',
+  error: 'error',
+};
+
+/**
+ * A report column's value as it appears on screen: a chip for toned columns,
+ * bold currency, otherwise the formatted text. Used by the DataGrid and the report table.
+ */
+export function ReportCell<Row extends Record<string, any>>({ column, row }: ReportCellProps<Row>) {
+  const value = row[column.id];
+  const text = formatColumnValue(column, value, row);
+
+  if (column.tone) {
+    const tone = column.tone(value, row);
+    return <Chip label={text} size="small" color={CHIP_COLORS[tone]} variant={tone === 'info' ? 'outlined' : 'filled'} />;
+  }
+  if (column.type === 'currency') {
+    return (
+      <Typography variant="body2" component="span" sx={{ fontWeight: 600 }}>
+        {text}
+      </Typography>
+    );
+  }
+  return <>{text}</>;
+}
@@ -0,0 +1,2 @@
+export { ReportCell } from './ReportCell';
+export type { ReportCellProps } from './ReportCell';
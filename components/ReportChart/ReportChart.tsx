@@ -0,0 +1,30 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Box, Paper } from '@mui/material';
+import type { ReportChartConfig } from '../DynamicSearch/types';
+import { renderChartSvg, toExportColumn, type ReportColumn } from '@/lib/reports';
+
+export interface ReportChartProps<Row extends Record<string, any> = Record<string, any>> {
+  config: ReportChartConfig;
+  columns: ReportColumn<Row>[]; // Labels and formatting of the x values and the title
+  rows: Row[];
+  maxWidth?: number; // In pixels (default: 800)
+}
+
+/**
+ * Chart of a report's rows, drawn by the local SVG renderer in lib/reports/chart.ts -
+ * the same markup the HTML export embeds.
+ */
+export function ReportChart<Row extends Record<string, any>>({ config, columns, rows, maxWidth = 800 }: ReportChartProps<Row>) {
+  const svg = useMemo(
+    () => renderChartSvg(rows, config, columns.map(toExportColumn)),
+    [rows, config, columns]
+  );
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2 }}>
+      <Box sx={{ maxWidth, mx: 'auto' }} dangerouslySetInnerHTML={{ __html: svg }} />
+    </Paper>
+  );
+}
@@ -0,0 +1,2 @@
+export { ReportChart } from './ReportChart';
+export type { ReportChartProps } from './ReportChart';
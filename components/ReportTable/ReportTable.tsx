@@ -0,0 +1,90 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow } from '@mui/material';
+import { ReportCell } from '../ReportCell';
+import { columnAlign, reportLines, toExportColumn, totalCells, type ReportColumn } from '@/lib/reports';
+
+export interface ReportTableProps<Row extends Record<string, any> = Record<string, any>> {
+  columns: ReportColumn<Row>[];
+  rows: Row[];
+  groupBy?: string[]; // Column ids to group by, outermost first (e.g. ReportOption.groupBy)
+  getRowId?: (row: Row) => string | number;
+  'aria-label'?: string;
+}
+
+const NO_GROUPS: string[] = [];
+
+/**
+ * On-screen report: rows under group headings with subtotals, and a grand total when
+ * the report is grouped or any column has an aggregate. Matches the HTML, PDF and Excel exports.
+ */
+export function ReportTable<Row extends Record<string, any>>({
+  columns,
+  rows,
+  groupBy = NO_GROUPS,
+  getRowId = (row) => row.id,
+  'aria-label': ariaLabel = 'report table',
+}: ReportTableProps<Row>) {
+  const exportColumns = useMemo(() => columns.map(toExportColumn), [columns]);
+  const lines = useMemo(() => reportLines(rows, exportColumns, groupBy), [rows, exportColumns, groupBy]);
+
+  return (
+    <TableContainer component={Paper} variant="outlined">
+      <Table sx={{ minWidth: 650 }} aria-label={ariaLabel}>
+        <TableHead>
+          <TableRow sx={{ bgcolor: 'primary.main' }}>
+            {columns.map((col) => (
+              <TableCell key={col.id} sx={{ color: 'white', fontWeight: 'bold' }} align={columnAlign(col)}>
+                {col.label}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {lines.map((line, index) => {
+            switch (line.kind) {
+              case 'group':
+                return (
+                  <TableRow key={`group-${index}`} sx={{ bgcolor: 'action.selected' }}>
+                    <TableCell colSpan={columns.length} sx={{ fontWeight: 600, pl: 2 + line.group.depth * 2.5 }}>
+                      {line.group.label} ({line.group.rows.length})
+                    </TableCell>
+                  </TableRow>
+                );
+              case 'row':
+                return (
+                  <TableRow
+                    key={getRowId(line.row)}
+                    sx={{
+                      '&:nth-of-type(odd)': { bgcolor: 'action.hover' },
+                      '&:hover': { bgcolor: 'action.selected' },
+                    }}
+                  >
+                    {columns.map((col) => (
+                      <TableCell key={col.id} align={columnAlign(col)}>
+                        <ReportCell column={col} row={line.row} />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+              default:
+                return (
+                  <TableRow
+                    key={`${line.kind}-${index}`}
+                    sx={line.kind === 'total' ? { bgcolor: 'grey.100', borderTop: 2, borderColor: 'primary.main' } : undefined}
+                  >
+                    {totalCells(exportColumns, line).map((text, cellIndex) => (
+                      <TableCell key={columns[cellIndex].id} align={columnAlign(columns[cellIndex])} sx={{ fontWeight: line.kind === 'total' ? 700 : 600 }}>
+                        {text}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                );
+            }
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
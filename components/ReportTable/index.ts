@@ -0,0 +1,2 @@
+export { ReportTable } from './ReportTable';
+export type { ReportTableProps } from './ReportTable';
@@ -31,6 +31,8 @@ interface UseGridManagementReturn {
   setPageSize: (pageSize: number) => void;
   // Set sort model
   setSortModel: (sortModel: Array<{ field: string; sort: 'asc' | 'desc' }>) => void;
+  // Add a column to a multi-column sort, or cycle it asc -> desc -> removed
+  toggleSortColumn: (field: string) => void;
   // Set column visibility
   setColumnVisibility: (visibility: Record<string, boolean>) => void;
   // Set selected rows
@@ -168,6 +170,26 @@ export function useGridManagement({
     [gridId, updateGridState]
   );
 
+  // Toggle one column within a multi-column sort, keeping the other columns' order
+  const toggleSortColumn = useCallback(
+    (field: string) => {
+      const current = getGridState(gridId).sortModel;
+      const existing = current.find((item) => item.field === field);
+
+      let sortModel: Array<{ field: string; sort: 'asc' | 'desc' }>;
+      if (!existing) {
+        sortModel = [...current, { field, sort: 'asc' }];
+      } else if (existing.sort === 'asc') {
+        sortModel = current.map((item) => (item.field === field ? { field, sort: 'desc' } : item));
+      } else {
+        sortModel = current.filter((item) => item.field !== field);
+      }
+
+      updateGridState(gridId, { sortModel });
+    },
+    [gridId, getGridState, updateGridState]
+  );
+
   // Set column visibility
   const setColumnVisibility = useCallback(
     (columnVisibility: Record<string, boolean>) => {
@@ -250,6 +272,7 @@ export function useGridManagement({
     setPage,
     setPageSize,
     setSortModel,
+    toggleSortColumn,
     setColumnVisibility,
     setSelectedRows,
   };
@@ -0,0 +1,98 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useGridNavigationStore } from '@/stores/gridNavigationStore';
+import {
+  readUrlSearchState,
+  writeUrlSearchState,
+  serializeSearchState,
+  type FieldConfig,
+  type ViewMode,
+} from '@/components/DynamicSearch';
+
+interface UseGridUrlSyncOptions {
+  gridId: string;
+  fields: FieldConfig[];
+  viewMode?: ViewMode;
+  onViewModeChange?: (viewMode: ViewMode) => void;
+  enabled?: boolean;
+}
+
+/**
+ * Keep a grid's search (filters, view mode, page, page size and sort) in the URL query string
+ * so results can be bookmarked and shared.
+ *
+ * Works alongside the sessionStorage-backed gridNavigationStore: a URL that contains a search
+ * takes precedence on load and marks the grid as searched, afterwards every state change is
+ * written back to the URL.
+ *
+ * @example
+ * useGridUrlSync({ gridId: 'products-grid', fields: searchFields, viewMode, onViewModeChange: setViewMode });
+ */
+export function useGridUrlSync({
+  gridId,
+  fields,
+  viewMode,
+  onViewModeChange,
+  enabled = true,
+}: UseGridUrlSyncOptions) {
+  const { getGridState, updateGridState } = useGridNavigationStore();
+  const state = getGridState(gridId);
+
+  // Search restored from the URL - writes wait until the store reflects it,
+  // otherwise the first write would replace the shared URL with the previous session state
+  const pendingRestoreRef = useRef<string | null>(null);
+
+  // Restore from the URL once on mount
+  useEffect(() => {
+    if (!enabled) return;
+
+    const urlState = readUrlSearchState(fields);
+    if (!urlState) return;
+
+    const restored = {
+      filters: urlState.values,
+      page: urlState.page ?? 0,
+      pageSize: urlState.pageSize ?? state.pageSize,
+      sortModel: urlState.sortModel ?? [],
+    };
+    const restoredViewMode = urlState.viewMode && onViewModeChange ? urlState.viewMode : viewMode;
+
+    pendingRestoreRef.current = serializeSearchState({
+      values: restored.filters,
+      viewMode: restoredViewMode,
+      page: restored.page,
+      pageSize: restored.pageSize,
+      sortModel: restored.sortModel,
+    }, fields).toString();
+
+    updateGridState(gridId, { ...restored, hasSearched: true });
+    if (urlState.viewMode && onViewModeChange) {
+      onViewModeChange(urlState.viewMode);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, gridId]);
+
+  // Write state changes back to the URL
+  useEffect(() => {
+    if (!enabled) return;
+
+    const urlState = {
+      values: state.filters,
+      viewMode,
+      page: state.page,
+      pageSize: state.pageSize,
+      sortModel: state.sortModel,
+    };
+
+    if (pendingRestoreRef.current !== null) {
+      if (!state.hasSearched || serializeSearchState(urlState, fields).toString() !== pendingRestoreRef.current) {
+        return;
+      }
+      pendingRestoreRef.current = null;
+    }
+
+    writeUrlSearchState(state.hasSearched ? urlState : null, fields);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, state.hasSearched, state.filters, state.page, state.pageSize, state.sortModel, viewMode]);
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchAdminLocks,
+  forceReleaseLock,
+  fetchLockHistory,
+  type AdminLocksResponse,
+  type ForceReleaseInput,
+  type LockAdminActor,
+  type LockHistoryEntry,
+  type LockHistoryQuery,
+} from '@/lib/api/lockAdmin';
+
+// Query keys factory for consistent key management
+export const lockAdminKeys = {
+  all: ['lockAdmin'] as const,
+  locks: (tableName?: string) => [...lockAdminKeys.all, 'locks', tableName ?? null] as const,
+  history: (query: LockHistoryQuery) => [...lockAdminKeys.all, 'history', query] as const,
+};
+
+// Hook for every active lock, refreshed every few seconds
+export function useAdminLocks(
+  actor: LockAdminActor,
+  options?: { tableName?: string; refetchInterval?: number }
+) {
+  return useQuery<AdminLocksResponse, Error>({
+    queryKey: lockAdminKeys.locks(options?.tableName),
+    queryFn: () => fetchAdminLocks(actor, options?.tableName),
+    refetchInterval: options?.refetchInterval ?? 5000,
+  });
+}
+
+// Hook for recent lock events of a row, a table, or all tables
+export function useLockHistory(
+  query: LockHistoryQuery,
+  actor: LockAdminActor,
+  options?: { enabled?: boolean }
+) {
+  return useQuery<LockHistoryEntry[], Error>({
+    queryKey: lockAdminKeys.history(query),
+    queryFn: () => fetchLockHistory(query, actor),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+// Hook for force-releasing a lock (the release is audited in the lock history)
+export function useForceReleaseLock(actor: LockAdminActor) {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, ForceReleaseInput>({
+    mutationFn: (input) => forceReleaseLock(input, actor),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: lockAdminKeys.all });
+    },
+  });
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { LockService } from '@/lib/lockService';
+import type { RowReservationMap } from './useTableLocks';
+
+interface UseLockQueueOptions {
+  userId: string;
+  reservations: RowReservationMap; // From useTableLocks - positions are re-read whenever it changes
+  enabled?: boolean;
+}
+
+/**
+ * Hook for the rows of a table the user is waiting for ("notify me when free").
+ * `positions` are 1-based queue places by row id; `claims` are freed rows currently
+ * reserved for the user, with the time the reservation runs out.
+ *
+ * @example
+ * const { reservations } = useTableLocks('products');
+ * const queue = useLockQueue('products', { userId: currentUser, reservations });
+ * await queue.join(row.id);
+ */
+export function useLockQueue(
+  tableName: string,
+  { userId, reservations, enabled = true }: UseLockQueueOptions
+) {
+  const [positions, setPositions] = useState<Record<string, number>>({});
+
+  const refresh = useCallback(async () => {
+    const { queued } = await LockService.getQueueState(tableName, userId);
+    setPositions(Object.fromEntries(queued.map((entry) => [String(entry.rowId), entry.position])));
+  }, [tableName, userId]);
+
+  // Every reservation change moves a queue forward
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh, reservations]);
+
+  const claims = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(reservations)
+          .filter(([, reservation]) => reservation.reservedFor === userId)
+          .map(([rowId, reservation]) => [rowId, reservation.expiresAt])
+      ) as Record<string, Date>,
+    [reservations, userId]
+  );
+
+  const join = useCallback(async (rowId: string | number) => {
+    const result = await LockService.joinQueue(tableName, String(rowId), userId);
+    if (result.position !== undefined) {
+      setPositions((prev) => ({ ...prev, [String(rowId)]: result.position! }));
+    }
+    return result;
+  }, [tableName, userId]);
+
+  const leave = useCallback(async (rowId: string | number) => {
+    setPositions((prev) => {
+      const next = { ...prev };
+      delete next[String(rowId)];
+      return next;
+    });
+    return LockService.leaveQueue(tableName, String(rowId), userId);
+  }, [tableName, userId]);
+
+  return {
+    positions,
+    claims,
+    join,
+    leave,
+    refresh,
+  };
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData, type QueryClient } from '@tanstack/react-query';
 import {
   fetchProducts,
   fetchAllProducts,
@@ -8,12 +8,20 @@ import {
   createProduct,
   updateProduct,
   deleteProduct,
+  bulkUpdateProducts,
+  batchProducts,
+  isVersionConflict,
   type ProductsQueryParams,
   type AllProductsQueryParams,
   type CreateProductInput,
   type UpdateProductInput,
   type Product,
   type ProductsResponse,
+  type BulkUpdateRow,
+  type BulkUpdateResponse,
+  type BatchAction,
+  type BatchRow,
+  type BatchResponse,
 } from '@/lib/api/products';
 
 // Query keys factory for consistent key management
@@ -26,6 +34,16 @@ export const productKeys = {
   detail: (id: number) => [...productKeys.details(), id] as const,
 };
 
+// Cache updates shared by the single-product and batch mutations.
+// Callers invalidate productKeys.lists() once afterwards so lists refetch.
+const cacheUpdatedProduct = (queryClient: QueryClient, product: Product) => {
+  queryClient.setQueryData(productKeys.detail(product.id), product);
+};
+
+const cacheDeletedProduct = (queryClient: QueryClient, id: number) => {
+  queryClient.removeQueries({ queryKey: productKeys.detail(id) });
+};
+
 // Hook for fetching products list with pagination, sorting, and filtering
 export function useProducts(
   params: ProductsQueryParams,
@@ -81,14 +99,38 @@ export function useCreateProduct() {
 export function useUpdateProduct() {
   const queryClient = useQueryClient();
 
-  return useMutation<Product, Error, { id: number; data: UpdateProductInput }>({
-    mutationFn: ({ id, data }) => updateProduct(id, data),
+  // lockToken is the fencing token of the caller's row lock; lock failures reject with ApiError (409/423).
+  // version is sent as If-Match; a newer server version rejects with ApiError (412) carrying the latest record.
+  return useMutation<Product, Error, { id: number; data: UpdateProductInput; lockToken?: number; version?: number }>({
+    mutationFn: ({ id, data, lockToken, version }) => updateProduct(id, data, { lockToken, version }),
     onSuccess: (updatedProduct) => {
       // Update the specific product in cache
-      queryClient.setQueryData(productKeys.detail(updatedProduct.id), updatedProduct);
+      cacheUpdatedProduct(queryClient, updatedProduct);
       // Invalidate all product lists to refetch with updated data
       queryClient.invalidateQueries({ queryKey: productKeys.lists() });
     },
+    onError: (error, { id }) => {
+      // The conflict response already carries the latest record
+      if (isVersionConflict(error)) {
+        queryClient.setQueryData(productKeys.detail(id), error.body!.current);
+        queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+      }
+    },
+  });
+}
+
+// Hook for updating several products at once; resolves with per-row results even when some rows fail
+export function useBulkUpdateProducts() {
+  const queryClient = useQueryClient();
+
+  return useMutation<BulkUpdateResponse, Error, { rows: BulkUpdateRow[]; changes: UpdateProductInput }>({
+    mutationFn: ({ rows, changes }) => bulkUpdateProducts(rows, changes),
+    onSuccess: ({ results }) => {
+      results.forEach((result) => {
+        if (result.success) cacheUpdatedProduct(queryClient, result.product);
+      });
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
   });
 }
 
@@ -97,16 +139,34 @@ export function useDeleteProduct() {
   const queryClient = useQueryClient();
 
   return useMutation<void, Error, number>({
-    mutationFn: deleteProduct,
+    mutationFn: (id) => deleteProduct(id),
     onSuccess: (_, deletedId) => {
       // Remove the specific product from cache
-      queryClient.removeQueries({ queryKey: productKeys.detail(deletedId) });
+      cacheDeletedProduct(queryClient, deletedId);
       // Invalidate all product lists to refetch without deleted product
       queryClient.invalidateQueries({ queryKey: productKeys.lists() });
     },
   });
 }
 
+// Hook for batch delete / restore / update; resolves with per-row results even when some rows fail.
+// The results carry each product's previous values, so the caller can offer an undo.
+export function useBatchProducts() {
+  const queryClient = useQueryClient();
+
+  return useMutation<BatchResponse, Error, { action: BatchAction; rows: BatchRow[]; changes?: UpdateProductInput }>({
+    mutationFn: ({ action, rows, changes }) => batchProducts(action, rows, changes),
+    onSuccess: ({ results }, { action }) => {
+      results.forEach((result) => {
+        if (!result.success) return;
+        if (action === 'delete') cacheDeletedProduct(queryClient, result.id);
+        else cacheUpdatedProduct(queryClient, result.product);
+      });
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() });
+    },
+  });
+}
+
 // Hook for prefetching a product (useful for hover prefetch)
 export function usePrefetchProduct() {
   const queryClient = useQueryClient();
@@ -120,5 +180,18 @@ export function usePrefetchProduct() {
   };
 }
 
+// Hook for reading every matching product on demand (e.g. exporting a search that isn't displayed).
+// Shares the useAllProducts cache, so exporting the report on screen doesn't fetch it again.
+export function useFetchAllProducts() {
+  const queryClient = useQueryClient();
+
+  return (params: AllProductsQueryParams) =>
+    queryClient.fetchQuery({
+      queryKey: productKeys.allRows(params),
+      queryFn: () => fetchAllProducts(params),
+      staleTime: 1 * 60 * 1000,
+    });
+}
+
 // Re-export types for convenience
-export type { Product, ProductsQueryParams, AllProductsQueryParams, ProductsResponse, CreateProductInput, UpdateProductInput };
+export type { Product, ProductsQueryParams, AllProductsQueryParams, ProductsResponse, CreateProductInput, UpdateProductInput, BulkUpdateRow, BulkUpdateResponse, BatchAction, BatchRow, BatchResponse };
@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { LockService } from '@/lib/lockService';
+
+// 'conflict' - someone else held the row when we tried to lock it
+// 'lost'     - we held it, but it expired, was force-released or taken over
+export type RowLockStatus = 'idle' | 'acquiring' | 'held' | 'conflict' | 'lost';
+
+interface UseRowLockOptions {
+  userId: string;
+  enabled?: boolean; // Lock only while true (default: true)
+}
+
+interface RowLockState {
+  status: RowLockStatus;
+  token: number | null; // Fencing token while held - send with saves
+  lockedBy?: string; // The other holder after a conflict or loss, if known
+  lockedAt?: Date; // Our last acquire or heartbeat
+}
+
+/**
+ * Hook that holds a row lock for as long as the component is mounted (and enabled):
+ * acquires it, refreshes it on the table's heartbeat interval, and releases it on unmount
+ * or when the page unloads. A failed heartbeat, or one that returns a different fencing
+ * token, means the lock was lost in between and sets status to 'lost'.
+ *
+ * @example
+ * const rowLock = useRowLock('products', id, { userId: currentUser });
+ * await updateProduct(id, data, { lockToken: rowLock.token ?? undefined });
+ * await rowLock.release();
+ */
+export function useRowLock(
+  tableName: string,
+  rowId: string | number | null | undefined,
+  { userId, enabled = true }: UseRowLockOptions
+) {
+  const key = rowId === null || rowId === undefined || rowId === '' ? null : String(rowId);
+  const policy = useMemo(() => LockService.getLockPolicy(tableName), [tableName]);
+  const [state, setState] = useState<RowLockState>({ status: 'idle', token: null });
+  const tokenRef = useRef<number | null>(null); // Token of the lock we hold, null when not holding one
+  const liveMountRef = useRef<{ lockKey: string } | null>(null); // The mount that holds the lock
+
+  const markLost = useCallback((lockedBy?: string) => {
+    tokenRef.current = null;
+    setState({ status: 'lost', token: null, lockedBy });
+  }, []);
+
+  // Acquire, or refresh if we already hold it. Resolves to the fencing token, or null on a conflict.
+  const acquire = useCallback(async (): Promise<number | null> => {
+    if (!key) return null;
+
+    setState((prev) => ({ ...prev, status: 'acquiring' }));
+    const result = await LockService.acquireLock(tableName, key, userId);
+
+    if (!result.success || result.token === undefined) {
+      tokenRef.current = null;
+      setState({ status: 'conflict', token: null, lockedBy: result.lockedBy });
+      return null;
+    }
+
+    tokenRef.current = result.token;
+    setState({ status: 'held', token: result.token, lockedAt: result.lockedAt });
+    return result.token;
+  }, [tableName, key, userId]);
+
+  // Release if held. Safe to call more than once, and after the lock was lost.
+  const release = useCallback(async () => {
+    if (!key || tokenRef.current === null) return;
+
+    tokenRef.current = null;
+    setState({ status: 'idle', token: null });
+    await LockService.releaseLock(tableName, key, userId);
+  }, [tableName, key, userId]);
+
+  // Lock on mount, release on unmount
+  useEffect(() => {
+    if (!enabled || !key) return;
+
+    // This mount, while it is the live one. Release is by user, not token, so a mount that goes
+    // away must leave the lock alone when a newer mount of the same row has taken it over -
+    // StrictMode and Fast Refresh unmount and remount straight away.
+    const mount = { lockKey: `${tableName}:${key}:${userId}` };
+    liveMountRef.current = mount;
+
+    const releaseUnlessRemounted = (token: number) => {
+      if (liveMountRef.current?.lockKey === mount.lockKey) return;
+      if (tokenRef.current === token) tokenRef.current = null;
+      LockService.releaseLock(tableName, key, userId);
+    };
+
+    acquire().then((token) => {
+      // Unmounted while acquiring - don't leave the lock behind
+      if (liveMountRef.current !== mount && token !== null) releaseUnlessRemounted(token);
+    });
+
+    return () => {
+      if (liveMountRef.current === mount) liveMountRef.current = null;
+      const token = tokenRef.current;
+      // Deferred so a remount in the same commit can claim the lock first
+      if (token !== null) setTimeout(() => releaseUnlessRemounted(token), 0);
+    };
+  }, [enabled, key, tableName, userId, acquire]);
+
+  // Heartbeat to keep the lock alive
+  useEffect(() => {
+    if (!enabled || !key || state.status !== 'held') return;
+
+    const heartbeat = setInterval(async () => {
+      const heldToken = tokenRef.current;
+      if (heldToken === null) return;
+
+      const result = await LockService.acquireLock(tableName, key, userId);
+      if (tokenRef.current !== heldToken) return; // Released in the meantime
+
+      if (result.success && result.token === heldToken) {
+        setState((prev) => ({ ...prev, lockedAt: result.lockedAt }));
+        return;
+      }
+      if (result.success) {
+        // We got a fresh lock after ours lapsed - give it back and let the user decide
+        await LockService.releaseLock(tableName, key, userId);
+      }
+      markLost(result.success ? undefined : result.lockedBy);
+    }, policy.heartbeatIntervalMs);
+
+    return () => clearInterval(heartbeat);
+  }, [enabled, key, state.status, tableName, userId, policy.heartbeatIntervalMs, markLost]);
+
+  // Release when the browser closes or reloads the page
+  useEffect(() => {
+    if (!enabled || !key) return;
+
+    const handleBeforeUnload = () => {
+      if (tokenRef.current !== null) {
+        LockService.releaseLockOnUnload(tableName, key, userId);
+      }
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [enabled, key, tableName, userId]);
+
+  return {
+    ...state,
+    isHeld: state.status === 'held',
+    policy,
+    acquire,
+    release,
+    // Report a loss detected elsewhere, e.g. a save rejected with 409/423
+    markLost,
+  };
+}
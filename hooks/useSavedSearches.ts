@@ -0,0 +1,89 @@
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  type UpdateSavedSearchInput,
+} from '@/lib/api/savedSearches';
+import type { DynamicSearchProps, SavedSearch, SearchVisibility } from '@/components/DynamicSearch';
+
+// Query keys factory for consistent key management
+export const savedSearchKeys = {
+  all: ['savedSearches'] as const,
+  list: (userId: string, context?: string) => [...savedSearchKeys.all, 'list', userId, context ?? null] as const,
+};
+
+interface UseSavedSearchesOptions {
+  currentUser: string;
+  isAdmin?: boolean;
+}
+
+// DynamicSearch props provided by useSavedSearches
+export type SavedSearchProps = Pick<
+  DynamicSearchProps,
+  'savedSearches' | 'onSave' | 'onDelete' | 'onRename' | 'onChangeVisibility' | 'currentUser' | 'searchContext' | 'isAdmin'
+>;
+
+/**
+ * Hook for persisted saved searches in one context, backed by /api/saved-searches.
+ *
+ * @example
+ * const { savedSearchProps } = useSavedSearches('products', { currentUser: 'demo_user' });
+ * <DynamicSearch fields={fields} onSearch={handleSearch} {...savedSearchProps} />
+ */
+export function useSavedSearches(
+  context: string | undefined,
+  { currentUser, isAdmin = false }: UseSavedSearchesOptions
+) {
+  const queryClient = useQueryClient();
+  const actor = { userId: currentUser, isAdmin };
+
+  const query = useQuery<SavedSearch[], Error>({
+    queryKey: savedSearchKeys.list(currentUser, context),
+    queryFn: () => fetchSavedSearches(actor, context),
+    staleTime: 1 * 60 * 1000, // 1 minute
+  });
+
+  // Other users' lists may include changed global searches, so refetch every list
+  const invalidateLists = () => queryClient.invalidateQueries({ queryKey: savedSearchKeys.all });
+
+  const saveMutation = useMutation<SavedSearch, Error, SavedSearch>({
+    // The server assigns the id and createdAt, and records the actor as createdBy
+    mutationFn: ({ id: _id, createdAt: _createdAt, createdBy: _createdBy, ...search }) =>
+      createSavedSearch({ ...search, context: search.context ?? context }, actor),
+    onSuccess: invalidateLists,
+  });
+
+  const updateMutation = useMutation<SavedSearch, Error, { id: string; changes: UpdateSavedSearchInput }>({
+    mutationFn: ({ id, changes }) => updateSavedSearch(id, changes, actor),
+    onSuccess: invalidateLists,
+  });
+
+  const deleteMutation = useMutation<void, Error, string>({
+    mutationFn: (id) => deleteSavedSearch(id, actor),
+    onSuccess: invalidateLists,
+  });
+
+  const savedSearchProps: SavedSearchProps = {
+    savedSearches: query.data ?? [],
+    onSave: (search: SavedSearch) => saveMutation.mutate(search),
+    onDelete: (searchId: string) => deleteMutation.mutate(searchId),
+    onRename: (searchId: string, name: string) => updateMutation.mutate({ id: searchId, changes: { name } }),
+    onChangeVisibility: (searchId: string, visibility: SearchVisibility) =>
+      updateMutation.mutate({ id: searchId, changes: { visibility } }),
+    currentUser,
+    searchContext: context,
+    isAdmin,
+  };
+
+  return {
+    savedSearchProps,
+    savedSearches: savedSearchProps.savedSearches ?? [],
+    isLoading: query.isLoading,
+    // Most recent failure (e.g. 403 when changing someone else's search)
+    error: query.error || saveMutation.error || updateMutation.error || deleteMutation.error,
+  };
+}
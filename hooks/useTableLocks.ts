@@ -0,0 +1,173 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { LockService } from '@/lib/lockService';
+
+export interface RowLock {
+  lockedBy: string;
+  lockedAt: Date;
+}
+
+// Locks keyed by row id
+export type RowLockMap = Record<string, RowLock>;
+
+// A freed row held for the first user in its queue
+export interface RowReservation {
+  reservedFor: string;
+  expiresAt: Date;
+}
+
+// Reservations keyed by row id
+export type RowReservationMap = Record<string, RowReservation>;
+
+// 'stream' while the SSE connection is open, 'polling' after falling back
+export type LockConnection = 'connecting' | 'stream' | 'polling';
+
+interface UseTableLocksOptions {
+  enabled?: boolean;
+  pollInterval?: number; // Used only when SSE is unavailable (default: 10 seconds)
+  maxStreamErrors?: number; // Consecutive connection errors before falling back to polling (default: 3)
+}
+
+interface ClientLock {
+  rowId: string;
+  lockedBy: string;
+  lockedAt: string | Date;
+}
+
+const toRowLock = (lock: ClientLock): RowLock => ({
+  lockedBy: lock.lockedBy,
+  lockedAt: new Date(lock.lockedAt),
+});
+
+const toLockMap = (locks: ClientLock[]): RowLockMap =>
+  Object.fromEntries(locks.map((lock) => [String(lock.rowId), toRowLock(lock)]));
+
+interface ClientReservation {
+  rowId: string;
+  reservedFor: string;
+  expiresAt: string | Date;
+}
+
+const toReservationMap = (reservations: ClientReservation[] = []): RowReservationMap =>
+  Object.fromEntries(
+    reservations.map((reservation) => [
+      String(reservation.rowId),
+      { reservedFor: reservation.reservedFor, expiresAt: new Date(reservation.expiresAt) },
+    ])
+  );
+
+/**
+ * Hook for the current row locks of a table, and the freed rows reserved for queued users,
+ * kept up to date from /api/locks/stream.
+ * Falls back to polling /api/locks/check when EventSource is missing or the stream keeps failing.
+ *
+ * `setLocks` allows optimistic updates (e.g. right after acquiring a lock); the next
+ * stream event or poll brings the map back in line with the server.
+ *
+ * @example
+ * const { locks: lockedRows, setLocks: setLockedRows } = useTableLocks('products');
+ * const lock = lockedRows[row.id];
+ */
+export function useTableLocks(
+  tableName: string,
+  { enabled = true, pollInterval = 10000, maxStreamErrors = 3 }: UseTableLocksOptions = {}
+) {
+  const [locks, setLocks] = useState<RowLockMap>({});
+  const [reservations, setReservations] = useState<RowReservationMap>({});
+  const [connection, setConnection] = useState<LockConnection>('connecting');
+
+  const refresh = useCallback(async () => {
+    const state = await LockService.getTableLockState(tableName);
+    setLocks(toLockMap(state.locks as ClientLock[]));
+    setReservations(toReservationMap(state.reservations));
+  }, [tableName]);
+
+  // Live updates over Server-Sent Events
+  useEffect(() => {
+    if (!enabled) return;
+
+    if (typeof EventSource === 'undefined') {
+      setConnection('polling');
+      return;
+    }
+
+    setConnection('connecting');
+    const source = new EventSource(`/api/locks/stream?tableName=${encodeURIComponent(tableName)}`);
+    let errors = 0;
+
+    const onLockEvent = <T = ClientLock>(handler: (data: T) => void) => (event: MessageEvent) => {
+      try {
+        handler(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Invalid lock event:', error);
+      }
+    };
+
+    const removeLock = onLockEvent((lock) => {
+      setLocks((prev) => {
+        const next = { ...prev };
+        delete next[String(lock.rowId)];
+        return next;
+      });
+    });
+
+    source.addEventListener('snapshot', (event) => {
+      errors = 0;
+      setConnection('stream');
+      try {
+        const snapshot = JSON.parse((event as MessageEvent).data);
+        setLocks(toLockMap(snapshot.locks));
+        setReservations(toReservationMap(snapshot.reservations));
+      } catch (error) {
+        console.error('Invalid lock snapshot:', error);
+      }
+    });
+    source.addEventListener('acquire', onLockEvent((lock) => {
+      setLocks((prev) => ({ ...prev, [String(lock.rowId)]: toRowLock(lock) }));
+    }));
+    source.addEventListener('release', removeLock);
+    source.addEventListener('expire', removeLock);
+    source.addEventListener('reserve', onLockEvent<ClientReservation>((reservation) => {
+      setReservations((prev) => ({ ...prev, ...toReservationMap([reservation]) }));
+    }));
+    source.addEventListener('unreserve', onLockEvent<ClientReservation>((reservation) => {
+      setReservations((prev) => {
+        const current = prev[String(reservation.rowId)];
+        // A later 'reserve' for the next user may already have replaced it
+        if (!current || current.reservedFor !== reservation.reservedFor) return prev;
+        const next = { ...prev };
+        delete next[String(reservation.rowId)];
+        return next;
+      });
+    }));
+
+    // EventSource reconnects on its own; give up after repeated failures
+    source.onerror = () => {
+      errors += 1;
+      if (source.readyState === EventSource.CLOSED || errors >= maxStreamErrors) {
+        source.close();
+        setConnection('polling');
+      }
+    };
+
+    return () => source.close();
+  }, [tableName, enabled, maxStreamErrors]);
+
+  // Polling fallback
+  useEffect(() => {
+    if (!enabled || connection !== 'polling') return;
+
+    refresh();
+    const interval = setInterval(refresh, pollInterval);
+    return () => clearInterval(interval);
+  }, [enabled, connection, pollInterval, refresh]);
+
+  return {
+    locks,
+    setLocks,
+    reservations,
+    connection,
+    refresh,
+  };
+}
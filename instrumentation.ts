@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+  // The report scheduler needs Node (fs for the outbox); REPORT_SCHEDULER=off disables it.
+  // The NEXT_RUNTIME check must wrap the imports so they stay out of the edge bundle.
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.REPORT_SCHEDULER !== 'off') {
+    const { startReportScheduler } = await import('./lib/reportSchedules');
+    const { reportSources } = await import('./app/api/report-schedules/sources');
+    startReportScheduler({ sources: reportSources });
+  }
+}
@@ -0,0 +1,11 @@
+// Who is calling - endpoints that check ownership or the admin role read it from the headers below
+export interface ApiActor {
+  userId: string;
+  isAdmin?: boolean;
+}
+
+// In production the session identifies the user; these headers stand in for it (see app/api/auth.ts)
+export const actorHeaders = (actor: ApiActor) => ({
+  'X-User-Id': actor.userId,
+  'X-User-Role': actor.isAdmin ? 'admin' : 'user',
+});
@@ -0,0 +1,22 @@
+/**
+ * Error thrown by API client functions when the server rejects a request.
+ * Keeps the HTTP status and the response body so callers can react to specific failures
+ * (e.g. a lost row lock) instead of only showing the message.
+ */
+export class ApiError<TBody = any> extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public body?: TBody
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Build an ApiError from a failed response, using the JSON body's message/code when present
+export async function toApiError(response: Response, fallbackMessage: string): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  return new ApiError(body.message || fallbackMessage, response.status, body.code, body);
+}
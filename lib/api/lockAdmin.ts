@@ -0,0 +1,76 @@
+import type { LockStatus, LockHistoryEntry, LockHistoryQuery } from '@/lib/locks';
+import { actorHeaders } from './auth';
+
+export type { LockStatus, LockHistoryEntry, LockHistoryQuery };
+
+// Identity sent with every request - the admin endpoints require the admin role
+export interface LockAdminActor {
+  userId: string;
+  isAdmin?: boolean;
+}
+
+export interface AdminLocksResponse {
+  locks: LockStatus[];
+  serverTime: string;
+}
+
+export interface ForceReleaseInput {
+  tableName: string;
+  rowId: string;
+  reason?: string;
+}
+
+// API client functions
+const API_BASE = '/api/locks/admin';
+
+export async function fetchAdminLocks(actor: LockAdminActor, tableName?: string): Promise<AdminLocksResponse> {
+  const params = new URLSearchParams();
+  if (tableName) params.set('tableName', tableName);
+
+  const response = await fetch(`${API_BASE}?${params.toString()}`, {
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch locks');
+  }
+
+  return response.json();
+}
+
+export async function forceReleaseLock(input: ForceReleaseInput, actor: LockAdminActor): Promise<void> {
+  const response = await fetch(`${API_BASE}/release`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...actorHeaders(actor) },
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to release lock');
+  }
+}
+
+export async function fetchLockHistory(query: LockHistoryQuery, actor: LockAdminActor): Promise<LockHistoryEntry[]> {
+  const params = new URLSearchParams(
+    Object.entries(query)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)])
+  );
+
+  const response = await fetch(`${API_BASE}/history?${params.toString()}`, {
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch lock history');
+  }
+
+  const data = await response.json();
+  return data.events;
+}
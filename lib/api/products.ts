@@ -1,3 +1,6 @@
+import type { FilterCondition } from '@/components/DynamicSearch/types';
+import { ApiError, toApiError } from './errors';
+
 // Product types
 export interface Product {
   id: number;
@@ -9,19 +12,32 @@ export interface Product {
   description: string;
   createdAt: string;
   updatedAt: string;
+  version: number; // Incremented on every update; GET returns it as the ETag
+  deletedAt?: string; // Only on soft-deleted products (batch and restore responses)
+}
+
+export type FilterValue = string | number | FilterCondition;
+
+export interface ProductSort {
+  field: string;
+  sort: 'asc' | 'desc';
 }
 
 export interface ProductsQueryParams {
   page: number;
   pageSize: number;
-  sortField?: string;
+  sort?: ProductSort[]; // Sorted in order; ties fall back to id
+  sortField?: string; // Single-column shorthand, ignored when sort is set
   sortOrder?: 'asc' | 'desc';
-  search?: string;
-  category?: string;
-  status?: string;
-  priceRange?: string;
-  dateFrom?: string;
-  dateTo?: string;
+  // Filters are plain values or { op, value } conditions from operator fields
+  search?: FilterValue;
+  category?: FilterValue;
+  status?: FilterValue;
+  price?: FilterValue;
+  stock?: FilterValue;
+  priceRange?: FilterValue;
+  dateFrom?: FilterValue;
+  dateTo?: FilterValue;
 }
 
 // Params for fetching all products (no pagination fields)
@@ -46,6 +62,79 @@ export interface CreateProductInput {
 
 export interface UpdateProductInput extends Partial<CreateProductInput> {}
 
+export interface UpdateProductOptions {
+  lockToken?: number; // Fencing token from LockService.acquireLock
+  version?: number; // Version the edit started from - sent as If-Match
+}
+
+// Error codes returned by PUT /api/products/[id] when the row lock is missing, no longer ours or held by someone else
+export type LockErrorCode = 'LOCK_REQUIRED' | 'LOCK_EXPIRED' | 'LOCK_LOST' | 'LOCKED';
+
+// Body of the 412 returned when If-Match no longer matches
+export interface VersionConflictBody {
+  message: string;
+  code: 'VERSION_CONFLICT';
+  current: Product; // The server's latest record
+}
+
+// One row of a bulk update: the product and how the caller holds it (like UpdateProductOptions)
+export interface BulkUpdateRow extends UpdateProductOptions {
+  id: number;
+}
+
+export type BulkUpdateResult =
+  | { id: number; success: true; product: Product }
+  | { id: number; success: false; status: number; code?: LockErrorCode | 'VERSION_CONFLICT'; message: string; lockedBy?: string };
+
+export interface BulkUpdateResponse {
+  results: BulkUpdateResult[]; // In the order the rows were sent
+  updated: number;
+  failed: number;
+}
+
+export const isVersionConflict = (error: unknown): error is ApiError<VersionConflictBody> =>
+  error instanceof ApiError && error.status === 412 && !!error.body?.current;
+
+// Actions of POST /api/products/batch. Deletes are soft - 'restore' undoes them.
+export type BatchAction = 'delete' | 'restore' | 'update';
+
+export interface BatchRow extends UpdateProductOptions {
+  id: number;
+  changes?: UpdateProductInput; // 'update' only - overrides the shared changes for this row
+}
+
+export type BatchResult =
+  | { id: number; success: true; product: Product; previous: Product } // previous: before the action, for undo
+  | { id: number; success: false; status: number; code?: LockErrorCode | 'VERSION_CONFLICT'; message: string };
+
+export interface BatchResponse {
+  results: BatchResult[]; // In the order the rows were sent
+  succeeded: number;
+  failed: number;
+}
+
+export type ProductExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface ProductExportProgress {
+  bytes: number; // Received so far
+  rows: number; // Received so far (estimated from line breaks for csv, json and ndjson)
+  total: number; // Rows in the export (X-Total-Count)
+}
+
+export interface ProductExportOptions {
+  format: ProductExportFormat;
+  columns?: string[]; // "id" or "id:Label" entries (default: every field)
+  title?: string; // Used for the file name
+  signal?: AbortSignal; // Abort to cancel the download
+  onProgress?: (progress: ProductExportProgress) => void;
+}
+
+export interface ProductExportFile {
+  blob: Blob;
+  fileName: string;
+  total: number;
+}
+
 // API client functions
 const API_BASE = '/api/products';
 
@@ -112,25 +201,71 @@ export async function createProduct(input: CreateProductInput): Promise<Product>
   return response.json();
 }
 
-export async function updateProduct(id: number, input: UpdateProductInput): Promise<Product> {
+// Needs a lock token, a version, or both. Throws ApiError with a LockErrorCode (409/423)
+// when the lock token is missing or stale, and a VersionConflictBody (412) when the version is outdated.
+export async function updateProduct(
+  id: number,
+  input: UpdateProductInput,
+  { lockToken, version }: UpdateProductOptions = {}
+): Promise<Product> {
   const response = await fetch(`${API_BASE}/${id}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...(lockToken !== undefined && { 'X-Lock-Token': String(lockToken) }),
+      ...(version !== undefined && { 'If-Match': `"${version}"` }),
+    },
     credentials: 'include',
     body: JSON.stringify(input),
   });
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({}));
-    throw new Error(error.message || 'Failed to update product');
+    throw await toApiError(response, 'Failed to update product');
   }
 
   return response.json();
 }
 
-export async function deleteProduct(id: number): Promise<void> {
+// Apply the same changes to several products. Rows are checked one by one, like updateProduct -
+// a rejected row doesn't stop the others, so check each result.
+export async function bulkUpdateProducts(rows: BulkUpdateRow[], changes: UpdateProductInput): Promise<BulkUpdateResponse> {
+  const response = await fetch(`${API_BASE}/bulk`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ rows, changes }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to update products');
+  }
+
+  return response.json();
+}
+
+// Run one action on several products. Each row succeeds or fails on its own, so check each result.
+// 'update' rows need a lock token or a version, like updateProduct.
+export async function batchProducts(action: BatchAction, rows: BatchRow[], changes?: UpdateProductInput): Promise<BatchResponse> {
+  const response = await fetch(`${API_BASE}/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ action, rows, changes }),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to update products');
+  }
+
+  return response.json();
+}
+
+// Soft delete - a 'restore' batch (see batchProducts) brings the product back.
+// Refused (423) while someone else holds the row lock; send lockToken when the caller holds it.
+export async function deleteProduct(id: number, { lockToken }: Pick<UpdateProductOptions, 'lockToken'> = {}): Promise<void> {
   const response = await fetch(`${API_BASE}/${id}`, {
     method: 'DELETE',
+    headers: lockToken !== undefined ? { 'X-Lock-Token': String(lockToken) } : undefined,
     credentials: 'include',
   });
 
@@ -139,3 +274,51 @@ export async function deleteProduct(id: number): Promise<void> {
     throw new Error(error.message || 'Failed to delete product');
   }
 }
+
+// Server-side export of every matching product, read as a stream so progress can be reported.
+// Aborting options.signal cancels the download (the promise rejects with an AbortError).
+export async function exportProducts(
+  params: AllProductsQueryParams,
+  { format, columns, title, signal, onProgress }: ProductExportOptions
+): Promise<ProductExportFile> {
+  const response = await fetch(`${API_BASE}/export`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ ...params, format, columns, title }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to export products');
+  }
+
+  const total = Number(response.headers.get('X-Total-Count')) || 0;
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] || `products.${format}`;
+  const chunks: Uint8Array[] = [];
+  const progress: ProductExportProgress = { bytes: 0, rows: 0, total };
+
+  if (response.body) {
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      progress.bytes += value.length;
+      // Text formats carry one row per line (after the csv header / json opening bracket)
+      if (format !== 'xlsx') {
+        progress.rows = Math.min(total, progress.rows + value.reduce((lines, byte) => lines + (byte === 10 ? 1 : 0), 0));
+      }
+      onProgress?.({ ...progress });
+    }
+  }
+
+  if (format === 'xlsx') progress.rows = total;
+  onProgress?.({ ...progress });
+
+  return {
+    blob: new Blob(chunks as BlobPart[], { type: response.headers.get('Content-Type') || 'application/octet-stream' }),
+    fileName,
+    total,
+  };
+}
@@ -0,0 +1,115 @@
+import type { ReportSchedule } from '@/components/DynamicSearch/types';
+import { actorHeaders, type ApiActor } from './auth';
+import { toApiError } from './errors';
+
+export interface CreateReportScheduleInput {
+  savedSearchId: string;
+  cron: string; // e.g. "0 8 * * MON"
+  format: ReportSchedule['format'];
+  recipients: string[];
+  title?: string;
+  enabled?: boolean;
+}
+
+export type UpdateReportScheduleInput = Partial<Pick<ReportSchedule, 'cron' | 'format' | 'recipients' | 'title' | 'enabled'>>;
+
+export interface ReportScheduleRun {
+  schedule: ReportSchedule;
+  fileName: string;
+  rowCount: number;
+}
+
+// API client functions - each sends the actor's identity headers; the API lets only the owner
+// of a schedule or an admin see and change it
+const API_BASE = '/api/report-schedules';
+
+export async function fetchReportSchedules(actor: ApiActor, savedSearchId?: string): Promise<ReportSchedule[]> {
+  const params = new URLSearchParams();
+  if (savedSearchId) params.set('savedSearchId', savedSearchId);
+
+  const response = await fetch(`${API_BASE}?${params.toString()}`, {
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to fetch report schedules');
+  }
+
+  return response.json();
+}
+
+export async function fetchReportSchedule(id: string, actor: ApiActor): Promise<ReportSchedule> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to fetch report schedule');
+  }
+
+  return response.json();
+}
+
+// The schedule belongs to the actor
+export async function createReportSchedule(input: CreateReportScheduleInput, actor: ApiActor): Promise<ReportSchedule> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...actorHeaders(actor) },
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to create report schedule');
+  }
+
+  return response.json();
+}
+
+export async function updateReportSchedule(
+  id: string,
+  input: UpdateReportScheduleInput,
+  actor: ApiActor
+): Promise<ReportSchedule> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...actorHeaders(actor) },
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to update report schedule');
+  }
+
+  return response.json();
+}
+
+export async function deleteReportSchedule(id: string, actor: ApiActor): Promise<void> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to delete report schedule');
+  }
+}
+
+// Deliver a scheduled report now (e.g. to check it before the first scheduled run)
+export async function runReportSchedule(id: string, actor: ApiActor): Promise<ReportScheduleRun> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}/run`, {
+    method: 'POST',
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response, 'Failed to run report schedule');
+  }
+
+  return response.json();
+}
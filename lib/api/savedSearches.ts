@@ -0,0 +1,82 @@
+import type { SavedSearch, SearchVisibility } from '@/components/DynamicSearch/types';
+import { actorHeaders, type ApiActor } from './auth';
+
+// The search belongs to the actor it is created by
+export type CreateSavedSearchInput = Omit<SavedSearch, 'id' | 'createdAt' | 'createdBy'>;
+
+export interface UpdateSavedSearchInput {
+  name?: string;
+  visibility?: SearchVisibility;
+  description?: string;
+}
+
+// API client functions - each sends the actor's identity headers; the API applies the same
+// owner/admin rules as DynamicSearch
+const API_BASE = '/api/saved-searches';
+
+export async function fetchSavedSearches(actor: ApiActor, context?: string): Promise<SavedSearch[]> {
+  const params = new URLSearchParams();
+  if (context) {
+    params.set('context', context);
+  }
+
+  const response = await fetch(`${API_BASE}?${params.toString()}`, {
+    headers: actorHeaders(actor),
+    credentials: 'include', // Include cookies for authentication
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch saved searches: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+export async function createSavedSearch(input: CreateSavedSearchInput, actor: ApiActor): Promise<SavedSearch> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...actorHeaders(actor) },
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to save search');
+  }
+
+  return response.json();
+}
+
+export async function updateSavedSearch(
+  id: string,
+  input: UpdateSavedSearchInput,
+  actor: ApiActor
+): Promise<SavedSearch> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...actorHeaders(actor) },
+    credentials: 'include',
+    body: JSON.stringify(input),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to update saved search');
+  }
+
+  return response.json();
+}
+
+export async function deleteSavedSearch(id: string, actor: ApiActor): Promise<void> {
+  const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: actorHeaders(actor),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Failed to delete saved search');
+  }
+}
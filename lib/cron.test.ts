@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { CronError, nextCronRun, parseCron } from './cron';
+
+// Cron runs in server local time, so the dates here are built in local time too
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+const sorted = (values: Set<number>) => [...values].sort((a, b) => a - b);
+
+describe('parseCron', () => {
+  it('expands ranges, steps, lists and names', () => {
+    const schedule = parseCron('0-10/5 8-18/4 1,15 JAN-MAR MON-FRI');
+
+    expect(sorted(schedule.minutes)).toEqual([0, 5, 10]);
+    expect(sorted(schedule.hours)).toEqual([8, 12, 16]);
+    expect(sorted(schedule.days)).toEqual([1, 15]);
+    expect(sorted(schedule.months)).toEqual([1, 2, 3]);
+    expect(sorted(schedule.weekdays)).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule).toMatchObject({ anyDay: false, anyWeekday: false });
+  });
+
+  it('runs a step from a single value to the end of the field', () => {
+    expect(sorted(parseCron('5/15 * * * *').minutes)).toEqual([5, 20, 35, 50]);
+    expect(sorted(parseCron('*/20 * * * *').minutes)).toEqual([0, 20, 40]);
+  });
+
+  it('treats 7 as Sunday and accepts macros', () => {
+    expect(sorted(parseCron('0 0 * * 5-7').weekdays)).toEqual([0, 5, 6]);
+    expect(parseCron('@weekly')).toEqual(parseCron('0 0 * * 0'));
+  });
+
+  it.each([
+    ['* * * *', /5 fields/],
+    ['60 * * * *', /Invalid minute "60"/],
+    ['* 24 * * *', /Invalid hour "24"/],
+    ['* * 0 * *', /Invalid day of month "0"/],
+    ['* * * FOO *', /Invalid month "FOO"/],
+    ['*/0 * * * *', /Invalid step "0"/],
+    ['5-1 * * * *', /Invalid minute range "5-1"/],
+    ['1.5 * * * *', /Invalid minute/],
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronError);
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute after the given time', () => {
+    expect(nextCronRun('0 8 * * MON', at(2024, 5, 1, 12))).toEqual(at(2024, 5, 6, 8));
+    expect(nextCronRun('*/15 * * * *', new Date(2024, 4, 1, 10, 15, 30))).toEqual(at(2024, 5, 1, 10, 30));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 10th or any Friday - Sunday 1 Sep 2024 is followed by Fri 6, Tue 10 and Fri 13
+    const expression = '0 0 10 * FRI';
+    const first = nextCronRun(expression, at(2024, 9, 1));
+    const second = nextCronRun(expression, first!);
+    const third = nextCronRun(expression, second!);
+
+    expect([first, second, third]).toEqual([at(2024, 9, 6), at(2024, 9, 10), at(2024, 9, 13)]);
+  });
+
+  it('matches only the restricted day field when the other is *', () => {
+    expect(nextCronRun('0 0 * * SUN', at(2024, 9, 2))).toEqual(at(2024, 9, 8));
+    expect(nextCronRun('0 0 10 * *', at(2024, 9, 2))).toEqual(at(2024, 9, 10));
+  });
+
+  it('rolls over into months and years that have the day', () => {
+    expect(nextCronRun('30 23 31 * *', at(2024, 4, 1))).toEqual(at(2024, 5, 31, 23, 30));
+    expect(nextCronRun('0 0 1 1 *', at(2024, 6, 15))).toEqual(at(2025, 1, 1));
+    expect(nextCronRun('0 0 29 2 *', at(2025, 3, 1))).toEqual(at(2028, 2, 29));
+    expect(nextCronRun('59 23 * * *', at(2024, 12, 31, 23, 59))).toEqual(at(2025, 1, 1, 23, 59));
+  });
+
+  it('returns null for an expression that never matches', () => {
+    expect(nextCronRun('0 0 30 2 *', at(2024, 1, 1))).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+// Standard 5-field cron expressions: minute hour day-of-month month day-of-week.
+// Fields accept *, lists (1,15), ranges (1-5), steps (*/15, 8-18/2) and names (MON, JAN).
+
+/**
+ * Thrown for cron expressions that can't be parsed.
+ * Routes answer these with 400.
+ */
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>; // Day of the month, 1-31
+  months: Set<number>; // 1-12
+  weekdays: Set<number>; // 0-6, Sunday = 0
+  anyDay: boolean; // Day-of-month field is *
+  anyWeekday: boolean; // Day-of-week field is *
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // Names for min, min + 1, ...
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES }, // 7 is Sunday too
+];
+
+const parseValue = (text: string, spec: FieldSpec): number => {
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = nameIndex >= 0 ? spec.min + nameIndex : /^\d+$/.test(text) ? Number(text) : NaN;
+  if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+    throw new CronError(`Invalid ${spec.name} "${text}" (expected ${spec.min}-${spec.max})`);
+  }
+  return value;
+};
+
+const parseField = (field: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`Invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [spec.min, spec.max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [parseValue(from, spec), parseValue(to, spec)];
+      if (start > end) throw new CronError(`Invalid ${spec.name} range "${range}"`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" runs from 5 to the end of the field
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+/**
+ * Parse a cron expression, or one of @yearly, @monthly, @weekly, @daily and @hourly.
+ * @throws CronError for anything else
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError(`Cron expression must have 5 fields (minute hour day month weekday), got "${expression}"`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === '*', anyWeekday: fields[4] === '*' };
+}
+
+// Like cron, a date matches when either day field matches if both are restricted
+const dayMatches = (schedule: CronSchedule, date: Date): boolean => {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+};
+
+const MAX_YEARS_AHEAD = 5;
+
+/**
+ * The first time after `after` (exclusive, to the minute) that the expression matches, in server
+ * local time. Returns null when it never matches, e.g. "0 0 30 2 *".
+ *
+ * @example
+ * nextCronRun('0 8 * * MON', new Date('2024-05-01T12:00')); // Mon May 06 2024 08:00
+ */
+export function nextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date | null {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const lastYear = date.getFullYear() + MAX_YEARS_AHEAD;
+
+  // Skip a whole month, day or hour at a time when it can't match
+  while (date.getFullYear() <= lastYear) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,18 @@
+// ETags for versioned records (optimistic concurrency with If-Match)
+
+/**
+ * Strong ETag for a record version, e.g. `"3"`.
+ */
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * Check an If-Match header against the record's current version.
+ * Accepts `*`, comma-separated lists and weak tags (`W/"3"`).
+ */
+export const ifMatchSatisfied = (ifMatch: string, version: number): boolean => {
+  const current = toETag(version);
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === current);
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilters, matchesCondition, toFilterCondition, type FilterDefinitions } from './filterEngine';
+import { isIncompleteCondition } from '@/components/DynamicSearch/filterOperators';
+import type { FilterCondition } from '@/components/DynamicSearch/types';
+
+const rows = [{ price: 5 }, { price: 40 }, { price: 90 }];
+const definitions: FilterDefinitions<{ price: number }> = {
+  price: { accessor: (row) => row.price, type: 'number' },
+  priceRange: { accessor: (row) => row.price, type: 'number', defaultOp: 'between' },
+};
+
+describe('between conditions', () => {
+  // The search form and URL serializer drop what isIncompleteCondition rejects, so the engine must ignore exactly those
+  it.each<[string, FilterCondition]>([
+    ['tuple', { op: 'between', value: [10, 50] }],
+    ['min only', { op: 'between', value: [10, ''] }],
+    ['max only', { op: 'between', value: ['', 50] }],
+    ['no bounds', { op: 'between', value: ['', ''] }],
+    ['"min-max" string', { op: 'between', value: '10-50' }],
+    ['single number', { op: 'between', value: 10 }],
+  ])('agrees with isIncompleteCondition for a %s', (_, condition) => {
+    const filtered = applyFilters(rows, { price: condition }, definitions);
+    if (isIncompleteCondition(condition)) {
+      expect(toFilterCondition(condition)).toBeNull();
+      expect(filtered).toEqual(rows);
+      expect(rows.every((row) => matchesCondition(row.price, condition, 'number'))).toBe(true);
+    } else {
+      expect(toFilterCondition(condition)).toEqual(condition);
+      expect(filtered.length).toBeLessThan(rows.length);
+    }
+  });
+
+  it('turns plain "min-max" values of a between field into a tuple', () => {
+    expect(toFilterCondition('10-50', 'between', 'number')).toEqual({ op: 'between', value: ['10', '50'] });
+    expect(applyFilters(rows, { priceRange: '10-50' }, definitions)).toEqual([{ price: 40 }]);
+    expect(applyFilters(rows, { priceRange: '30' }, definitions)).toEqual([{ price: 40 }, { price: 90 }]);
+  });
+});
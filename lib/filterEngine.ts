@@ -0,0 +1,163 @@
+import dayjs from 'dayjs';
+import { isFilterCondition, isIncompleteCondition } from '@/components/DynamicSearch/filterOperators';
+import type { FilterCondition, FilterOperator } from '@/components/DynamicSearch/types';
+
+export type FilterValueType = 'string' | 'number' | 'date';
+
+export interface FilterFieldDefinition<T> {
+  // Value(s) to test - when an array is returned the row matches if any item matches
+  accessor: (row: T) => any;
+  type?: FilterValueType; // How values are compared (default: 'string')
+  defaultOp?: FilterOperator; // Operator applied to plain (non { op, value }) values (default: 'equals')
+}
+
+export type FilterDefinitions<T> = Record<string, FilterFieldDefinition<T>>;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isBlank = (value: any): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Convert to a comparable number (numbers and dates) or lower-cased string
+const toComparable = (value: any, type: FilterValueType): number | string => {
+  if (type === 'number') return Number(value);
+  if (type === 'date') return dayjs(value).valueOf();
+  return String(value).toLowerCase();
+};
+
+// Date-only bounds cover the whole day: "<= 2024-01-31" includes everything created on the 31st
+const toDateBound = (value: any, edge: 'start' | 'end'): number => {
+  const date = dayjs(value);
+  if (typeof value === 'string' && DATE_ONLY.test(value)) {
+    return (edge === 'start' ? date.startOf('day') : date.endOf('day')).valueOf();
+  }
+  return date.valueOf();
+};
+
+const compareBound = (
+  rowValue: any,
+  bound: any,
+  type: FilterValueType,
+  op: 'gt' | 'gte' | 'lt' | 'lte'
+): boolean => {
+  const actual = toComparable(rowValue, type);
+  const expected = type === 'date'
+    ? toDateBound(bound, op === 'gt' || op === 'lte' ? 'end' : 'start')
+    : toComparable(bound, type);
+
+  if (typeof actual === 'number' && (isNaN(actual) || isNaN(expected as number))) return false;
+
+  switch (op) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+  }
+};
+
+const isEqual = (rowValue: any, expected: any, type: FilterValueType): boolean => {
+  if (type === 'date') return dayjs(rowValue).isSame(dayjs(expected), 'day');
+  return toComparable(rowValue, type) === toComparable(expected, type);
+};
+
+// Between takes [min, max] (either bound may be empty) - the only form isIncompleteCondition accepts.
+// Plain "min-max" strings are turned into it by toFilterCondition.
+const toRange = (value: any): [any, any] => (Array.isArray(value) ? [value[0], value[1]] : [undefined, undefined]);
+
+const matchesValue = (rowValue: any, condition: FilterCondition, type: FilterValueType): boolean => {
+  const { op, value } = condition;
+
+  if (op === 'isEmpty') return isBlank(rowValue);
+  if (isBlank(rowValue)) return false;
+
+  switch (op) {
+    case 'equals':
+      return isEqual(rowValue, value, type);
+    case 'contains':
+      return String(rowValue).toLowerCase().includes(String(value).toLowerCase());
+    case 'startsWith':
+      return String(rowValue).toLowerCase().startsWith(String(value).toLowerCase());
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareBound(rowValue, value, type, op);
+    case 'between': {
+      const [min, max] = toRange(value);
+      return (isBlank(min) || compareBound(rowValue, min, type, 'gte')) &&
+        (isBlank(max) || compareBound(rowValue, max, type, 'lte'));
+    }
+    case 'in':
+    case 'notIn':
+      return (Array.isArray(value) ? value : [value]).some((item) => isEqual(rowValue, item, type));
+  }
+};
+
+/**
+ * Test a row value (or list of values) against a condition.
+ * Positive operators match when any value matches; `notIn` requires that none do.
+ */
+export const matchesCondition = (
+  rowValue: any,
+  condition: FilterCondition,
+  type: FilterValueType = 'string'
+): boolean => {
+  const values = Array.isArray(rowValue) ? rowValue : [rowValue];
+
+  if (condition.op === 'notIn') {
+    return !values.some((item) => matchesValue(item, { ...condition, op: 'in' }, type));
+  }
+  if (condition.op === 'isEmpty') {
+    return values.every((item) => matchesValue(item, condition, type));
+  }
+  return values.some((item) => matchesValue(item, condition, type));
+};
+
+/**
+ * Normalize a submitted filter value into a condition.
+ * Plain values use the definition's default operator; empty or incomplete values return null.
+ * A plain "min-max" string for a number field with the `between` default becomes [min, max]
+ * (e.g. a price range option).
+ */
+export const toFilterCondition = (
+  value: any,
+  defaultOp: FilterOperator = 'equals',
+  type: FilterValueType = 'string'
+): FilterCondition | null => {
+  if (isFilterCondition(value)) {
+    return isIncompleteCondition(value) ? null : value;
+  }
+  if (isBlank(value)) return null;
+  if (defaultOp === 'between') {
+    const range = Array.isArray(value)
+      ? value
+      : type === 'number' && typeof value === 'string' && value.includes('-') ? value.split('-') : [value];
+    return toFilterCondition({ op: 'between', value: [range[0], range[1]] });
+  }
+  return { op: defaultOp, value };
+};
+
+/**
+ * Filter rows by submitted search values. Only keys with a definition are applied,
+ * so pagination, sorting and unknown fields in the same payload are ignored.
+ *
+ * @example
+ * applyFilters(products, { search: { op: 'startsWith', value: 'Pro' }, priceRange: '0-50' }, productQuerySchema.filters);
+ */
+export const applyFilters = <T>(
+  rows: T[],
+  filters: Record<string, any>,
+  definitions: FilterDefinitions<T>
+): T[] => {
+  const active = Object.entries(definitions)
+    .map(([key, definition]) => ({ definition, condition: toFilterCondition(filters[key], definition.defaultOp, definition.type) }))
+    .filter((entry): entry is { definition: FilterFieldDefinition<T>; condition: FilterCondition } => entry.condition !== null);
+
+  if (active.length === 0) return [...rows];
+
+  return rows.filter((row) =>
+    active.every(({ definition, condition }) =>
+      matchesCondition(definition.accessor(row), condition, definition.type)
+    )
+  );
+};
@@ -1,3 +1,7 @@
+import { getLockPolicy, type LockPolicy } from '@/lib/locks/policies';
+
+export type { LockPolicy };
+
 export interface Lock {
   rowId: string;
   lockedBy: string;
@@ -9,12 +13,50 @@ export interface LockAcquireResult {
   error?: string;
   lockedBy?: string;
   lockedAt?: Date;
+  token?: number; // Fencing token, present on success - unchanged while the same lock is refreshed
+  reservedUntil?: Date; // Set when the row is free but reserved for the user first in its queue (lockedBy)
+}
+
+export interface BatchLockResult {
+  success: boolean;
+  error?: string;
+  tokens?: Record<string, number>; // Fencing token by row id, on success
+  acquired?: string[]; // Rows this call newly locked, on success - the rest were already held by the user and only refreshed
+  conflicts?: Array<{ rowId: string; lockedBy: string; lockedAt?: Date; reservedUntil?: Date }>; // Rows that blocked the batch
+}
+
+// A freed row held for the first user in its queue
+export interface Reservation {
+  rowId: string;
+  reservedFor: string;
+  expiresAt: Date;
+}
+
+export interface QueueJoinResult {
+  success: boolean;
+  error?: string;
+  position?: number; // 1-based; absent when the row was already reserved for the user
+  reservedUntil?: Date;
+}
+
+export interface UserQueueState {
+  queued: Array<{ rowId: string; position: number }>;
+  reserved: Array<{ rowId: string; expiresAt: Date }>;
 }
 
 /**
  * Service for managing database-level row locks
  */
 export class LockService {
+  /**
+   * Lock policy for a table (timeout, heartbeat interval, max hold time, admin rights)
+   * @param tableName - The table name
+   * @returns The table's policy, or the default policy
+   */
+  static getLockPolicy(tableName: string): LockPolicy {
+    return getLockPolicy(tableName);
+  }
+
   /**
    * Acquire a lock on a row
    * @param tableName - The table name (e.g., 'products')
@@ -40,14 +82,16 @@ export class LockService {
         return {
           success: false,
           error: data.error || 'Failed to acquire lock',
-          lockedBy: data.lockedBy
+          lockedBy: data.lockedBy,
+          reservedUntil: data.reservedUntil ? new Date(data.reservedUntil) : undefined
         };
       }
 
       return {
         success: true,
         lockedBy: data.lockedBy,
-        lockedAt: new Date(data.lockedAt)
+        lockedAt: new Date(data.lockedAt),
+        token: data.token
       };
     } catch (error: any) {
       console.error('Lock acquisition error:', error);
@@ -58,6 +102,88 @@ export class LockService {
     }
   }
 
+  /**
+   * Acquire locks on several rows in one atomic batch: either every row is locked,
+   * or none is and `conflicts` lists the rows held by (or reserved for) other users
+   * @param tableName - The table name
+   * @param rowIds - The row IDs to lock
+   * @param userId - The user requesting the locks
+   * @returns Batch lock result
+   */
+  static async acquireLocks(
+    tableName: string,
+    rowIds: string[],
+    userId: string
+  ): Promise<BatchLockResult> {
+    try {
+      const response = await fetch('/api/locks/batch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tableName, rowIds, userId })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || 'Failed to acquire locks',
+          conflicts: (data.conflicts || []).map((conflict: any) => ({
+            rowId: conflict.rowId,
+            lockedBy: conflict.lockedBy,
+            lockedAt: conflict.lockedAt ? new Date(conflict.lockedAt) : undefined,
+            reservedUntil: conflict.reservedUntil ? new Date(conflict.reservedUntil) : undefined
+          }))
+        };
+      }
+
+      return {
+        success: true,
+        tokens: Object.fromEntries(data.locks.map((lock: any) => [lock.rowId, lock.token])),
+        acquired: data.locks.filter((lock: any) => !lock.refreshed).map((lock: any) => lock.rowId)
+      };
+    } catch (error: any) {
+      console.error('Batch lock acquisition error:', error);
+      return {
+        success: false,
+        error: error.message || 'Network error'
+      };
+    }
+  }
+
+  /**
+   * Release the user's locks on several rows
+   * @param tableName - The table name
+   * @param rowIds - The row IDs to unlock
+   * @param userId - The user releasing the locks
+   * @param tokens - Optional fencing token by row id; a row is released only while its lock still carries that token
+   * @returns True if the request succeeded
+   */
+  static async releaseLocks(
+    tableName: string,
+    rowIds: string[],
+    userId: string,
+    tokens?: Record<string, number>
+  ): Promise<boolean> {
+    try {
+      const response = await fetch('/api/locks/batch', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tableName, rowIds, userId, tokens })
+      });
+
+      if (!response.ok) {
+        console.error('Failed to release locks:', await response.text());
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Batch lock release error:', error);
+      return false;
+    }
+  }
+
   /**
    * Release a lock on a row
    * @param tableName - The table name
@@ -89,6 +215,18 @@ export class LockService {
     }
   }
 
+  /**
+   * Release a lock while the page is unloading. Uses sendBeacon, which the browser
+   * delivers even after the page is gone (fetch requests may be cancelled).
+   * @param tableName - The table name
+   * @param rowId - The row ID to unlock
+   * @param userId - The user releasing the lock
+   * @returns True if the request was queued
+   */
+  static releaseLockOnUnload(tableName: string, rowId: string, userId: string): boolean {
+    return navigator.sendBeacon('/api/locks/release', JSON.stringify({ tableName, rowId, userId }));
+  }
+
   /**
    * Check if a specific row is locked
    * @param tableName - The table name
@@ -138,6 +276,133 @@ export class LockService {
     }
   }
 
+  /**
+   * Get all locks for a table together with the rows reserved for queued users
+   * @param tableName - The table name
+   * @returns Active locks and reservations
+   */
+  static async getTableLockState(tableName: string): Promise<{ locks: Lock[]; reservations: Reservation[] }> {
+    try {
+      const response = await fetch(
+        `/api/locks/check?tableName=${encodeURIComponent(tableName)}`
+      );
+
+      if (!response.ok) {
+        console.error('Failed to get table locks:', await response.text());
+        return { locks: [], reservations: [] };
+      }
+
+      const data = await response.json();
+      return {
+        locks: data.locks || [],
+        reservations: (data.reservations || []).map((reservation: any) => ({
+          ...reservation,
+          expiresAt: new Date(reservation.expiresAt)
+        }))
+      };
+    } catch (error) {
+      console.error('Get table locks error:', error);
+      return { locks: [], reservations: [] };
+    }
+  }
+
+  /**
+   * Queue for a locked row. When it is released or expires, the first user in the queue
+   * gets a reservation: for the table's claim grace period only they can acquire it.
+   * @param tableName - The table name
+   * @param rowId - The locked row ID
+   * @param userId - The user to queue
+   * @returns Queue position, or the reservation if the row is already held for the user
+   */
+  static async joinQueue(tableName: string, rowId: string, userId: string): Promise<QueueJoinResult> {
+    try {
+      const response = await fetch('/api/locks/queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tableName, rowId, userId })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data.error || 'Failed to join queue'
+        };
+      }
+
+      return {
+        success: true,
+        position: data.position,
+        reservedUntil: data.reservedUntil ? new Date(data.reservedUntil) : undefined
+      };
+    } catch (error: any) {
+      console.error('Lock queue error:', error);
+      return {
+        success: false,
+        error: error.message || 'Network error'
+      };
+    }
+  }
+
+  /**
+   * Leave a row's queue, or give up a reservation so it passes to the next user
+   * @param tableName - The table name
+   * @param rowId - The row ID
+   * @param userId - The queued user
+   * @returns True if the user was queued (or held the reservation)
+   */
+  static async leaveQueue(tableName: string, rowId: string, userId: string): Promise<boolean> {
+    try {
+      const response = await fetch('/api/locks/queue', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tableName, rowId, userId })
+      });
+
+      if (!response.ok) {
+        console.error('Failed to leave lock queue:', await response.text());
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Lock queue error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rows in a table a user is queued for, and rows currently reserved for them
+   * @param tableName - The table name
+   * @param userId - The user
+   * @returns Queue positions and reservations
+   */
+  static async getQueueState(tableName: string, userId: string): Promise<UserQueueState> {
+    try {
+      const response = await fetch(
+        `/api/locks/queue?tableName=${encodeURIComponent(tableName)}&userId=${encodeURIComponent(userId)}`
+      );
+
+      if (!response.ok) {
+        console.error('Failed to get lock queue:', await response.text());
+        return { queued: [], reserved: [] };
+      }
+
+      const data = await response.json();
+      return {
+        queued: data.queued || [],
+        reserved: (data.reserved || []).map((reservation: any) => ({
+          rowId: reservation.rowId,
+          expiresAt: new Date(reservation.expiresAt)
+        }))
+      };
+    } catch (error) {
+      console.error('Lock queue error:', error);
+      return { queued: [], reserved: [] };
+    }
+  }
+
   /**
    * Refresh a lock to keep it alive (updates timestamp)
    * @param tableName - The table name
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LockAdapter, StoredLock } from './types';
+
+interface LockFile {
+  locks: Record<string, StoredLock>;
+  lastToken: number;
+}
+
+/**
+ * Keeps locks in a JSON file so they survive dev-server restarts.
+ * The file is re-read on every call, and writes go through a temp file + rename so a
+ * crash mid-write never leaves a half-written file.
+ */
+export class FileLockAdapter implements LockAdapter {
+  constructor(private filePath: string) {}
+
+  private async read(): Promise<LockFile> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      return { locks: data.locks ?? {}, lastToken: data.lastToken ?? 0 };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { locks: {}, lastToken: 0 };
+      throw error;
+    }
+  }
+
+  private async write(data: LockFile): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async get(key: string) {
+    return (await this.read()).locks[key];
+  }
+
+  async set(key: string, lock: StoredLock) {
+    const data = await this.read();
+    data.locks[key] = lock;
+    await this.write(data);
+  }
+
+  async delete(key: string) {
+    const data = await this.read();
+    if (!(key in data.locks)) return;
+    delete data.locks[key];
+    await this.write(data);
+  }
+
+  async list(prefix = '') {
+    return Object.entries((await this.read()).locks).filter(([key]) => key.startsWith(prefix));
+  }
+
+  async nextToken() {
+    const data = await this.read();
+    data.lastToken += 1;
+    await this.write(data);
+    return data.lastToken;
+  }
+}
@@ -0,0 +1,83 @@
+import type { StoredLock } from './types';
+
+// What happened to a lock. Owner refreshes (heartbeats) are not recorded.
+export type LockHistoryType = 'acquire' | 'release' | 'expire' | 'force_release';
+
+export interface LockHistoryEntry {
+  id: number;
+  type: LockHistoryType;
+  tableName: string;
+  rowId: string;
+  lockedBy: string; // Holder of the lock the event is about
+  lockedAt: string; // When that holder last acquired/refreshed it
+  token: number;
+  at: string; // ISO timestamp of the event
+  actor?: string; // Admin who force-released the lock
+  reason?: string; // Reason given for a force-release
+}
+
+export interface LockHistoryQuery {
+  tableName?: string;
+  rowId?: string; // Only used together with tableName
+  type?: LockHistoryType;
+  limit?: number;
+}
+
+export const HISTORY_PER_ROW = 50; // Events kept per row
+export const HISTORY_MAX_ROWS = 1000; // Rows kept; the least recently changed row is dropped first
+
+/**
+ * In-memory ring buffers of recent lock events, one per row.
+ * Answers "who was editing this?" after the lock itself is gone. Not persisted -
+ * write entries to an audit table (see ROW_LOCKING_DATABASE.md) when the history has to survive restarts.
+ */
+export class LockHistory {
+  private rows = new Map<string, LockHistoryEntry[]>();
+  private nextId = 1;
+
+  constructor(private perRow: number = HISTORY_PER_ROW, private maxRows: number = HISTORY_MAX_ROWS) {}
+
+  record(type: LockHistoryType, lock: StoredLock, details: Pick<LockHistoryEntry, 'actor' | 'reason'> = {}): LockHistoryEntry {
+    const key = `${lock.tableName}:${lock.rowId}`;
+    const entry: LockHistoryEntry = {
+      id: this.nextId++,
+      type,
+      tableName: lock.tableName,
+      rowId: lock.rowId,
+      lockedBy: lock.lockedBy,
+      lockedAt: lock.lockedAt,
+      token: lock.token,
+      at: new Date().toISOString(),
+      ...details,
+    };
+
+    // Re-insert so the Map stays ordered from least to most recently changed row
+    const entries = this.rows.get(key) ?? [];
+    this.rows.delete(key);
+    entries.push(entry);
+    if (entries.length > this.perRow) entries.shift();
+    this.rows.set(key, entries);
+
+    if (this.rows.size > this.maxRows) {
+      this.rows.delete(this.rows.keys().next().value!);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Recent events, newest first, optionally limited to a table or a single row.
+   */
+  query({ tableName, rowId, type, limit = 100 }: LockHistoryQuery = {}): LockHistoryEntry[] {
+    let entries: LockHistoryEntry[];
+    if (tableName && rowId) {
+      entries = [...(this.rows.get(`${tableName}:${rowId}`) ?? [])];
+    } else {
+      entries = Array.from(this.rows.values()).flat();
+      if (tableName) entries = entries.filter((entry) => entry.tableName === tableName);
+    }
+
+    if (type) entries = entries.filter((entry) => entry.type === type);
+    return entries.sort((a, b) => b.id - a.id).slice(0, limit);
+  }
+}
@@ -0,0 +1,45 @@
+import path from 'path';
+import { LockRepository } from './repository';
+import { MemoryLockAdapter } from './memoryAdapter';
+import { FileLockAdapter } from './fileAdapter';
+import type { LockAdapter } from './types';
+
+export { LockRepository, lockKey } from './repository';
+export { DEFAULT_LOCK_POLICY, LOCK_POLICIES, getLockPolicy, getLockExpiry } from './policies';
+export type { LockPolicy } from './policies';
+export type { AcquireResult, BatchAcquireResult, BatchAcquireConflict, ReleaseResult, TokenCheck, QueueResult, LockEvent, LockEventType, LockListener, LockStatus } from './repository';
+export { LockQueue } from './queue';
+export type { QueueEntry, LockReservation } from './queue';
+export { LockHistory, HISTORY_PER_ROW, HISTORY_MAX_ROWS } from './history';
+export type { LockHistoryEntry, LockHistoryType, LockHistoryQuery } from './history';
+export { MemoryLockAdapter } from './memoryAdapter';
+export { FileLockAdapter } from './fileAdapter';
+export type { LockAdapter, StoredLock } from './types';
+
+/**
+ * Pick the lock backend from the environment:
+ * - LOCK_STORE=memory - process memory (default in production)
+ * - LOCK_STORE=file   - JSON file at LOCK_STORE_FILE, default .data/locks.json (default in development)
+ */
+function createLockAdapter(): LockAdapter {
+  const store = process.env.LOCK_STORE || (process.env.NODE_ENV === 'production' ? 'memory' : 'file');
+
+  switch (store) {
+    case 'memory':
+      return new MemoryLockAdapter();
+    case 'file':
+      return new FileLockAdapter(process.env.LOCK_STORE_FILE || path.join(process.cwd(), '.data', 'locks.json'));
+    default:
+      throw new Error(`Unknown LOCK_STORE "${store}" (expected "memory" or "file")`);
+  }
+}
+
+// Kept on globalThis so every lock route (and dev hot reloads) share one repository
+const globalStore = globalThis as typeof globalThis & { __lockRepository?: LockRepository };
+
+export function getLockRepository(): LockRepository {
+  if (!globalStore.__lockRepository) {
+    globalStore.__lockRepository = new LockRepository(createLockAdapter());
+  }
+  return globalStore.__lockRepository;
+}
@@ -0,0 +1,31 @@
+import type { LockAdapter, StoredLock } from './types';
+
+/**
+ * Keeps locks in process memory. Fast, but locks are lost when the server restarts
+ * and are not shared between server instances.
+ */
+export class MemoryLockAdapter implements LockAdapter {
+  private locks = new Map<string, StoredLock>();
+  private lastToken = 0;
+
+  async get(key: string) {
+    return this.locks.get(key);
+  }
+
+  async set(key: string, lock: StoredLock) {
+    this.locks.set(key, lock);
+  }
+
+  async delete(key: string) {
+    this.locks.delete(key);
+  }
+
+  async list(prefix = '') {
+    return Array.from(this.locks.entries()).filter(([key]) => key.startsWith(prefix));
+  }
+
+  async nextToken() {
+    this.lastToken += 1;
+    return this.lastToken;
+  }
+}
@@ -0,0 +1,43 @@
+// Per-table lock policies. Read by the lock repository on the server and by LockService /
+// useRowLock in the browser, so this module must stay free of server-only imports.
+
+export interface LockPolicy {
+  timeoutMs: number; // A lock expires this long after the holder's last acquire or heartbeat
+  heartbeatIntervalMs: number; // How often editors refresh their lock - well below timeoutMs
+  maxHoldMs?: number; // Hard limit since the lock was first acquired, heartbeats or not (no limit when unset)
+  adminCanSteal: boolean; // Whether admins may force-release locks in this table
+  claimGraceMs: number; // How long a freed row is held for the first user in its queue
+}
+
+export const DEFAULT_LOCK_POLICY: LockPolicy = {
+  timeoutMs: 5 * 60 * 1000, // 5 minutes
+  heartbeatIntervalMs: 30 * 1000, // 30 seconds
+  adminCanSteal: true,
+  claimGraceMs: 60 * 1000, // 1 minute
+};
+
+/**
+ * Tables that differ from DEFAULT_LOCK_POLICY. Add an entry to tune a table;
+ * unspecified settings fall back to the default.
+ */
+export const LOCK_POLICIES: Record<string, Partial<LockPolicy>> = {
+  products: {
+    maxHoldMs: 60 * 60 * 1000, // 1 hour - then the editor has to lock the row again
+  },
+};
+
+/**
+ * Effective lock policy for a table.
+ */
+export function getLockPolicy(tableName: string): LockPolicy {
+  return { ...DEFAULT_LOCK_POLICY, ...LOCK_POLICIES[tableName] };
+}
+
+/**
+ * When a lock stops being valid: its idle timeout, or the max hold time if that comes first.
+ */
+export function getLockExpiry(lock: { lockedAt: string; acquiredAt: string }, policy: LockPolicy): number {
+  const idleExpiry = new Date(lock.lockedAt).getTime() + policy.timeoutMs;
+  if (policy.maxHoldMs === undefined) return idleExpiry;
+  return Math.min(idleExpiry, new Date(lock.acquiredAt).getTime() + policy.maxHoldMs);
+}
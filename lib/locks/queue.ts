@@ -0,0 +1,105 @@
+// Users waiting for a locked row, and the claim the first of them gets when it frees up
+
+export interface QueueEntry {
+  tableName: string;
+  rowId: string;
+  userId: string;
+  queuedAt: string; // ISO timestamp
+}
+
+// First claim on a freed row: only userId can acquire it until expiresAt
+export interface LockReservation {
+  tableName: string;
+  rowId: string;
+  userId: string;
+  reservedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+}
+
+const rowKey = (tableName: string, rowId: string) => `${tableName}:${rowId}`;
+
+/**
+ * In-memory FIFO queues and reservations per row. Holds no rules of its own -
+ * LockRepository decides when a reservation is granted, claimed or expires.
+ */
+export class LockQueue {
+  private queues = new Map<string, QueueEntry[]>();
+  private reservations = new Map<string, LockReservation>();
+
+  /**
+   * Add a user to the end of a row's queue. Joining twice keeps the original place.
+   * @returns 1-based position in the queue
+   */
+  join(tableName: string, rowId: string, userId: string): number {
+    const key = rowKey(tableName, rowId);
+    const entries = this.queues.get(key) ?? [];
+    const index = entries.findIndex((entry) => entry.userId === userId);
+    if (index !== -1) return index + 1;
+
+    entries.push({ tableName, rowId, userId, queuedAt: new Date().toISOString() });
+    this.queues.set(key, entries);
+    return entries.length;
+  }
+
+  // Remove a user from a row's queue; false if they weren't queued
+  leave(tableName: string, rowId: string, userId: string): boolean {
+    const key = rowKey(tableName, rowId);
+    const entries = this.queues.get(key) ?? [];
+    const remaining = entries.filter((entry) => entry.userId !== userId);
+    if (remaining.length === entries.length) return false;
+
+    if (remaining.length > 0) this.queues.set(key, remaining);
+    else this.queues.delete(key);
+    return true;
+  }
+
+  entries(tableName: string, rowId: string): QueueEntry[] {
+    return [...(this.queues.get(rowKey(tableName, rowId)) ?? [])];
+  }
+
+  // Rows in a table a user is queued for, with their 1-based positions
+  positionsFor(tableName: string, userId: string): Array<{ rowId: string; position: number }> {
+    const positions: Array<{ rowId: string; position: number }> = [];
+    this.queues.forEach((entries) => {
+      const index = entries.findIndex((entry) => entry.tableName === tableName && entry.userId === userId);
+      if (index !== -1) positions.push({ rowId: entries[index].rowId, position: index + 1 });
+    });
+    return positions;
+  }
+
+  /**
+   * Take the first user off a row's queue and reserve the row for them.
+   * @returns The new reservation, or undefined when nobody is waiting
+   */
+  reserveNext(tableName: string, rowId: string, graceMs: number, now: number = Date.now()): LockReservation | undefined {
+    const key = rowKey(tableName, rowId);
+    const entries = this.queues.get(key);
+    const next = entries?.shift();
+    if (!next) return undefined;
+    if (entries!.length === 0) this.queues.delete(key);
+
+    const reservation: LockReservation = {
+      tableName,
+      rowId,
+      userId: next.userId,
+      reservedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + graceMs).toISOString(),
+    };
+    this.reservations.set(key, reservation);
+    return reservation;
+  }
+
+  getReservation(tableName: string, rowId: string): LockReservation | undefined {
+    return this.reservations.get(rowKey(tableName, rowId));
+  }
+
+  clearReservation(tableName: string, rowId: string): void {
+    this.reservations.delete(rowKey(tableName, rowId));
+  }
+
+  // All reservations, optionally limited to one table (may include expired ones)
+  listReservations(tableName?: string): LockReservation[] {
+    const reservations = Array.from(this.reservations.values());
+    return tableName ? reservations.filter((reservation) => reservation.tableName === tableName) : reservations;
+  }
+}
@@ -0,0 +1,264 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileLockAdapter } from './fileAdapter';
+import { MemoryLockAdapter } from './memoryAdapter';
+import { DEFAULT_LOCK_POLICY, getLockExpiry, type LockPolicy } from './policies';
+import { LockRepository } from './repository';
+import type { LockAdapter, StoredLock } from './types';
+
+const MINUTE = 60 * 1000;
+
+const POLICIES: Record<string, LockPolicy> = {
+  products: { ...DEFAULT_LOCK_POLICY, timeoutMs: 5 * MINUTE, claimGraceMs: MINUTE },
+  ledger: { ...DEFAULT_LOCK_POLICY, timeoutMs: MINUTE, maxHoldMs: 10 * MINUTE, adminCanSteal: false },
+};
+
+const createRepository = (adapter: LockAdapter = new MemoryLockAdapter()) =>
+  new LockRepository(adapter, (tableName) => POLICIES[tableName] ?? DEFAULT_LOCK_POLICY);
+
+const tokenOf = (result: { status: string }) => ('lock' in result ? (result.lock as StoredLock).token : undefined);
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-01-06T08:00:00.000Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LockRepository fencing tokens', () => {
+  it('keeps the token while the owner refreshes the lock', async () => {
+    const repository = createRepository();
+    const first = await repository.acquire('products', '1', 'alice');
+    vi.advanceTimersByTime(4 * MINUTE);
+    const refreshed = await repository.acquire('products', '1', 'alice');
+
+    expect(refreshed.status).toBe('refreshed');
+    expect(tokenOf(refreshed)).toBe(tokenOf(first));
+    expect((await repository.verifyToken('products', '1', tokenOf(first))).status).toBe('valid');
+  });
+
+  it('rejects a stale token after the row is locked again', async () => {
+    const repository = createRepository();
+    const alice = await repository.acquire('products', '1', 'alice');
+    vi.advanceTimersByTime(5 * MINUTE);
+
+    const bob = await repository.acquire('products', '1', 'bob');
+    expect(bob.status).toBe('acquired');
+    expect(tokenOf(bob)).toBeGreaterThan(tokenOf(alice)!);
+
+    expect((await repository.verifyToken('products', '1', tokenOf(alice))).status).toBe('stale');
+    expect((await repository.verifyToken('products', '1', tokenOf(bob))).status).toBe('valid');
+  });
+
+  it('gives the owner a new token when their own lock expired', async () => {
+    const repository = createRepository();
+    const first = await repository.acquire('products', '1', 'alice');
+    vi.advanceTimersByTime(5 * MINUTE);
+    const second = await repository.acquire('products', '1', 'alice');
+
+    expect(second.status).toBe('acquired');
+    expect((await repository.verifyToken('products', '1', tokenOf(first))).status).toBe('stale');
+  });
+
+  it('reports a missing or expired token', async () => {
+    const repository = createRepository();
+    const alice = await repository.acquire('products', '1', 'alice');
+
+    expect((await repository.verifyToken('products', '1', null)).status).toBe('missing');
+    vi.advanceTimersByTime(5 * MINUTE);
+    expect((await repository.verifyToken('products', '1', tokenOf(alice))).status).toBe('expired');
+  });
+
+  it('releases a lock only with its current token when one is given', async () => {
+    const repository = createRepository();
+    const alice = await repository.acquire('products', '1', 'alice');
+
+    expect((await repository.release('products', '1', 'bob')).status).toBe('forbidden');
+    expect((await repository.release('products', '1', 'alice', tokenOf(alice)! + 1)).status).toBe('stale');
+    expect((await repository.release('products', '1', 'alice', tokenOf(alice))).status).toBe('released');
+    expect(await repository.get('products', '1')).toBeUndefined();
+  });
+});
+
+describe('LockRepository.acquireMany', () => {
+  it('locks nothing when any row is held by someone else', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '2', 'bob');
+
+    const result = await repository.acquireMany('products', ['1', '2', '3'], 'alice');
+
+    expect(result.status).toBe('conflict');
+    expect(result.status === 'conflict' && result.conflicts.map((conflict) => conflict.status)).toEqual(['conflict']);
+    expect(await repository.listTable('products')).toHaveLength(1);
+  });
+
+  it('reports the rows the user already held as refreshed', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+
+    const result = await repository.acquireMany('products', ['1', '2'], 'alice');
+
+    expect(result).toMatchObject({ status: 'acquired', refreshed: ['1'] });
+    expect(result.status === 'acquired' && result.locks.map((lock) => lock.rowId)).toEqual(['1', '2']);
+  });
+});
+
+describe('LockRepository queue', () => {
+  it('reserves a freed row for the first user in line', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    expect(await repository.enqueue('products', '1', 'bob')).toEqual({ status: 'queued', position: 1 });
+    expect(await repository.enqueue('products', '1', 'carol')).toEqual({ status: 'queued', position: 2 });
+
+    await repository.release('products', '1', 'alice');
+
+    expect((await repository.acquire('products', '1', 'carol')).status).toBe('reserved');
+    expect((await repository.acquire('products', '1', 'bob')).status).toBe('acquired');
+    expect((await repository.getQueue('products', '1')).entries.map((entry) => entry.userId)).toEqual(['carol']);
+  });
+
+  it('passes an unclaimed reservation to the next waiter when it expires', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    await repository.enqueue('products', '1', 'bob');
+    await repository.enqueue('products', '1', 'carol');
+    await repository.release('products', '1', 'alice');
+
+    expect((await repository.getQueue('products', '1')).reservation?.userId).toBe('bob');
+    vi.advanceTimersByTime(MINUTE);
+
+    expect((await repository.getQueue('products', '1')).reservation?.userId).toBe('carol');
+    expect((await repository.acquire('products', '1', 'bob')).status).toBe('reserved');
+    expect((await repository.acquire('products', '1', 'carol')).status).toBe('acquired');
+  });
+
+  it('frees the row for anyone once the last reservation expires', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    await repository.enqueue('products', '1', 'bob');
+    await repository.release('products', '1', 'alice');
+
+    vi.advanceTimersByTime(MINUTE);
+
+    expect((await repository.acquire('products', '1', 'dave')).status).toBe('acquired');
+  });
+});
+
+describe('LockRepository policies and history', () => {
+  it('applies each table its own timeout and max hold time', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    await repository.acquire('ledger', '1', 'alice');
+    vi.advanceTimersByTime(MINUTE);
+
+    expect(await repository.get('ledger', '1')).toBeUndefined();
+    expect(await repository.get('products', '1')).toBeDefined();
+
+    // Heartbeats keep the ledger lock alive only until maxHoldMs
+    await repository.acquire('ledger', '2', 'alice');
+    for (let i = 0; i < 19; i++) {
+      vi.advanceTimersByTime(MINUTE / 2);
+      await repository.acquire('ledger', '2', 'alice');
+    }
+    vi.advanceTimersByTime(MINUTE / 2);
+    expect((await repository.acquire('ledger', '2', 'bob')).status).toBe('acquired');
+  });
+
+  it('computes the expiry from the idle timeout or the max hold time, whichever comes first', () => {
+    const lock = { lockedAt: '2025-01-06T08:09:00.000Z', acquiredAt: '2025-01-06T08:00:00.000Z' };
+
+    expect(getLockExpiry(lock, POLICIES.products)).toBe(Date.parse('2025-01-06T08:14:00.000Z'));
+    expect(getLockExpiry(lock, POLICIES.ledger)).toBe(Date.parse('2025-01-06T08:10:00.000Z'));
+  });
+
+  it('lets admins force-release only where the policy allows it', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    await repository.acquire('ledger', '1', 'alice');
+
+    expect((await repository.forceRelease('products', '1', 'admin', 'Stuck')).status).toBe('released');
+    expect((await repository.forceRelease('ledger', '1', 'admin')).status).toBe('forbidden');
+  });
+
+  it('records lock events newest first, without refreshes', async () => {
+    const repository = createRepository();
+    await repository.acquire('products', '1', 'alice');
+    await repository.acquire('products', '1', 'alice');
+    await repository.release('products', '1', 'alice');
+    await repository.acquire('products', '1', 'bob');
+    await repository.forceRelease('products', '1', 'admin', 'Stuck');
+
+    const history = repository.getHistory({ tableName: 'products', rowId: '1' });
+
+    expect(history.map((entry) => [entry.type, entry.lockedBy])).toEqual([
+      ['force_release', 'bob'],
+      ['acquire', 'bob'],
+      ['release', 'alice'],
+      ['acquire', 'alice'],
+    ]);
+    expect(history[0]).toMatchObject({ actor: 'admin', reason: 'Stuck' });
+  });
+});
+
+describe('FileLockAdapter', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'locks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips locks and keeps counting tokens across instances', async () => {
+    const filePath = path.join(dir, 'nested', 'locks.json');
+    const lock: StoredLock = {
+      tableName: 'products',
+      rowId: '1',
+      lockedBy: 'alice',
+      lockedAt: '2025-01-06T08:00:00.000Z',
+      acquiredAt: '2025-01-06T08:00:00.000Z',
+      token: 1,
+    };
+
+    const adapter = new FileLockAdapter(filePath);
+    expect(await adapter.get('products:1')).toBeUndefined();
+    expect(await adapter.nextToken()).toBe(1);
+    await adapter.set('products:1', lock);
+
+    const reopened = new FileLockAdapter(filePath);
+    expect(await reopened.get('products:1')).toEqual(lock);
+    expect(await reopened.list('products:')).toEqual([['products:1', lock]]);
+    expect(await reopened.list('orders:')).toEqual([]);
+    expect(await reopened.nextToken()).toBe(2);
+
+    await reopened.delete('products:1');
+    expect(await adapter.get('products:1')).toBeUndefined();
+  });
+
+  it('keeps a lock across repository restarts', async () => {
+    const filePath = path.join(dir, 'locks.json');
+    const alice = await createRepository(new FileLockAdapter(filePath)).acquire('products', '1', 'alice');
+
+    const restarted = createRepository(new FileLockAdapter(filePath));
+    expect((await restarted.acquire('products', '1', 'bob')).status).toBe('conflict');
+    expect((await restarted.verifyToken('products', '1', tokenOf(alice))).status).toBe('valid');
+  });
+
+  // Each adapter call is a separate read and write - the repository must not interleave them
+  it('lets only one of several concurrent acquires win', async () => {
+    const repository = createRepository(new FileLockAdapter(path.join(dir, 'locks.json')));
+
+    const results = await Promise.all(
+      ['alice', 'bob', 'carol'].map((userId) => repository.acquire('products', '1', userId))
+    );
+
+    expect(results.map((result) => result.status).sort()).toEqual(['acquired', 'conflict', 'conflict']);
+    expect(new Set(results.map(tokenOf)).size).toBe(1);
+  });
+});
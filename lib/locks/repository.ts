@@ -0,0 +1,467 @@
+import type { LockAdapter, StoredLock } from './types';
+import { LockHistory, type LockHistoryQuery, type LockHistoryEntry } from './history';
+import { getLockPolicy, getLockExpiry, type LockPolicy } from './policies';
+import { LockQueue, type LockReservation, type QueueEntry } from './queue';
+
+const EXPIRY_SWEEP_INTERVAL = 15 * 1000; // How often expired locks are swept while anyone is subscribed
+
+export const lockKey = (tableName: string, rowId: string) => `${tableName}:${rowId}`;
+
+export type AcquireResult =
+  | { status: 'acquired'; lock: StoredLock; replaced?: StoredLock } // replaced: stale lock taken over
+  | { status: 'refreshed'; lock: StoredLock }
+  | { status: 'conflict'; lock: StoredLock }
+  | { status: 'reserved'; reservation: LockReservation }; // Free, but held for the next user in the queue
+
+// Change notifications for subscribers (e.g. the /api/locks/stream SSE endpoint).
+// A refresh by the owner is reported as 'acquire' with the new lockedAt.
+// 'reserve' - a freed row is held for the first user in its queue; 'unreserve' - that claim lapsed or was given up.
+export type LockEvent =
+  | {
+      type: 'acquire' | 'release' | 'expire';
+      lock: StoredLock;
+      refreshed?: boolean; // 'acquire' from the owner's heartbeat
+      forcedBy?: string; // 'release' by an admin instead of the owner
+      reason?: string;
+    }
+  | { type: 'reserve' | 'unreserve'; reservation: LockReservation };
+
+export type LockEventType = LockEvent['type'];
+
+type LockChangeEvent = Extract<LockEvent, { lock: StoredLock }>;
+
+export type LockListener = (event: LockEvent) => void;
+
+// Outcome of checking a fencing token before a write
+export type TokenCheck =
+  | { status: 'valid'; lock: StoredLock }
+  | { status: 'missing' } // No token supplied
+  | { status: 'expired' } // Row is no longer locked - the lock expired or was released
+  | { status: 'stale'; lock: StoredLock }; // A newer lock (possibly another user's) replaced it
+
+export type BatchAcquireConflict = Extract<AcquireResult, { status: 'conflict' | 'reserved' }>;
+
+export type BatchAcquireResult =
+  | { status: 'acquired'; locks: StoredLock[]; refreshed: string[] } // Locks in the order the rows were given; refreshed - rows the user already held
+  | { status: 'conflict'; conflicts: BatchAcquireConflict[] };
+
+export type ReleaseResult =
+  | { status: 'released'; lock: StoredLock }
+  | { status: 'not_found' }
+  | { status: 'forbidden'; lock: StoredLock } // Another user's lock, or a table whose policy bars admins
+  | { status: 'stale'; lock: StoredLock }; // The row has a newer lock than the token given
+
+export type QueueResult =
+  | { status: 'queued'; position: number } // 1-based
+  | { status: 'available' } // Nobody holds or has a claim on the row - acquire it directly
+  | { status: 'reserved'; reservation: LockReservation } // The row is already held for this user
+  | { status: 'holder' }; // The user holds the lock
+
+// An active lock with its timing, as shown in the admin console
+export interface LockStatus extends StoredLock {
+  heldForMs: number; // Since acquiredAt
+  idleForMs: number; // Since lockedAt (the last acquire or heartbeat)
+  expiresAt: string; // Idle timeout or max hold time, whichever comes first
+  remainingMs: number; // Time left before the lock expires
+  timeoutMs: number; // The table's idle timeout
+  adminCanSteal: boolean;
+  queueLength: number; // Users waiting for the row
+}
+
+/**
+ * Row lock rules (ownership, refresh, expiry) on top of a pluggable storage adapter.
+ * Timeouts and admin rights come from the per-table policies in ./policies.
+ * All lock routes share one instance - see getLockRepository().
+ */
+export class LockRepository {
+  private queue: Promise<unknown> = Promise.resolve();
+  private listeners = new Set<LockListener>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private history = new LockHistory();
+  private waiting = new LockQueue();
+
+  constructor(
+    private adapter: LockAdapter,
+    private policyFor: (tableName: string) => LockPolicy = getLockPolicy
+  ) {}
+
+  // Run operations one at a time so read-check-write sequences never interleave
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(operation, operation);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private notify(event: LockEvent) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Lock listener error:', error);
+      }
+    });
+  }
+
+  private emit(type: LockChangeEvent['type'], lock: StoredLock, details: Omit<LockChangeEvent, 'type' | 'lock'> = {}) {
+    if (details.forcedBy) {
+      this.history.record('force_release', lock, { actor: details.forcedBy, reason: details.reason });
+    } else if (!details.refreshed) {
+      this.history.record(type, lock);
+    }
+
+    this.notify({ type, lock, ...details });
+  }
+
+  // Delete a lock that was released or expired and hand the row to the next user in its queue
+  private async removeLock(key: string, lock: StoredLock, type: 'release' | 'expire', details: Omit<LockChangeEvent, 'type' | 'lock'> = {}) {
+    await this.adapter.delete(key);
+    this.emit(type, lock, details);
+    this.offerToNext(lock.tableName, lock.rowId);
+  }
+
+  private offerToNext(tableName: string, rowId: string) {
+    const reservation = this.waiting.reserveNext(tableName, rowId, this.policyFor(tableName).claimGraceMs);
+    if (reservation) this.notify({ type: 'reserve', reservation });
+  }
+
+  // The row's current reservation. One whose grace window ran out passes to the next user in the queue.
+  private activeReservation(tableName: string, rowId: string, now: number = Date.now()): LockReservation | undefined {
+    let reservation = this.waiting.getReservation(tableName, rowId);
+    while (reservation && new Date(reservation.expiresAt).getTime() <= now) {
+      this.waiting.clearReservation(tableName, rowId);
+      this.notify({ type: 'unreserve', reservation });
+      this.offerToNext(tableName, rowId);
+      reservation = this.waiting.getReservation(tableName, rowId);
+    }
+    return reservation;
+  }
+
+  /**
+   * Listen for lock and reservation events. While anyone is subscribed, expired locks and
+   * reservations are swept periodically so their events arrive without waiting for a request.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: LockListener): () => void {
+    this.listeners.add(listener);
+
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => {
+        this.cleanup().catch((error) => console.error('Lock expiry sweep error:', error));
+      }, EXPIRY_SWEEP_INTERVAL);
+      this.sweepTimer.unref?.();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+      }
+    };
+  }
+
+  isExpired(lock: StoredLock, now: number = Date.now()): boolean {
+    return now >= getLockExpiry(lock, this.policyFor(lock.tableName));
+  }
+
+  /**
+   * Acquire a row lock, refresh it when the user already holds it,
+   * or take it over when the lock has expired. An expired lock is never refreshed -
+   * its owner gets a new lock with a new fencing token, like anyone else.
+   * While a freed row is reserved for the next user in its queue, only that user can acquire it.
+   */
+  acquire(tableName: string, rowId: string, userId: string): Promise<AcquireResult> {
+    return this.exclusive(() => this.tryAcquire(tableName, rowId, userId));
+  }
+
+  /**
+   * Acquire locks on several rows of a table, all or nothing. When any row is locked by
+   * someone else or reserved for another user, no lock is taken and every blocking row is reported.
+   */
+  acquireMany(tableName: string, rowIds: string[], userId: string): Promise<BatchAcquireResult> {
+    return this.exclusive(async () => {
+      const conflicts: BatchAcquireConflict[] = [];
+
+      for (const rowId of rowIds) {
+        const key = lockKey(tableName, rowId);
+        const existing = await this.adapter.get(key);
+
+        if (existing && !this.isExpired(existing)) {
+          if (existing.lockedBy !== userId) conflicts.push({ status: 'conflict', lock: existing });
+          continue;
+        }
+
+        // Clear an expired lock first, so a queued user's reservation shows up below
+        if (existing) await this.removeLock(key, existing, 'expire');
+
+        const reservation = this.activeReservation(tableName, rowId);
+        if (reservation && reservation.userId !== userId) conflicts.push({ status: 'reserved', reservation });
+      }
+
+      if (conflicts.length > 0) return { status: 'conflict', conflicts };
+
+      const results: AcquireResult[] = [];
+      for (const rowId of rowIds) {
+        results.push(await this.tryAcquire(tableName, rowId, userId));
+      }
+      return {
+        status: 'acquired',
+        locks: results.flatMap((result) => ('lock' in result ? [result.lock] : [])),
+        refreshed: results.flatMap((result) => (result.status === 'refreshed' ? [result.lock.rowId] : [])),
+      };
+    });
+  }
+
+  // acquire() without the exclusive wrapper, for use inside another exclusive operation
+  private async tryAcquire(tableName: string, rowId: string, userId: string): Promise<AcquireResult> {
+    const key = lockKey(tableName, rowId);
+    const existing = await this.adapter.get(key);
+    const lockedAt = new Date().toISOString();
+
+    // Refreshing keeps the fencing token, so the owner's writes stay valid
+    if (existing && existing.lockedBy === userId && !this.isExpired(existing)) {
+      const lock: StoredLock = { ...existing, lockedAt };
+      await this.adapter.set(key, lock);
+      this.emit('acquire', lock, { refreshed: true });
+      return { status: 'refreshed', lock };
+    }
+
+    if (existing && !this.isExpired(existing)) {
+      return { status: 'conflict', lock: existing };
+    }
+
+    if (existing) await this.removeLock(key, existing, 'expire');
+
+    const reservation = this.activeReservation(tableName, rowId);
+    if (reservation && reservation.userId !== userId) {
+      return { status: 'reserved', reservation };
+    }
+    if (reservation) {
+      this.waiting.clearReservation(tableName, rowId);
+      this.notify({ type: 'unreserve', reservation });
+    }
+    this.waiting.leave(tableName, rowId, userId);
+
+    const lock: StoredLock = {
+      tableName,
+      rowId,
+      lockedBy: userId,
+      lockedAt,
+      acquiredAt: lockedAt,
+      token: await this.adapter.nextToken(),
+    };
+    await this.adapter.set(key, lock);
+    this.emit('acquire', lock);
+    return { status: 'acquired', lock, replaced: existing };
+  }
+
+  /**
+   * Check that a write carries the fencing token of the row's current lock.
+   * A token from an expired or replaced lock is rejected even if its owner still thinks it holds the lock.
+   */
+  verifyToken(tableName: string, rowId: string, token?: number | null): Promise<TokenCheck> {
+    return this.exclusive(async () => {
+      if (token === undefined || token === null || isNaN(token)) return { status: 'missing' };
+
+      const key = lockKey(tableName, rowId);
+      const lock = await this.adapter.get(key);
+      if (!lock) return { status: 'expired' };
+      if (this.isExpired(lock)) {
+        await this.removeLock(key, lock, 'expire');
+        return { status: 'expired' };
+      }
+
+      return lock.token === token ? { status: 'valid', lock } : { status: 'stale', lock };
+    });
+  }
+
+  /**
+   * Release a row lock. Only the owner can release it. With a token, only the lock carrying that
+   * fencing token is released - not a newer lock the owner took on the row since.
+   */
+  release(tableName: string, rowId: string, userId: string, token?: number): Promise<ReleaseResult> {
+    return this.exclusive(async () => {
+      const key = lockKey(tableName, rowId);
+      const existing = await this.adapter.get(key);
+
+      if (!existing) return { status: 'not_found' };
+      if (existing.lockedBy !== userId) return { status: 'forbidden', lock: existing };
+      if (token !== undefined && existing.token !== token) return { status: 'stale', lock: existing };
+
+      await this.removeLock(key, existing, 'release');
+      return { status: 'released', lock: existing };
+    });
+  }
+
+  /**
+   * Release another user's lock, if the table's policy lets admins do that. The release is recorded
+   * in the history with the admin and reason, and subscribers receive a 'release' event carrying forcedBy.
+   */
+  forceRelease(tableName: string, rowId: string, adminId: string, reason?: string): Promise<ReleaseResult> {
+    return this.exclusive(async () => {
+      const key = lockKey(tableName, rowId);
+      const existing = await this.adapter.get(key);
+      if (!existing) return { status: 'not_found' };
+      if (!this.policyFor(tableName).adminCanSteal) return { status: 'forbidden', lock: existing };
+
+      await this.removeLock(key, existing, 'release', { forcedBy: adminId, reason });
+      return { status: 'released', lock: existing };
+    });
+  }
+
+  /**
+   * Active lock on a row, if any. An expired lock is removed and reported as unlocked.
+   */
+  get(tableName: string, rowId: string): Promise<StoredLock | undefined> {
+    return this.exclusive(async () => {
+      const key = lockKey(tableName, rowId);
+      const lock = await this.adapter.get(key);
+      if (lock && this.isExpired(lock)) {
+        await this.removeLock(key, lock, 'expire');
+        return undefined;
+      }
+      return lock;
+    });
+  }
+
+  /**
+   * Active locks in a table. Expired locks are removed along the way.
+   */
+  listTable(tableName: string): Promise<StoredLock[]> {
+    return this.exclusive(() => this.listActive(`${tableName}:`));
+  }
+
+  /**
+   * Active locks across all tables with their timing, longest held first.
+   */
+  listAll(now: number = Date.now()): Promise<LockStatus[]> {
+    return this.exclusive(async () => {
+      const locks = await this.listActive();
+      return locks
+        .map((lock) => {
+          const policy = this.policyFor(lock.tableName);
+          const expiresAt = getLockExpiry(lock, policy);
+          return {
+            ...lock,
+            heldForMs: now - new Date(lock.acquiredAt).getTime(),
+            idleForMs: now - new Date(lock.lockedAt).getTime(),
+            expiresAt: new Date(expiresAt).toISOString(),
+            remainingMs: Math.max(0, expiresAt - now),
+            timeoutMs: policy.timeoutMs,
+            adminCanSteal: policy.adminCanSteal,
+            queueLength: this.waiting.entries(lock.tableName, lock.rowId).length,
+          };
+        })
+        .sort((a, b) => b.heldForMs - a.heldForMs);
+    });
+  }
+
+  /**
+   * Recent acquire, release, expire and force-release events, newest first.
+   */
+  getHistory(query: LockHistoryQuery = {}): LockHistoryEntry[] {
+    return this.history.query(query);
+  }
+
+  /**
+   * Queue a user for a row, to be notified (a 'reserve' event) and given first claim when it frees up.
+   */
+  enqueue(tableName: string, rowId: string, userId: string): Promise<QueueResult> {
+    return this.exclusive(async () => {
+      const key = lockKey(tableName, rowId);
+      let lock = await this.adapter.get(key);
+      if (lock && this.isExpired(lock)) {
+        await this.removeLock(key, lock, 'expire');
+        lock = undefined;
+      }
+      if (lock?.lockedBy === userId) return { status: 'holder' };
+
+      const reservation = this.activeReservation(tableName, rowId);
+      if (reservation?.userId === userId) return { status: 'reserved', reservation };
+      if (!lock && !reservation) return { status: 'available' };
+
+      return { status: 'queued', position: this.waiting.join(tableName, rowId, userId) };
+    });
+  }
+
+  /**
+   * Leave a row's queue, or give up a reservation (which then passes to the next user).
+   * @returns False if the user was neither queued nor holding a reservation
+   */
+  dequeue(tableName: string, rowId: string, userId: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      const reservation = this.activeReservation(tableName, rowId);
+      if (reservation?.userId === userId) {
+        this.waiting.clearReservation(tableName, rowId);
+        this.notify({ type: 'unreserve', reservation });
+        this.offerToNext(tableName, rowId);
+        return true;
+      }
+      return this.waiting.leave(tableName, rowId, userId);
+    });
+  }
+
+  /**
+   * Who is waiting for a row, and who has the current claim on it.
+   */
+  getQueue(tableName: string, rowId: string): Promise<{ entries: QueueEntry[]; reservation?: LockReservation }> {
+    return this.exclusive(async () => ({
+      entries: this.waiting.entries(tableName, rowId),
+      reservation: this.activeReservation(tableName, rowId),
+    }));
+  }
+
+  /**
+   * Rows in a table a user is queued for (with positions) and rows currently reserved for them.
+   */
+  getUserQueue(tableName: string, userId: string): Promise<{ queued: Array<{ rowId: string; position: number }>; reserved: LockReservation[] }> {
+    return this.exclusive(async () => ({
+      queued: this.waiting.positionsFor(tableName, userId),
+      reserved: this.activeReservations(tableName).filter((reservation) => reservation.userId === userId),
+    }));
+  }
+
+  /**
+   * Unexpired reservations in a table.
+   */
+  listReservations(tableName: string): Promise<LockReservation[]> {
+    return this.exclusive(async () => this.activeReservations(tableName));
+  }
+
+  private activeReservations(tableName?: string): LockReservation[] {
+    return this.waiting
+      .listReservations(tableName)
+      .map((reservation) => this.activeReservation(reservation.tableName, reservation.rowId))
+      .filter((reservation): reservation is LockReservation => !!reservation);
+  }
+
+  private async listActive(prefix?: string): Promise<StoredLock[]> {
+    const active: StoredLock[] = [];
+    for (const [key, lock] of await this.adapter.list(prefix)) {
+      if (this.isExpired(lock)) {
+        await this.removeLock(key, lock, 'expire');
+      } else {
+        active.push(lock);
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Remove every expired lock, and pass lapsed reservations on to the next user in line.
+   * @returns The locks that were removed
+   */
+  cleanup(): Promise<StoredLock[]> {
+    return this.exclusive(async () => {
+      const removed: StoredLock[] = [];
+      for (const [key, lock] of await this.adapter.list()) {
+        if (this.isExpired(lock)) {
+          await this.removeLock(key, lock, 'expire');
+          removed.push(lock);
+        }
+      }
+      this.activeReservations();
+      return removed;
+    });
+  }
+}
@@ -0,0 +1,23 @@
+// A row lock as stored by a lock adapter
+export interface StoredLock {
+  tableName: string;
+  rowId: string;
+  lockedBy: string;
+  lockedAt: string; // ISO timestamp, refreshed when the owner re-acquires
+  acquiredAt: string; // ISO timestamp of the first acquire - kept on refresh, checked against maxHoldMs
+  token: number; // Fencing token - increases with every new lock, kept when the owner refreshes
+}
+
+/**
+ * Storage backend for row locks. Keys are `${tableName}:${rowId}`.
+ * Adapters only store records - expiry and ownership rules live in LockRepository.
+ */
+export interface LockAdapter {
+  get(key: string): Promise<StoredLock | undefined>;
+  set(key: string, lock: StoredLock): Promise<void>;
+  delete(key: string): Promise<void>;
+  // All locks, optionally limited to keys starting with prefix
+  list(prefix?: string): Promise<Array<[string, StoredLock]>>;
+  // Next fencing token - must never repeat, even across restarts for persistent adapters
+  nextToken(): Promise<number>;
+}
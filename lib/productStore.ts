@@ -0,0 +1,39 @@
+// In-memory product store (simulates database)
+// In production, replace with actual database calls.
+// Route modules may only export handlers and route config, so the store lives here rather than in
+// app/api/products/route.ts.
+export interface Product {
+  id: number;
+  name: string;
+  category: string;
+  status: 'active' | 'inactive' | 'discontinued';
+  price: number;
+  stock: number;
+  description: string;
+  createdAt: string;
+  updatedAt: string;
+  version: number; // Incremented on every update - sent as the ETag
+  deletedAt?: string; // Soft delete: set by DELETE, cleared by POST /api/products/[id]/restore
+}
+
+// Kept on globalThis so every products route shares one store - each route is bundled separately,
+// and a soft delete made through one route must be restorable through another
+const globalStore = globalThis as typeof globalThis & { __products?: Product[] };
+
+// Initialize with mock data
+export const products: Product[] = globalStore.__products ??= Array.from({ length: 100 }, (_, i) => ({
+  id: i + 1,
+  name: `Product ${i + 1}`,
+  category: ['electronics', 'clothing', 'home', 'sports'][i % 4],
+  status: ['active', 'inactive', 'discontinued'][i % 3] as Product['status'],
+  price: Math.round(Math.random() * 1000 * 100) / 100,
+  stock: Math.floor(Math.random() * 500),
+  description: `Description for product ${i + 1}. This is a sample product with detailed information.`,
+  createdAt: new Date(Date.now() - Math.random() * 10000000000).toISOString(),
+  updatedAt: new Date(Date.now() - Math.random() * 1000000000).toISOString(),
+  version: 1,
+}));
+
+// Products that are not soft-deleted - what every read endpoint serves.
+// In production, purge soft-deleted rows once the undo window is long past.
+export const activeProducts = () => products.filter((p) => !p.deletedAt);
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { parseQueryParams, QueryError, runQuery, sortRows, withTieBreaker, type QuerySchema } from './queryEngine';
+
+interface Item {
+  id: number;
+  name: string;
+  category: string;
+  price: number;
+  createdAt: string;
+}
+
+const items: Item[] = [
+  { id: 1, name: 'Desk Lamp', category: 'home', price: 40, createdAt: '2024-01-10T10:00:00Z' },
+  { id: 2, name: 'Laptop', category: 'electronics', price: 900, createdAt: '2024-02-01T10:00:00Z' },
+  { id: 3, name: 'Lamp Shade', category: 'home', price: 15, createdAt: '2024-01-31T22:00:00Z' },
+  { id: 4, name: 'Phone', category: 'electronics', price: 600, createdAt: '2024-03-05T10:00:00Z' },
+  { id: 5, name: 'Rug', category: 'home', price: 40, createdAt: '2024-02-20T10:00:00Z' },
+];
+
+const schema: QuerySchema<Item> = {
+  fields: ['id', 'name', 'category', 'price', 'createdAt'],
+  filters: {
+    search: { accessor: (item) => item.name, defaultOp: 'contains' },
+    category: { accessor: (item) => item.category },
+    price: { accessor: (item) => item.price, type: 'number' },
+    priceRange: { accessor: (item) => item.price, type: 'number', defaultOp: 'between' },
+    createdAt: { accessor: (item) => item.createdAt, type: 'date' },
+  },
+  defaultSort: [{ field: 'id', sort: 'asc' }],
+  tieBreaker: 'id',
+};
+
+const ids = (query: Parameters<typeof runQuery>[1]) => runQuery(items, query, schema).data.map((item) => item.id);
+
+describe('runQuery filters', () => {
+  it('applies plain values with the default operator', () => {
+    expect(ids({ filters: { search: 'lamp' } })).toEqual([1, 3]);
+    expect(ids({ filters: { category: 'home' } })).toEqual([1, 3, 5]);
+    expect(ids({ filters: { priceRange: '0-40' } })).toEqual([1, 3, 5]);
+  });
+
+  it('ignores empty values', () => {
+    expect(ids({ filters: { search: '', category: [], price: null } })).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('combines filters with AND', () => {
+    expect(ids({ filters: { category: 'home', price: 40 } })).toEqual([1, 5]);
+  });
+});
+
+describe('runQuery operators', () => {
+  it.each([
+    [{ op: 'equals', value: 'LAPTOP' }, 'search', [2]],
+    [{ op: 'startsWith', value: 'lamp' }, 'search', [3]],
+    [{ op: 'gt', value: 500 }, 'price', [2, 4]],
+    [{ op: 'lte', value: 15 }, 'price', [3]],
+    [{ op: 'between', value: [40, 600] }, 'price', [1, 4, 5]],
+    [{ op: 'between', value: [500, ''] }, 'price', [2, 4]],
+    [{ op: 'in', value: ['electronics'] }, 'category', [2, 4]],
+    [{ op: 'notIn', value: ['home'] }, 'category', [2, 4]],
+  ] as const)('%o on %s', (condition, field, expected) => {
+    expect(ids({ filters: { [field]: condition } })).toEqual(expected);
+  });
+
+  it('treats date-only bounds as whole days', () => {
+    expect(ids({ filters: { createdAt: { op: 'lte', value: '2024-01-31' } } })).toEqual([1, 3]);
+    expect(ids({ filters: { createdAt: { op: 'equals', value: '2024-02-01' } } })).toEqual([2]);
+  });
+
+  it('skips incomplete conditions', () => {
+    expect(ids({ filters: { price: { op: 'gt', value: '' } } })).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('runQuery sorting', () => {
+  it('sorts by several fields in order', () => {
+    expect(ids({ sort: [{ field: 'category', sort: 'asc' }, { field: 'price', sort: 'desc' }] })).toEqual([2, 4, 1, 5, 3]);
+  });
+
+  it('breaks ties with the tie-breaker field', () => {
+    expect(ids({ sort: [{ field: 'price', sort: 'desc' }] })).toEqual([2, 4, 1, 5, 3]);
+    expect(withTieBreaker([{ field: 'price', sort: 'asc' }], 'id')).toEqual([
+      { field: 'price', sort: 'asc' },
+      { field: 'id', sort: 'asc' },
+    ]);
+    expect(withTieBreaker([{ field: 'id', sort: 'desc' }], 'id')).toEqual([{ field: 'id', sort: 'desc' }]);
+  });
+
+  it('uses the default sort without one', () => {
+    const shuffled = [items[3], items[0], items[4], items[2], items[1]];
+    expect(runQuery(shuffled, {}, schema).data.map((item) => item.id)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('puts empty values last', () => {
+    const rows = [{ id: 1, name: undefined }, { id: 2, name: 'b' }, { id: 3, name: 'a' }];
+    expect(sortRows(rows, [{ field: 'name', sort: 'asc' }]).map((row) => row.id)).toEqual([3, 2, 1]);
+  });
+});
+
+describe('runQuery projection and pagination', () => {
+  it('returns only the requested fields', () => {
+    expect(runQuery(items, { fields: ['id', 'name'], pageSize: 1 }, schema).data).toEqual([{ id: 1, name: 'Desk Lamp' }]);
+  });
+
+  it('paginates when pageSize is set', () => {
+    expect(runQuery(items, { page: 1, pageSize: 2 }, schema)).toMatchObject({
+      total: 5,
+      page: 1,
+      pageSize: 2,
+      totalPages: 3,
+    });
+    expect(ids({ page: 2, pageSize: 2 })).toEqual([5]);
+  });
+
+  it('returns every row as one page without pageSize', () => {
+    expect(runQuery(items, { page: 3 }, schema)).toMatchObject({ total: 5, page: 0, pageSize: 5, totalPages: 1 });
+  });
+});
+
+describe('runQuery errors', () => {
+  it('rejects unknown filter, sort and projection fields', () => {
+    expect(() => runQuery(items, { filters: { colour: 'red' } }, schema)).toThrow(QueryError);
+    expect(() => runQuery(items, { filters: { colour: 'red' } }, schema)).toThrow(/unknown filter field\(s\): colour/);
+    expect(() => runQuery(items, { sort: [{ field: 'stock', sort: 'asc' }] }, schema)).toThrow(/unknown sort field\(s\): stock/);
+    expect(() => runQuery(items, { fields: ['secret'] }, schema)).toThrow(/unknown field\(s\): secret/);
+  });
+
+  it('rejects filters named after Object.prototype members', () => {
+    const filters = parseQueryParams({ toString: 'x', constructor: 'x' }).filters;
+    expect(() => runQuery(items, { filters }, schema)).toThrow(/unknown filter field\(s\): toString, constructor/);
+  });
+
+  it('rejects duplicate sort fields and invalid pagination', () => {
+    expect(() =>
+      runQuery(items, { sort: [{ field: 'id', sort: 'asc' }, { field: 'id', sort: 'desc' }] }, schema)
+    ).toThrow(/sorted once/);
+    expect(() => runQuery(items, { page: -1, pageSize: 10 }, schema)).toThrow(/page must be/);
+    expect(() => runQuery(items, { pageSize: 0 }, schema)).toThrow(/pageSize must be/);
+  });
+});
+
+describe('parseQueryParams', () => {
+  it('splits flat params into pagination, sort, projection and filters', () => {
+    expect(parseQueryParams({ page: '2', pageSize: '10', sort: 'price:desc,name', fields: 'id,name', category: 'home' })).toEqual({
+      page: 2,
+      pageSize: 10,
+      sort: [{ field: 'price', sort: 'desc' }, { field: 'name', sort: 'asc' }],
+      fields: ['id', 'name'],
+      filters: { category: 'home' },
+    });
+  });
+
+  it('accepts the single-column sortField / sortOrder shorthand', () => {
+    expect(parseQueryParams({ sortField: 'price', sortOrder: 'desc' }).sort).toEqual([{ field: 'price', sort: 'desc' }]);
+  });
+});
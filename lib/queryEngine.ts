@@ -0,0 +1,200 @@
+import { applyFilters, type FilterDefinitions } from './filterEngine';
+
+export interface QuerySort {
+  field: string;
+  sort: 'asc' | 'desc';
+}
+
+// Typed query run against an in-memory collection
+export interface Query {
+  filters?: Record<string, any>; // Plain values or { op, value } conditions, keyed by filter name
+  sort?: QuerySort[]; // Applied in order; later entries break ties of earlier ones
+  page?: number; // Zero-based; pagination applies only when pageSize is set
+  pageSize?: number;
+  fields?: string[]; // Projection - return only these fields of each row
+}
+
+export interface QueryResult<T> {
+  data: Partial<T>[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// What a collection exposes to queries
+export interface QuerySchema<T> {
+  fields: ReadonlyArray<keyof T & string>; // Sortable and projectable fields
+  filters: FilterDefinitions<T>;
+  defaultSort?: QuerySort[];
+  tieBreaker?: keyof T & string; // Unique field appended to every sort so pages never overlap or skip rows
+}
+
+/**
+ * Thrown for queries that reference unknown fields or carry invalid pagination.
+ * Routes answer these with 400.
+ */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+// Request keys that are not filters
+const RESERVED_PARAMS = ['page', 'pageSize', 'sort', 'sortField', 'sortOrder', 'fields'];
+
+const toList = (value: any): string[] =>
+  (Array.isArray(value) ? value : String(value).split(','))
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+
+// Sort list from [{ field, sort }] or "price:desc,name" (query strings, same format as shareable URLs)
+const toSortList = (value: any): QuerySort[] => {
+  if (Array.isArray(value) && value.every((item) => typeof item === 'object' && item !== null)) {
+    return value.map((item) => ({ field: String(item.field ?? ''), sort: item.sort === 'desc' ? 'desc' : 'asc' }));
+  }
+  return toList(value).map((item) => {
+    const [field, sort] = item.split(':');
+    return { field, sort: sort === 'desc' ? 'desc' : 'asc' };
+  });
+};
+
+/**
+ * Build a query from flat request params (JSON body or query string):
+ * `page`, `pageSize`, `sort` (sort list) or the single-column `sortField`/`sortOrder`,
+ * `fields` (array or comma list), everything else is a filter.
+ * Undefined values are left out so callers can spread defaults underneath.
+ */
+export const parseQueryParams = (params: Record<string, any>): Query => {
+  const query: Query = {};
+
+  if (params.page !== undefined && params.page !== '') query.page = Number(params.page);
+  if (params.pageSize !== undefined && params.pageSize !== '') query.pageSize = Number(params.pageSize);
+  if (params.sort !== undefined && params.sort !== '') {
+    query.sort = toSortList(params.sort);
+  } else if (params.sortField) {
+    query.sort = [{ field: String(params.sortField), sort: params.sortOrder === 'desc' ? 'desc' : 'asc' }];
+  }
+  if (params.fields !== undefined && params.fields !== '') query.fields = toList(params.fields);
+
+  const filters = Object.fromEntries(
+    Object.entries(params).filter(([key, value]) => !RESERVED_PARAMS.includes(key) && value !== undefined)
+  );
+  if (Object.keys(filters).length > 0) query.filters = filters;
+
+  return query;
+};
+
+/**
+ * Check a query against a schema.
+ * @throws QueryError listing unknown filter, sort or projection fields, or invalid pagination
+ */
+export const validateQuery = <T>(query: Query, schema: QuerySchema<T>): void => {
+  const fieldNames: ReadonlyArray<string> = schema.fields;
+  const problems: string[] = [];
+
+  const unknownFilters = Object.keys(query.filters || {}).filter((key) => !Object.hasOwn(schema.filters, key));
+  if (unknownFilters.length > 0) problems.push(`unknown filter field(s): ${unknownFilters.join(', ')}`);
+
+  const sortFields = (query.sort || []).map((item) => item.field);
+  const unknownSort = sortFields.filter((field) => !fieldNames.includes(field));
+  if (unknownSort.length > 0) problems.push(`unknown sort field(s): ${unknownSort.join(', ')}`);
+  if (new Set(sortFields).size !== sortFields.length) problems.push('each field can only be sorted once');
+
+  const unknownFields = (query.fields || []).filter((field) => !fieldNames.includes(field));
+  if (unknownFields.length > 0) problems.push(`unknown field(s): ${unknownFields.join(', ')}`);
+
+  if (query.page !== undefined && (!Number.isInteger(query.page) || query.page < 0)) {
+    problems.push('page must be a non-negative integer');
+  }
+  if (query.pageSize !== undefined && (!Number.isInteger(query.pageSize) || query.pageSize < 1)) {
+    problems.push('pageSize must be a positive integer');
+  }
+
+  if (problems.length > 0) {
+    throw new QueryError(`Invalid query: ${problems.join('; ')}`);
+  }
+};
+
+// Compare two field values: numbers numerically, strings by locale, empty values last
+const compareValues = (a: any, b: any): number => {
+  const aEmpty = a === undefined || a === null;
+  const bEmpty = b === undefined || b === null;
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+/**
+ * Append the tie-breaker field to a sort list unless it is already sorted on.
+ */
+export const withTieBreaker = (sort: QuerySort[], tieBreaker?: string): QuerySort[] =>
+  !tieBreaker || sort.some((item) => item.field === tieBreaker)
+    ? sort
+    : [...sort, { field: tieBreaker, sort: 'asc' }];
+
+/**
+ * Sort rows by a list of fields. The sort is stable, so rows equal on every field keep their order.
+ */
+export const sortRows = <T extends Record<string, any>>(rows: T[], sort: QuerySort[]): T[] => {
+  if (sort.length === 0) return [...rows];
+
+  return [...rows].sort((a, b) => {
+    for (const { field, sort: direction } of sort) {
+      const comparison = compareValues(a[field], b[field]);
+      if (comparison !== 0) return direction === 'desc' ? -comparison : comparison;
+    }
+    return 0;
+  });
+};
+
+const project = <T extends Record<string, any>>(row: T, fields?: string[]): Partial<T> => {
+  if (!fields || fields.length === 0) return row;
+  return Object.fromEntries(fields.map((field) => [field, row[field]])) as Partial<T>;
+};
+
+/**
+ * Filter, sort, paginate and project an in-memory collection.
+ * Without a pageSize every matching row is returned as a single page.
+ *
+ * @throws QueryError when the query references fields the schema does not expose
+ *
+ * @example
+ * runQuery(products, { filters: { category: 'home' }, sort: [{ field: 'price', sort: 'desc' }], page: 0, pageSize: 25 }, productQuerySchema);
+ */
+export const runQuery = <T extends Record<string, any>>(
+  rows: T[],
+  query: Query,
+  schema: QuerySchema<T>
+): QueryResult<T> => {
+  validateQuery(query, schema);
+
+  const filtered = applyFilters(rows, query.filters || {}, schema.filters);
+  const sort = query.sort && query.sort.length > 0 ? query.sort : schema.defaultSort || [];
+  const sorted = sortRows(filtered, withTieBreaker(sort, schema.tieBreaker));
+  const total = sorted.length;
+
+  if (query.pageSize === undefined) {
+    return {
+      data: sorted.map((row) => project(row, query.fields)),
+      total,
+      page: 0,
+      pageSize: total,
+      totalPages: 1,
+    };
+  }
+
+  const page = query.page ?? 0;
+  const start = page * query.pageSize;
+
+  return {
+    data: sorted.slice(start, start + query.pageSize).map((row) => project(row, query.fields)),
+    total,
+    page,
+    pageSize: query.pageSize,
+    totalPages: Math.ceil(total / query.pageSize),
+  };
+};
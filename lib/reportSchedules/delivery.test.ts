@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { ReportSchedule, SavedSearch } from '@/components/DynamicSearch/types';
+import { toMimeMessage, type ReportDelivery } from './delivery';
+
+const delivery = (overrides: { subject?: string; fileName?: string } = {}): ReportDelivery => ({
+  schedule: { id: 's1', recipients: ['manager@example.com'] } as ReportSchedule,
+  search: { id: 'abc', name: 'Weekly' } as SavedSearch,
+  file: {
+    fileName: overrides.fileName ?? 'weekly.csv',
+    mimeType: 'text/csv',
+    content: 'id,name\n1,Lamp\n',
+    disposition: 'download',
+  },
+  subject: overrides.subject ?? 'Weekly - 1/6/2025',
+  body: 'Weekly: 1 products matching the saved search "Weekly".',
+  rowCount: 1,
+  generatedAt: '2025-01-06T08:00:00.000Z',
+});
+
+const headers = (message: string) => message.slice(0, message.indexOf('\r\n\r\n')).split('\r\n');
+
+describe('toMimeMessage', () => {
+  it('writes the headers and the attachment', () => {
+    const message = toMimeMessage(delivery(), 'reports@example.com');
+
+    expect(headers(message)).toEqual([
+      'From: reports@example.com',
+      'To: manager@example.com',
+      'Subject: Weekly - 1/6/2025',
+      'Date: Mon, 06 Jan 2025 08:00:00 GMT',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/mixed; boundary="report-s1"',
+    ]);
+    expect(message).toContain('Content-Disposition: attachment; filename="weekly.csv"');
+    expect(message).toContain(Buffer.from('id,name\n1,Lamp\n').toString('base64'));
+  });
+
+  it('keeps line breaks in a title from adding headers', () => {
+    const message = toMimeMessage(
+      delivery({ subject: 'Weekly\r\nBcc: someone@example.com', fileName: 'weekly"\r\nX-Evil: 1.csv' }),
+      'reports@example.com'
+    );
+
+    expect(headers(message)).toContain('Subject: Weekly Bcc: someone@example.com');
+    expect(message).not.toMatch(/^Bcc:/m);
+    expect(message).not.toMatch(/^X-Evil:/m);
+    expect(message).toContain('filename="weekly X-Evil: 1.csv"');
+  });
+});
@@ -0,0 +1,126 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ReportSchedule, SavedSearch } from '@/components/DynamicSearch/types';
+import type { ExportFile } from '@/lib/reports';
+
+// A rendered scheduled report, ready to send
+export interface ReportDelivery {
+  schedule: ReportSchedule;
+  search: SavedSearch;
+  file: ExportFile;
+  subject: string;
+  body: string; // Plain text
+  rowCount: number;
+  generatedAt: string;
+}
+
+/**
+ * Sends scheduled reports. Swap the default outbox for SMTP or an email API with
+ * setDeliveryAdapter, e.g. from instrumentation.ts.
+ */
+export interface DeliveryAdapter {
+  name: string;
+  deliver(delivery: ReportDelivery): Promise<void>;
+}
+
+const REPORT_SENDER = process.env.REPORT_SENDER || 'reports@localhost';
+
+// Base64 split into 76-character lines, as MIME requires
+const base64Lines = (content: string | Uint8Array) =>
+  (typeof content === 'string' ? Buffer.from(content, 'utf8') : Buffer.from(content))
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+// Line breaks in a header value would start new headers (e.g. a Bcc: in a report title)
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, ' ');
+
+// A quote or backslash would end a name="..." parameter early
+const quotedValue = (value: string) => headerValue(value).replace(/["\\]/g, '');
+
+/**
+ * The delivery as a MIME message (.eml) with the report attached - what an SMTP adapter would send.
+ * Header values (sender, recipients, subject, file name) are stripped of line breaks.
+ */
+export function toMimeMessage(delivery: ReportDelivery, from = REPORT_SENDER): string {
+  const boundary = `report-${delivery.schedule.id}`;
+  const { file } = delivery;
+  const fileName = quotedValue(file.fileName);
+
+  return [
+    `From: ${headerValue(from)}`,
+    `To: ${delivery.schedule.recipients.map(headerValue).join(', ')}`,
+    `Subject: ${headerValue(delivery.subject)}`,
+    `Date: ${new Date(delivery.generatedAt).toUTCString()}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    delivery.body,
+    '',
+    `--${boundary}`,
+    `Content-Type: ${headerValue(file.mimeType)}; name="${fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-Disposition: attachment; filename="${fileName}"`,
+    '',
+    base64Lines(file.content),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * Writes each delivery to a folder of the outbox directory instead of sending it:
+ * `message.eml` (open it in any mail client), the attached report, and `delivery.json`.
+ * Lets schedules be tested without an SMTP server.
+ */
+export class OutboxDeliveryAdapter implements DeliveryAdapter {
+  name = 'outbox';
+
+  constructor(private directory: string) {}
+
+  async deliver(delivery: ReportDelivery): Promise<void> {
+    const stamp = delivery.generatedAt.replace(/[:.]/g, '-');
+    const folder = path.join(this.directory, `${stamp}-${delivery.schedule.id}`);
+    await fs.mkdir(folder, { recursive: true });
+
+    await fs.writeFile(path.join(folder, delivery.file.fileName), delivery.file.content);
+    await fs.writeFile(path.join(folder, 'message.eml'), toMimeMessage(delivery));
+    await fs.writeFile(
+      path.join(folder, 'delivery.json'),
+      JSON.stringify(
+        {
+          scheduleId: delivery.schedule.id,
+          savedSearchId: delivery.search.id,
+          to: delivery.schedule.recipients,
+          subject: delivery.subject,
+          attachment: delivery.file.fileName,
+          rowCount: delivery.rowCount,
+          generatedAt: delivery.generatedAt,
+        },
+        null,
+        2
+      )
+    );
+  }
+}
+
+// Kept on globalThis so a replacement set from instrumentation.ts also applies to the routes
+const globalStore = globalThis as typeof globalThis & { __reportDelivery?: DeliveryAdapter };
+
+/**
+ * Current delivery adapter. Defaults to an outbox at REPORT_OUTBOX_DIR (default: .data/outbox).
+ */
+export function getDeliveryAdapter(): DeliveryAdapter {
+  if (!globalStore.__reportDelivery) {
+    globalStore.__reportDelivery = new OutboxDeliveryAdapter(
+      process.env.REPORT_OUTBOX_DIR || path.join(process.cwd(), '.data', 'outbox')
+    );
+  }
+  return globalStore.__reportDelivery;
+}
+
+export function setDeliveryAdapter(adapter: DeliveryAdapter): void {
+  globalStore.__reportDelivery = adapter;
+}
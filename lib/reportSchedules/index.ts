@@ -0,0 +1,23 @@
+export {
+  validateReportSchedule,
+  listReportSchedules,
+  getReportSchedule,
+  dueReportSchedules,
+  createReportSchedule,
+  updateReportSchedule,
+  recordReportScheduleRun,
+  deleteReportSchedule,
+  deleteSchedulesForSearch,
+} from './store';
+export type { ReportScheduleChanges } from './store';
+export { OutboxDeliveryAdapter, getDeliveryAdapter, setDeliveryAdapter, toMimeMessage } from './delivery';
+export type { DeliveryAdapter, ReportDelivery } from './delivery';
+export {
+  ScheduleError,
+  DEFAULT_REPORT_SOURCE,
+  runReportSchedule,
+  runDueReportSchedules,
+  startReportScheduler,
+  stopReportScheduler,
+} from './scheduler';
+export type { ReportSource, ReportSources } from './scheduler';
@@ -0,0 +1,143 @@
+import type { ReportSchedule } from '@/components/DynamicSearch/types';
+import { getSavedSearch } from '@/lib/savedSearchStore';
+import { runExport, type ExportColumn } from '@/lib/reports';
+import { dueReportSchedules, recordReportScheduleRun } from './store';
+import { getDeliveryAdapter, type ReportDelivery } from './delivery';
+
+/**
+ * What a scheduled report of a saved search queries and exports, by SavedSearch.context.
+ */
+export interface ReportSource {
+  title: string; // Shown in the email, e.g. "Products"
+  columns: ExportColumn<any>[];
+  // Every row matching a saved search's params, through the query engine
+  rows: (params: Record<string, any>) => Record<string, any>[];
+}
+
+export type ReportSources = Record<string, ReportSource>;
+
+// Saved searches without a context come from this source
+export const DEFAULT_REPORT_SOURCE = 'products';
+
+/**
+ * Thrown for schedules that can't run: a deleted saved search or an unknown context.
+ */
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+/**
+ * Run a schedule now: query its saved search, export the rows in the schedule's format and hand
+ * the file to the delivery adapter. The outcome and the next run are recorded on the schedule.
+ * @throws ScheduleError, ExportError or QueryError (after recording the failure)
+ */
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  sources: ReportSources,
+  now: Date = new Date()
+): Promise<ReportDelivery> {
+  try {
+    const search = getSavedSearch(schedule.savedSearchId);
+    if (!search) {
+      throw new ScheduleError(`Saved search ${schedule.savedSearchId} no longer exists`);
+    }
+
+    const context = search.context || DEFAULT_REPORT_SOURCE;
+    const source = sources[context];
+    if (!source) {
+      throw new ScheduleError(`No report source for saved search context "${context}"`);
+    }
+
+    const rows = source.rows(search.params);
+    const title = schedule.title || search.name;
+    const file = await runExport(schedule.format, {
+      rows,
+      columns: source.columns,
+      title,
+      params: search.params,
+      searchName: search.name,
+    });
+
+    const generatedAt = now.toISOString();
+    const delivery: ReportDelivery = {
+      schedule,
+      search,
+      file,
+      subject: `${title} - ${now.toLocaleDateString()}`,
+      body: [
+        `${title}: ${rows.length} ${source.title.toLowerCase()} matching the saved search "${search.name}".`,
+        `The report is attached (${file.fileName}).`,
+        '',
+        `Schedule: ${schedule.cron}`,
+      ].join('\n'),
+      rowCount: rows.length,
+      generatedAt,
+    };
+
+    await getDeliveryAdapter().deliver(delivery);
+    recordReportScheduleRun(schedule.id, now);
+    return delivery;
+  } catch (error) {
+    recordReportScheduleRun(schedule.id, now, error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+/**
+ * Run every schedule that is due, one at a time. Failures are logged and recorded on the
+ * schedule without stopping the others.
+ * @returns the number of schedules that ran
+ */
+export async function runDueReportSchedules(sources: ReportSources, now: Date = new Date()): Promise<number> {
+  const due = dueReportSchedules(now);
+  for (const schedule of due) {
+    try {
+      await runReportSchedule(schedule, sources, now);
+    } catch (error) {
+      console.error(`Scheduled report ${schedule.id} failed:`, error);
+    }
+  }
+  return due.length;
+}
+
+interface ReportSchedulerOptions {
+  sources: ReportSources;
+  interval?: number; // How often due schedules are checked (default: 30 seconds)
+}
+
+// Kept on globalThis so dev hot reloads never start a second timer
+const globalStore = globalThis as typeof globalThis & { __reportScheduler?: ReturnType<typeof setInterval> };
+
+/**
+ * Start the in-process scheduler (once per server process - see instrumentation.ts).
+ * Due schedules are checked every `interval`, so a run can start up to that much late. Runs that
+ * fall behind are not repeated: after each run the schedule moves on to its next time after now.
+ * @returns a function that stops the scheduler
+ */
+export function startReportScheduler({ sources, interval = 30_000 }: ReportSchedulerOptions): () => void {
+  if (!globalStore.__reportScheduler) {
+    let running = false;
+    globalStore.__reportScheduler = setInterval(async () => {
+      // A slow run (large PDF, slow adapter) must not overlap the next check
+      if (running) return;
+      running = true;
+      try {
+        await runDueReportSchedules(sources);
+      } finally {
+        running = false;
+      }
+    }, interval);
+  }
+
+  return stopReportScheduler;
+}
+
+export function stopReportScheduler(): void {
+  if (globalStore.__reportScheduler) {
+    clearInterval(globalStore.__reportScheduler);
+    globalStore.__reportScheduler = undefined;
+  }
+}
@@ -0,0 +1,136 @@
+import type { ReportSchedule } from '@/components/DynamicSearch/types';
+import { getExporter } from '@/lib/reports';
+import { CronError, nextCronRun } from '@/lib/cron';
+
+// Mock database - replace with your actual database.
+// Kept on globalThis so the routes, the scheduler (started from instrumentation.ts) and dev hot
+// reloads share the same records.
+const globalStore = globalThis as typeof globalThis & { __reportSchedules?: ReportSchedule[] };
+const schedules: ReportSchedule[] = globalStore.__reportSchedules ?? (globalStore.__reportSchedules = []);
+
+export type ReportScheduleChanges = Partial<Pick<ReportSchedule, 'cron' | 'format' | 'recipients' | 'title' | 'enabled'>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check the editable fields of a schedule.
+ * @returns the problem, or null when the changes are valid
+ */
+export function validateReportSchedule(changes: ReportScheduleChanges): string | null {
+  if (changes.cron !== undefined) {
+    if (typeof changes.cron !== 'string') return 'cron must be a string';
+    try {
+      if (!nextCronRun(changes.cron)) return `cron "${changes.cron}" never runs`;
+    } catch (error) {
+      if (error instanceof CronError) return error.message;
+      throw error;
+    }
+  }
+
+  if (changes.format !== undefined && !getExporter(changes.format)) {
+    return `Unknown report format: ${changes.format}`;
+  }
+
+  if (changes.recipients !== undefined) {
+    if (!Array.isArray(changes.recipients) || changes.recipients.length === 0) {
+      return 'recipients must list at least one email address';
+    }
+    const invalid = changes.recipients.filter((recipient) => typeof recipient !== 'string' || !EMAIL_PATTERN.test(recipient));
+    if (invalid.length > 0) return `Invalid recipients: ${invalid.join(', ')}`;
+  }
+
+  if (changes.title !== undefined && typeof changes.title !== 'string') {
+    return 'title must be a string';
+  }
+
+  if (changes.enabled !== undefined && typeof changes.enabled !== 'boolean') {
+    return 'enabled must be true or false';
+  }
+
+  return null;
+}
+
+// Next run of an enabled schedule, as an ISO string
+const nextRunAt = (schedule: Pick<ReportSchedule, 'cron' | 'enabled'>, after = new Date()): string | undefined =>
+  schedule.enabled ? nextCronRun(schedule.cron, after)?.toISOString() : undefined;
+
+/**
+ * Schedules created by a user, optionally only those of one saved search.
+ * Admins see every user's schedules.
+ */
+export function listReportSchedules(userId: string, isAdmin = false, savedSearchId?: string): ReportSchedule[] {
+  return schedules.filter((schedule) => {
+    if (savedSearchId && schedule.savedSearchId !== savedSearchId) return false;
+    return isAdmin || schedule.createdBy === userId;
+  });
+}
+
+export function getReportSchedule(id: string): ReportSchedule | undefined {
+  return schedules.find((schedule) => schedule.id === id);
+}
+
+// Enabled schedules whose next run is at or before `now`
+export function dueReportSchedules(now: Date = new Date()): ReportSchedule[] {
+  return schedules.filter((schedule) => schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now);
+}
+
+export function createReportSchedule(
+  input: Omit<ReportSchedule, 'id' | 'createdAt' | 'nextRunAt' | 'lastRunAt' | 'lastStatus' | 'lastError'>
+): ReportSchedule {
+  const schedule: ReportSchedule = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    nextRunAt: nextRunAt(input),
+  };
+  schedules.push(schedule);
+  return schedule;
+}
+
+/**
+ * Apply changes to a schedule. The next run is recalculated when the cron or `enabled` changes.
+ */
+export function updateReportSchedule(id: string, changes: ReportScheduleChanges): ReportSchedule | undefined {
+  const index = schedules.findIndex((schedule) => schedule.id === id);
+  if (index === -1) return undefined;
+
+  const updated = { ...schedules[index], ...changes };
+  if (changes.cron !== undefined || changes.enabled !== undefined) {
+    updated.nextRunAt = nextRunAt(updated);
+  }
+  schedules[index] = updated;
+  return updated;
+}
+
+// Record the outcome of a run and move the schedule to its next run after `ranAt`
+export function recordReportScheduleRun(id: string, ranAt: Date, error?: string): ReportSchedule | undefined {
+  const index = schedules.findIndex((schedule) => schedule.id === id);
+  if (index === -1) return undefined;
+
+  const schedule = schedules[index];
+  schedules[index] = {
+    ...schedule,
+    lastRunAt: ranAt.toISOString(),
+    lastStatus: error ? 'error' : 'success',
+    lastError: error,
+    nextRunAt: nextRunAt(schedule, ranAt),
+  };
+  return schedules[index];
+}
+
+export function deleteReportSchedule(id: string): boolean {
+  const index = schedules.findIndex((schedule) => schedule.id === id);
+  if (index === -1) return false;
+
+  schedules.splice(index, 1);
+  return true;
+}
+
+// Remove every schedule of a saved search (when the search is deleted)
+export function deleteSchedulesForSearch(savedSearchId: string): number {
+  const before = schedules.length;
+  for (let index = schedules.length - 1; index >= 0; index--) {
+    if (schedules[index].savedSearchId === savedSearchId) schedules.splice(index, 1);
+  }
+  return before - schedules.length;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { chartData, chartShapes, chartTitle, renderChartSvg, type ChartShape } from './chart';
+import type { ExportColumn } from './types';
+
+const rows = [
+  { category: 'lamps', price: 10 },
+  { category: 'desks', price: 200 },
+  { category: 'lamps', price: 30 },
+  { category: null, price: 5 },
+];
+
+const columns: ExportColumn[] = [
+  { id: 'category', label: 'Category', format: (value) => (value ? String(value).toUpperCase() : '') },
+  { id: 'price', label: 'Price' },
+];
+
+const ofKind = <Kind extends ChartShape['kind']>(shapes: ChartShape[], kind: Kind) =>
+  shapes.filter((shape): shape is Extract<ChartShape, { kind: Kind }> => shape.kind === kind);
+
+describe('chartData', () => {
+  it('aggregates one point per x value, in order of first appearance', () => {
+    expect(chartData(rows, { type: 'bar', x: 'category', y: 'price', aggregate: 'avg' }, columns)).toEqual([
+      { label: 'LAMPS', value: 20 },
+      { label: 'DESKS', value: 200 },
+      { label: '(empty)', value: 5 },
+    ]);
+  });
+
+  it('counts rows without a measure and orders line charts by x', () => {
+    expect(chartData(rows.slice(0, 3), { type: 'line', x: 'category' })).toEqual([
+      { label: 'desks', value: 1 },
+      { label: 'lamps', value: 2 },
+    ]);
+  });
+});
+
+describe('chartTitle', () => {
+  it('names the measure and the dimension', () => {
+    expect(chartTitle({ type: 'bar', x: 'category', y: 'price', aggregate: 'avg' }, columns)).toBe('Avg of Price by Category');
+    expect(chartTitle({ type: 'pie', x: 'category' }, columns)).toBe('Count by Category');
+    expect(chartTitle({ type: 'pie', x: 'category', title: 'Mix' }, columns)).toBe('Mix');
+  });
+});
+
+describe('chartShapes', () => {
+  it('shows "No data" instead of axes for an empty chart', () => {
+    for (const type of ['bar', 'line', 'pie'] as const) {
+      const shapes = chartShapes([], { type, x: 'category' }, 'Empty');
+
+      expect(ofKind(shapes, 'text').map((shape) => shape.text)).toEqual(['Empty', 'No data']);
+      expect(shapes).toHaveLength(2);
+    }
+    expect(renderChartSvg([], { type: 'bar', x: 'category' })).toContain('>No data</text>');
+  });
+
+  it('draws a single bar up to a rounded axis maximum', () => {
+    const shapes = chartShapes([{ label: 'Lamps', value: 873 }], { type: 'bar', x: 'category' }, 'One');
+    const [bar] = ofKind(shapes, 'rect');
+
+    expect(ofKind(shapes, 'rect')).toHaveLength(1);
+    expect(bar.height).toBeGreaterThan(0);
+    expect(ofKind(shapes, 'text').map((shape) => shape.text)).toEqual(
+      expect.arrayContaining(['0', '200', '1k', 'Lamps'])
+    );
+  });
+
+  it('draws a single line point and a full pie slice', () => {
+    const line = chartShapes([{ label: 'Lamps', value: 4 }], { type: 'line', x: 'category' }, 'One');
+    expect(ofKind(line, 'circle')).toHaveLength(1);
+    expect(ofKind(line, 'polygon')[0].points).toHaveLength(1);
+
+    const pie = chartShapes([{ label: 'Lamps', value: 4 }], { type: 'pie', x: 'category' }, 'One');
+    expect(ofKind(pie, 'polygon')).toHaveLength(1);
+    expect(ofKind(pie, 'text').map((shape) => shape.text)).toContain('Lamps: 4 (100%)');
+  });
+
+  it('draws a zero-value chart without dividing by zero', () => {
+    const shapes = chartShapes([{ label: 'Lamps', value: 0 }], { type: 'bar', x: 'category' }, 'Zero');
+    const numbers = shapes.flatMap((shape) => Object.values(shape).filter((value) => typeof value === 'number'));
+
+    expect(numbers.every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe('renderChartSvg', () => {
+  it('escapes labels and titles', () => {
+    const svg = renderChartSvg(
+      [{ name: '<b>A&B</b>', price: 1 }, { name: `"Tom's"`, price: 2 }],
+      { type: 'bar', x: 'name', y: 'price', title: 'Sales <script>alert(1)</script>' }
+    );
+
+    expect(svg).toContain('>Sales &lt;script&gt;alert(1)&lt;/script&gt;</text>');
+    expect(svg).toContain('>&lt;b&gt;A&amp;B&lt;/b&gt;</text>');
+    expect(svg).toContain('>&quot;Tom&#39;s&quot;</text>');
+    expect(svg).not.toMatch(/<(script|b)>/);
+  });
+
+  it('renders a standalone SVG document', () => {
+    const svg = renderChartSvg(rows, { type: 'pie', x: 'category' }, columns);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" viewBox="0 0 640 360"[^>]*>.*<\/svg>$/);
+    expect(svg.match(/<polygon /g)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,214 @@
+import type { ReportChartConfig } from '@/components/DynamicSearch/types';
+import type { ExportColumn } from './types';
+import { cellText, escapeHtml } from './format';
+import { aggregateValues } from './grouping';
+
+// Charts are laid out as shapes in a fixed coordinate space, then drawn as SVG (screen, HTML
+// export) or with jsPDF primitives (PDF export) - no chart library or canvas needed.
+export const CHART_WIDTH = 640;
+export const CHART_HEIGHT = 360;
+
+const PALETTE = ['#3f51b5', '#f50057', '#00897b', '#ff9800', '#8e24aa', '#039be5', '#7cb342', '#6d4c41', '#546e7a', '#e53935'];
+const TEXT_COLOR = '#424242';
+const AXIS_COLOR = '#9e9e9e';
+const GRID_COLOR = '#eeeeee';
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export type ChartShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth?: number }
+  | { kind: 'polygon'; points: Array<[number, number]>; fill?: string; stroke?: string; strokeWidth?: number; closed: boolean }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill: string }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; anchor: 'start' | 'middle' | 'end'; fill?: string; bold?: boolean };
+
+const chartAggregate = (config: ReportChartConfig) => config.aggregate ?? (config.y ? 'sum' : 'count');
+
+/**
+ * Aggregate rows into one point per distinct x value. Points keep the order in which their
+ * first row appears, except line charts, which are ordered by x.
+ */
+export function chartData<Row extends Record<string, any>>(
+  rows: Row[],
+  config: ReportChartConfig,
+  columns: ExportColumn<Row>[] = []
+): ChartPoint[] {
+  const xColumn = columns.find((column) => column.id === config.x);
+  const buckets = new Map<string, { label: string; key: any; rows: Row[] }>();
+  for (const row of rows) {
+    const key = String(row[config.x] ?? '');
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.rows.push(row);
+    } else {
+      const label = xColumn ? cellText(xColumn, row) : key;
+      buckets.set(key, { label: label || '(empty)', key: row[config.x], rows: [row] });
+    }
+  }
+
+  let entries = Array.from(buckets.values());
+  if (config.type === 'line') {
+    entries = entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  const aggregate = chartAggregate(config);
+  return entries.map((entry) => ({
+    label: entry.label,
+    value: aggregateValues(aggregate, entry.rows.map((row) => (config.y ? row[config.y] : 1))) ?? 0,
+  }));
+}
+
+// Default chart title, e.g. "Avg of Price by Category"
+export function chartTitle(config: ReportChartConfig, columns: ExportColumn<any>[] = []): string {
+  if (config.title) return config.title;
+  const label = (id: string) => columns.find((column) => column.id === id)?.label ?? id;
+  const aggregate = chartAggregate(config);
+  const measure = config.y && aggregate !== 'count' ? `${aggregate[0].toUpperCase()}${aggregate.slice(1)} of ${label(config.y)}` : 'Count';
+  return `${measure} by ${label(config.x)}`;
+}
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Round numbers for axis labels: 1234 -> "1.2k"
+const shortNumber = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) return `${Math.round(value / 100_000) / 10}M`;
+  if (abs >= 1_000) return `${Math.round(value / 100) / 10}k`;
+  return String(Math.round(value * 100) / 100);
+};
+
+// A "nice" axis maximum and step, e.g. 873 -> 1000 in steps of 200
+const niceScale = (max: number, ticks = 5) => {
+  if (max <= 0) return { max: 1, step: 1 / ticks };
+  const rough = max / ticks;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= rough)!;
+  return { max: Math.ceil(max / step) * step, step };
+};
+
+function axisShapes(points: ChartPoint[], plot: { left: number; top: number; right: number; bottom: number }) {
+  const shapes: ChartShape[] = [];
+  const { max, step } = niceScale(Math.max(0, ...points.map((point) => point.value)));
+  const height = plot.bottom - plot.top;
+  const y = (value: number) => plot.bottom - (Math.max(0, value) / max) * height;
+
+  for (let tick = 0; tick <= max + step / 2; tick += step) {
+    shapes.push({ kind: 'line', x1: plot.left, y1: y(tick), x2: plot.right, y2: y(tick), stroke: GRID_COLOR });
+    shapes.push({ kind: 'text', x: plot.left - 8, y: y(tick) + 4, text: shortNumber(tick), size: 11, anchor: 'end', fill: TEXT_COLOR });
+  }
+  shapes.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.right, y2: plot.bottom, stroke: AXIS_COLOR });
+  shapes.push({ kind: 'line', x1: plot.left, y1: plot.top, x2: plot.left, y2: plot.bottom, stroke: AXIS_COLOR });
+
+  const band = (plot.right - plot.left) / Math.max(points.length, 1);
+  const center = (index: number) => plot.left + band * index + band / 2;
+  // Skip labels that would overlap
+  const every = Math.max(1, Math.ceil(points.length / Math.floor((plot.right - plot.left) / 60)));
+  points.forEach((point, index) => {
+    if (index % every !== 0) return;
+    shapes.push({ kind: 'text', x: center(index), y: plot.bottom + 18, text: truncate(point.label, 12), size: 11, anchor: 'middle', fill: TEXT_COLOR });
+  });
+
+  return { shapes, y, band, center };
+}
+
+/**
+ * Lay out a chart as shapes in a CHART_WIDTH x CHART_HEIGHT space.
+ */
+export function chartShapes(points: ChartPoint[], config: ReportChartConfig, title: string): ChartShape[] {
+  const shapes: ChartShape[] = [
+    { kind: 'text', x: CHART_WIDTH / 2, y: 24, text: title, size: 15, anchor: 'middle', fill: TEXT_COLOR, bold: true },
+  ];
+
+  if (points.length === 0) {
+    shapes.push({ kind: 'text', x: CHART_WIDTH / 2, y: CHART_HEIGHT / 2, text: 'No data', size: 13, anchor: 'middle', fill: AXIS_COLOR });
+    return shapes;
+  }
+
+  if (config.type === 'pie') {
+    const total = points.reduce((sum, point) => sum + Math.max(0, point.value), 0) || 1;
+    const cx = 200;
+    const cy = 195;
+    const r = 140;
+    let angle = -Math.PI / 2;
+    points.forEach((point, index) => {
+      const sweep = (Math.max(0, point.value) / total) * Math.PI * 2;
+      // Slices are polygons (an arc point every ~2 degrees) so the PDF backend can draw them too
+      const segments = Math.max(2, Math.ceil(sweep / (Math.PI / 90)));
+      const arc: Array<[number, number]> = Array.from({ length: segments + 1 }, (_, step) => {
+        const a = angle + (sweep * step) / segments;
+        return [cx + r * Math.cos(a), cy + r * Math.sin(a)];
+      });
+      const color = PALETTE[index % PALETTE.length];
+      shapes.push({ kind: 'polygon', points: [[cx, cy], ...arc], fill: color, stroke: '#ffffff', strokeWidth: 1, closed: true });
+      angle += sweep;
+
+      // Legend
+      const legendY = 70 + index * 22;
+      if (legendY < CHART_HEIGHT - 10) {
+        const percent = Math.round((Math.max(0, point.value) / total) * 1000) / 10;
+        shapes.push({ kind: 'rect', x: 390, y: legendY - 11, width: 14, height: 14, fill: color });
+        shapes.push({ kind: 'text', x: 412, y: legendY, text: `${truncate(point.label, 20)}: ${shortNumber(point.value)} (${percent}%)`, size: 12, anchor: 'start', fill: TEXT_COLOR });
+      }
+    });
+    return shapes;
+  }
+
+  const plot = { left: 64, top: 48, right: CHART_WIDTH - 24, bottom: CHART_HEIGHT - 40 };
+  const axis = axisShapes(points, plot);
+  shapes.push(...axis.shapes);
+
+  if (config.type === 'bar') {
+    const width = Math.min(axis.band * 0.7, 80);
+    points.forEach((point, index) => {
+      const top = axis.y(point.value);
+      shapes.push({ kind: 'rect', x: axis.center(index) - width / 2, y: top, width, height: plot.bottom - top, fill: PALETTE[0] });
+    });
+  } else {
+    const line = points.map((point, index): [number, number] => [axis.center(index), axis.y(point.value)]);
+    shapes.push({ kind: 'polygon', points: line, stroke: PALETTE[0], strokeWidth: 2, closed: false });
+    line.forEach(([cx, cy]) => shapes.push({ kind: 'circle', cx, cy, r: 3.5, fill: PALETTE[0] }));
+  }
+  return shapes;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Shapes as a standalone SVG document
+export function shapesToSvg(shapes: ChartShape[]): string {
+  const elements = shapes.map((shape) => {
+    switch (shape.kind) {
+      case 'rect':
+        return `<rect x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.width)}" height="${round(shape.height)}" fill="${shape.fill}"/>`;
+      case 'line':
+        return `<line x1="${round(shape.x1)}" y1="${round(shape.y1)}" x2="${round(shape.x2)}" y2="${round(shape.y2)}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth ?? 1}"/>`;
+      case 'polygon': {
+        const points = shape.points.map(([x, y]) => `${round(x)},${round(y)}`).join(' ');
+        const tag = shape.closed ? 'polygon' : 'polyline';
+        return `<${tag} points="${points}" fill="${shape.fill ?? 'none'}" stroke="${shape.stroke ?? 'none'}" stroke-width="${shape.strokeWidth ?? 1}"/>`;
+      }
+      case 'circle':
+        return `<circle cx="${round(shape.cx)}" cy="${round(shape.cy)}" r="${shape.r}" fill="${shape.fill}"/>`;
+      case 'text':
+        return `<text x="${round(shape.x)}" y="${round(shape.y)}" font-size="${shape.size}" text-anchor="${shape.anchor}" fill="${shape.fill ?? TEXT_COLOR}"${shape.bold ? ' font-weight="600"' : ''}>${escapeHtml(shape.text)}</text>`;
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" font-family="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif">${elements.join('')}</svg>`;
+}
+
+/**
+ * Render a report chart as SVG markup.
+ *
+ * @example
+ * renderChartSvg(products, { type: 'bar', x: 'category', y: 'price', aggregate: 'avg' }, columns);
+ */
+export function renderChartSvg<Row extends Record<string, any>>(
+  rows: Row[],
+  config: ReportChartConfig,
+  columns: ExportColumn<Row>[] = []
+): string {
+  return shapesToSvg(chartShapes(chartData(rows, config, columns), config, chartTitle(config, columns)));
+}
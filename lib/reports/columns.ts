@@ -0,0 +1,95 @@
+import dayjs from 'dayjs';
+import type { GridColDef } from '@mui/x-data-grid';
+import type { ExportColumn } from './types';
+import { escapeHtml } from './format';
+
+export type ReportValueType = 'string' | 'number' | 'currency' | 'date' | 'boolean';
+
+export type ReportAggregate = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+// Colour of a value shown as a chip (grid, report table and HTML preview)
+export type ReportTone = 'default' | 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * One column of a report. The DataGrid columns, the on-screen report table and every
+ * export are derived from the same definitions.
+ */
+export interface ReportColumn<Row = Record<string, any>> {
+  id: string; // Property of the row
+  label: string; // Header in the grid and the report
+  type?: ReportValueType; // Drives the default formatting and alignment (default: 'string')
+  format?: (value: any, row: Row) => string; // Display text (default: by type)
+  align?: 'left' | 'right'; // Default: right for numbers and currency
+  width?: number; // In pixels
+  exportHeader?: string; // Header in exported files (default: label)
+  aggregate?: ReportAggregate; // How the column is summarized in totals
+  tone?: (value: any, row: Row) => ReportTone; // Show the value as a chip of this colour
+}
+
+const DATE_FORMAT = 'MM/DD/YYYY';
+
+const isNumeric = (column: ReportColumn<any>) => column.type === 'number' || column.type === 'currency';
+
+export const columnAlign = (column: ReportColumn<any>): 'left' | 'right' =>
+  column.align ?? (isNumeric(column) ? 'right' : 'left');
+
+// Display text of a value, through the column's formatter or its type's default
+export const formatColumnValue = <Row extends Record<string, any>>(column: ReportColumn<Row>, value: any, row: Row): string => {
+  if (column.format) return column.format(value, row);
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (column.type) {
+    case 'currency':
+      return `$${Number(value).toFixed(2)}`;
+    case 'date':
+      return dayjs(value).format(DATE_FORMAT);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+};
+
+// Typed value for spreadsheets and JSON: unformatted numbers and plain values stay as they are,
+// dates, booleans and custom formats become the display text
+const exportValue = <Row extends Record<string, any>>(column: ReportColumn<Row>, value: any, row: Row) => {
+  if (column.format || column.type === 'date' || column.type === 'boolean') {
+    return formatColumnValue(column, value, row);
+  }
+  if (value === null || value === undefined || value === '') return null;
+  if (isNumeric(column)) return Number(value);
+  return typeof value === 'object' ? JSON.stringify(value) : value;
+};
+
+export const toExportColumn = <Row extends Record<string, any>>(column: ReportColumn<Row>): ExportColumn<Row> => ({
+  id: column.id,
+  label: column.exportHeader ?? column.label,
+  align: columnAlign(column),
+  width: column.width,
+  aggregate: column.aggregate,
+  format: (value, row) => formatColumnValue(column, value, row),
+  value: (value, row) => exportValue(column, value, row),
+  html: (value, row) => {
+    const text = escapeHtml(formatColumnValue(column, value, row));
+    if (column.tone) return `<span class="chip chip-${column.tone(value, row)}">${text}</span>`;
+    return column.type === 'currency' ? `<span class="amount">${text}</span>` : text;
+  },
+});
+
+/**
+ * DataGrid column for a report column. Pass `overrides` for grid-only settings such as
+ * `renderCell` or `flex`.
+ */
+export const toGridColumn = <Row extends Record<string, any>>(
+  column: ReportColumn<Row>,
+  overrides: Partial<GridColDef> = {}
+): GridColDef => ({
+  field: column.id,
+  headerName: column.label,
+  width: column.width,
+  type: isNumeric(column) ? 'number' : undefined,
+  align: columnAlign(column),
+  headerAlign: columnAlign(column),
+  valueFormatter: (value: any, row: Row) => formatColumnValue(column, value, row),
+  ...overrides,
+});
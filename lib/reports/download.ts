@@ -0,0 +1,32 @@
+'use client';
+
+import type { ExportFile } from './types';
+
+/**
+ * Hand an export to the user: save it as a file, or open previews (HTML) in a new window.
+ * @returns False when the preview window was blocked
+ */
+export function deliverExportFile(file: ExportFile): boolean {
+  if (file.disposition === 'preview') {
+    const previewWindow = window.open('', '_blank', 'width=1200,height=800');
+    if (!previewWindow) return false;
+    previewWindow.document.write(typeof file.content === 'string' ? file.content : new TextDecoder().decode(file.content));
+    previewWindow.document.close();
+    return true;
+  }
+
+  saveBlob(new Blob([file.content as BlobPart], { type: file.mimeType }), file.fileName);
+  return true;
+}
+
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
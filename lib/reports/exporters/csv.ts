@@ -0,0 +1,22 @@
+import type { Exporter, ExportColumn } from '../types';
+import { cellText } from '../format';
+
+// Quote a field when it contains a separator, quote or line break (RFC 4180)
+const csvField = (text: string): string => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+// One CSV line, without the line break
+export const csvLine = (values: string[]): string => values.map(csvField).join(',');
+
+export const csvHeader = (columns: ExportColumn<any>[]): string => csvLine(columns.map((column) => column.label));
+
+export const csvRow = <Row extends Record<string, any>>(columns: ExportColumn<Row>[], row: Row): string =>
+  csvLine(columns.map((column) => cellText(column, row)));
+
+export const csvExporter: Exporter = {
+  format: 'csv',
+  label: 'Download as CSV',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8',
+  export: async ({ rows, columns }) =>
+    [csvHeader(columns), ...rows.map((row) => csvRow(columns, row))].join('\n'),
+};
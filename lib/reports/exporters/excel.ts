@@ -0,0 +1,68 @@
+import type { Exporter, ExportColumn } from '../types';
+import { cellValue } from '../format';
+import { reportLines, totalLabel, type ReportLine } from '../grouping';
+
+type Cell = string | number | boolean | null;
+
+// Sheet row for a report line; subtotals keep numeric values so they stay usable in formulas
+const lineCells = (columns: ExportColumn<any>[], line: ReportLine): Cell[] => {
+  switch (line.kind) {
+    case 'group':
+      return [`${line.group.label} (${line.group.rows.length})`];
+    case 'row':
+      return columns.map((column) => cellValue(column, line.row));
+    default: {
+      const totals = line.kind === 'total' ? line.totals : line.group.totals;
+      const labelIndex = Math.max(0, columns.findIndex((column) => !column.aggregate));
+      return columns.map((column, index) => (index === labelIndex ? totalLabel(line) : totals[column.id] ?? null));
+    }
+  }
+};
+
+// Outline level of a line: a group's heading and contents sit one level below its subtotal,
+// so Excel's outline buttons collapse each group down to its subtotal row
+const outlineLevel = (line: ReportLine): number => {
+  switch (line.kind) {
+    case 'group':
+      return line.group.depth + 1;
+    case 'row':
+      return line.depth;
+    case 'subtotal':
+      return line.group.depth;
+    default:
+      return 0;
+  }
+};
+
+export const excelExporter: Exporter = {
+  format: 'excel',
+  label: 'Download as Excel',
+  extension: 'xlsx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  export: async ({ rows, columns, title, groupBy }) => {
+    // Dynamic import to reduce bundle size
+    const XLSX = await import('xlsx');
+
+    const lines = reportLines(rows, columns, groupBy);
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      columns.map((column) => column.label),
+      ...lines.map((line) => lineCells(columns, line)),
+    ]);
+    if (groupBy?.length) {
+      worksheet['!rows'] = [{}, ...lines.map((line) => ({ level: outlineLevel(line) }))];
+    }
+    worksheet['!cols'] = columns.map((column) => ({ wch: column.width ? Math.max(10, Math.round(column.width / 7)) : 20 }));
+
+    const workbook = XLSX.utils.book_new();
+    // Sheet names are limited to 31 characters
+    XLSX.utils.book_append_sheet(workbook, worksheet, title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Report');
+    workbook.Props = {
+      Title: title,
+      Subject: 'Search Results',
+      Author: 'Dynamic Search Component',
+      CreatedDate: new Date(),
+    };
+
+    return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+  },
+};
@@ -0,0 +1,191 @@
+import type { Exporter, ExportColumn } from '../types';
+import { cellText, escapeHtml } from '../format';
+import { reportLines, totalCells, type ReportLine } from '../grouping';
+import { renderChartSvg } from '../chart';
+
+// Cell markup; columns can return styled markup with the classes below (chip, chip-success, amount, ...)
+const cellHtml = (column: ExportColumn<any>, row: Record<string, any>): string =>
+  column.html ? column.html(row[column.id], row) : escapeHtml(cellText(column, row));
+
+const alignClass = (column: ExportColumn<any>) => (column.align === 'right' ? 'right' : '');
+
+const lineHtml = (columns: ExportColumn<any>[], line: ReportLine): string => {
+  switch (line.kind) {
+    case 'group':
+      return `<tr class="group"><td colspan="${columns.length}" style="padding-left: ${16 + line.group.depth * 20}px">${escapeHtml(line.group.label)} (${line.group.rows.length})</td></tr>`;
+    case 'row':
+      return `<tr>${columns.map((column) => `<td class="${alignClass(column)}">${cellHtml(column, line.row)}</td>`).join('')}</tr>`;
+    default:
+      return `<tr class="${line.kind}">${totalCells(columns, line)
+        .map((text, index) => `<td class="${alignClass(columns[index])}">${escapeHtml(text)}</td>`)
+        .join('')}</tr>`;
+  }
+};
+
+const STYLES = `
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+      line-height: 1.6;
+      color: #333;
+      background: #f5f5f5;
+      padding: 20px;
+    }
+    .container { max-width: 1200px; margin: 0 auto; background: white; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+    .header {
+      background: linear-gradient(135deg, #3f51b5, #1a237e);
+      color: white;
+      padding: 24px;
+      border-radius: 8px 8px 0 0;
+    }
+    .header h1 { font-size: 24px; margin-bottom: 8px; }
+    .header .meta { font-size: 14px; opacity: 0.9; }
+    .content { padding: 24px; }
+    .stats {
+      display: flex;
+      gap: 16px;
+      margin-bottom: 20px;
+      flex-wrap: wrap;
+    }
+    .stat {
+      background: #e3f2fd;
+      padding: 12px 20px;
+      border-radius: 6px;
+      font-weight: 500;
+    }
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 14px;
+    }
+    th {
+      background: #3f51b5;
+      color: white;
+      padding: 12px 16px;
+      text-align: left;
+      font-weight: 600;
+    }
+    th.right { text-align: right; }
+    td {
+      padding: 12px 16px;
+      border-bottom: 1px solid #e0e0e0;
+    }
+    td.right { text-align: right; }
+    tr:nth-child(even) { background: #fafafa; }
+    tr:hover { background: #e8f4fd; }
+    tr.group td { background: #e8eaf6; font-weight: 600; color: #1a237e; }
+    tr.subtotal td { background: #fafafa; font-weight: 600; border-bottom: 2px solid #c5cae9; }
+    tr.total td { background: #e3f2fd; font-weight: 700; border-top: 2px solid #3f51b5; }
+    .chart { margin-bottom: 24px; max-width: 800px; }
+    .chip {
+      display: inline-block;
+      padding: 4px 12px;
+      border-radius: 16px;
+      font-size: 12px;
+      font-weight: 500;
+    }
+    .chip-default { background: #eeeeee; color: #424242; }
+    .chip-success { background: #e8f5e9; color: #2e7d32; }
+    .chip-warning { background: #fff3e0; color: #e65100; }
+    .chip-error { background: #ffebee; color: #c62828; }
+    .chip-info { background: #e3f2fd; color: #1565c0; border: 1px solid #90caf9; }
+    .amount { font-weight: 600; color: #1565c0; }
+    .footer {
+      padding: 16px 24px;
+      background: #fafafa;
+      border-top: 1px solid #e0e0e0;
+      border-radius: 0 0 8px 8px;
+      font-size: 12px;
+      color: #666;
+      display: flex;
+      justify-content: space-between;
+    }
+    .actions {
+      padding: 16px 24px;
+      background: #fafafa;
+      border-bottom: 1px solid #e0e0e0;
+      display: flex;
+      gap: 12px;
+    }
+    .btn {
+      padding: 8px 16px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 14px;
+      font-weight: 500;
+    }
+    .btn-primary { background: #3f51b5; color: white; }
+    .btn-primary:hover { background: #303f9f; }
+    .btn-secondary { background: #e0e0e0; color: #333; }
+    .btn-secondary:hover { background: #bdbdbd; }
+    @media print {
+      body { background: white; padding: 0; }
+      .container { box-shadow: none; }
+      .actions { display: none; }
+      .header { background: #3f51b5 !important; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+      th { background: #3f51b5 !important; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }`;
+
+// Printable HTML preview, opened in a new window
+export const htmlExporter: Exporter = {
+  format: 'html',
+  label: 'Preview as HTML',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  disposition: 'preview',
+  export: async ({ rows, columns, title, description, groupBy, chart }) => {
+    const tableHeaders = columns
+      .map((column) => `<th class="${alignClass(column)}">${escapeHtml(column.label)}</th>`)
+      .join('');
+    const tableRows = reportLines(rows, columns, groupBy)
+      .map((line) => lineHtml(columns, line))
+      .join('\n          ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} - Preview</title>
+  <style>${STYLES}
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>${escapeHtml(title)}</h1>
+      <div class="meta">Generated: ${new Date().toLocaleString()}</div>
+      ${description ? `<div class="meta">${escapeHtml(description)}</div>` : ''}
+    </div>
+    <div class="actions">
+      <button class="btn btn-primary" onclick="window.print()">Print Report</button>
+      <button class="btn btn-secondary" onclick="window.close()">Close Preview</button>
+    </div>
+    <div class="content">
+      <div class="stats">
+        <div class="stat">Total Results: ${rows.length}</div>
+        <div class="stat">Columns: ${columns.length}</div>
+        ${groupBy?.length ? `<div class="stat">Grouped by: ${escapeHtml(groupBy.map((id) => columns.find((column) => column.id === id)?.label ?? id).join(' › '))}</div>` : ''}
+      </div>
+      ${chart ? `<div class="chart">${renderChartSvg(rows, chart, columns)}</div>` : ''}
+      <table>
+        <thead>
+          <tr>
+            ${tableHeaders}
+          </tr>
+        </thead>
+        <tbody>
+          ${tableRows}
+        </tbody>
+      </table>
+    </div>
+    <div class="footer">
+      <span>${escapeHtml(title)}</span>
+      <span>Page 1 of 1</span>
+    </div>
+  </div>
+</body>
+</html>`;
+  },
+};
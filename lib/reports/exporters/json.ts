@@ -0,0 +1,14 @@
+import type { Exporter, ExportColumn } from '../types';
+import { cellValue } from '../format';
+
+// A row as an object keyed by column id
+export const jsonRow = <Row extends Record<string, any>>(columns: ExportColumn<Row>[], row: Row) =>
+  Object.fromEntries(columns.map((column) => [column.id, cellValue(column, row)]));
+
+export const jsonExporter: Exporter = {
+  format: 'json',
+  label: 'Download as JSON',
+  extension: 'json',
+  mimeType: 'application/json',
+  export: async ({ rows, columns }) => JSON.stringify(rows.map((row) => jsonRow(columns, row)), null, 2),
+};
@@ -0,0 +1,129 @@
+import type { jsPDF as JsPDF } from 'jspdf';
+import type { Exporter, ExportColumn } from '../types';
+import { cellText } from '../format';
+import { reportLines, totalCells, type ReportLine } from '../grouping';
+import { CHART_HEIGHT, CHART_WIDTH, chartData, chartShapes, chartTitle, type ChartShape } from '../chart';
+
+const PT_PER_MM = 72 / 25.4;
+
+// Draw chart shapes with jsPDF primitives, scaled to `width` millimetres
+const drawChart = (doc: JsPDF, shapes: ChartShape[], left: number, top: number, width: number) => {
+  const scale = width / CHART_WIDTH;
+  const x = (value: number) => left + value * scale;
+  const y = (value: number) => top + value * scale;
+
+  for (const shape of shapes) {
+    switch (shape.kind) {
+      case 'rect':
+        doc.setFillColor(shape.fill);
+        doc.rect(x(shape.x), y(shape.y), shape.width * scale, shape.height * scale, 'F');
+        break;
+      case 'line':
+        doc.setDrawColor(shape.stroke);
+        doc.setLineWidth((shape.strokeWidth ?? 1) * scale);
+        doc.line(x(shape.x1), y(shape.y1), x(shape.x2), y(shape.y2));
+        break;
+      case 'polygon': {
+        // jsPDF takes the first point plus relative steps to the next ones
+        const [[startX, startY], ...rest] = shape.points;
+        const steps = rest.map(([pointX, pointY], index) => {
+          const [previousX, previousY] = index === 0 ? [startX, startY] : rest[index - 1];
+          return [(pointX - previousX) * scale, (pointY - previousY) * scale];
+        });
+        if (shape.fill) doc.setFillColor(shape.fill);
+        if (shape.stroke) doc.setDrawColor(shape.stroke);
+        doc.setLineWidth((shape.strokeWidth ?? 1) * scale);
+        const style = shape.fill && shape.stroke ? 'FD' : shape.fill ? 'F' : 'S';
+        doc.lines(steps, x(startX), y(startY), [1, 1], style, shape.closed);
+        break;
+      }
+      case 'circle':
+        doc.setFillColor(shape.fill);
+        doc.circle(x(shape.cx), y(shape.cy), shape.r * scale, 'F');
+        break;
+      case 'text':
+        doc.setFont('helvetica', shape.bold ? 'bold' : 'normal');
+        doc.setFontSize(shape.size * scale * PT_PER_MM);
+        doc.setTextColor(shape.fill ?? '#424242');
+        doc.text(shape.text, x(shape.x), y(shape.y), { align: shape.anchor === 'start' ? 'left' : shape.anchor === 'end' ? 'right' : 'center' });
+        break;
+    }
+  }
+
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(0);
+  doc.setLineWidth(0.2);
+};
+
+type Color = [number, number, number];
+
+const GROUP_FILL: Color = [232, 234, 246];
+const SUBTOTAL_FILL: Color = [250, 250, 250];
+const TOTAL_FILL: Color = [227, 242, 253];
+
+// autoTable body row for a report line; headings span the table, totals are bold
+const lineCells = (columns: ExportColumn<any>[], line: ReportLine) => {
+  switch (line.kind) {
+    case 'group':
+      return [{
+        content: `${line.group.label} (${line.group.rows.length})`,
+        colSpan: columns.length,
+        styles: {
+          fillColor: GROUP_FILL,
+          textColor: [26, 35, 126] as Color,
+          fontStyle: 'bold' as const,
+          cellPadding: { top: 3, right: 3, bottom: 3, left: 3 + line.group.depth * 4 },
+        },
+      }];
+    case 'row':
+      return columns.map((column) => cellText(column, line.row));
+    default:
+      return totalCells(columns, line).map((content) => ({
+        content,
+        styles: { fontStyle: 'bold' as const, fillColor: line.kind === 'total' ? TOTAL_FILL : SUBTOTAL_FILL },
+      }));
+  }
+};
+
+export const pdfExporter: Exporter = {
+  format: 'pdf',
+  label: 'Download as PDF',
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+  export: async ({ rows, columns, title, groupBy, chart }) => {
+    // Dynamic import to reduce bundle size
+    const jsPDF = (await import('jspdf')).default;
+    const autoTable = (await import('jspdf-autotable')).default;
+
+    const doc = new jsPDF();
+    doc.setFontSize(18);
+    doc.text(title, 14, 20);
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(`Generated: ${new Date().toLocaleString()}`, 14, 28);
+    doc.text(`Total Results: ${rows.length}`, 14, 34);
+    doc.setTextColor(0);
+
+    let tableTop = 42;
+    if (chart) {
+      const width = doc.internal.pageSize.getWidth() - 28;
+      drawChart(doc, chartShapes(chartData(rows, chart, columns), chart, chartTitle(chart, columns)), 14, 40, width);
+      tableTop = 40 + CHART_HEIGHT * (width / CHART_WIDTH) + 6;
+    }
+
+    autoTable(doc, {
+      startY: tableTop,
+      head: [columns.map((column) => column.label)],
+      body: reportLines(rows, columns, groupBy).map((line) => lineCells(columns, line)),
+      columnStyles: Object.fromEntries(
+        columns.map((column, index) => [index, { halign: column.align === 'right' ? 'right' : 'left' }])
+      ),
+      styles: { fontSize: 10, cellPadding: 3 },
+      headStyles: { fillColor: [63, 81, 181], textColor: 255, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      margin: { top: 42 },
+    });
+
+    return new Uint8Array(doc.output('arraybuffer'));
+  },
+};
@@ -0,0 +1,41 @@
+import type { Exporter, ExportRequest } from '../types';
+import { defaultFileName } from '../format';
+import { csvExporter } from './csv';
+import { excelExporter } from './excel';
+import { pdfExporter } from './pdf';
+
+const BUNDLED_EXPORTERS = [csvExporter, excelExporter, pdfExporter];
+
+// search.json - what produced the export, so it can be reproduced and audited later
+export const exportManifest = (request: ExportRequest<any>, files: string[], generatedAt: Date = new Date()) => ({
+  title: request.title,
+  savedSearch: request.searchName ?? null,
+  params: request.params ?? {},
+  columns: request.columns.map((column) => ({ id: column.id, label: column.label })),
+  groupBy: request.groupBy ?? [],
+  rowCount: request.rows.length,
+  generatedAt: generatedAt.toISOString(),
+  files,
+});
+
+// The report as CSV, XLSX and PDF, plus a search.json manifest
+export const zipExporter: Exporter = {
+  format: 'zip',
+  label: 'Download ZIP Archive',
+  extension: 'zip',
+  mimeType: 'application/zip',
+  export: async (request) => {
+    // Dynamic import to reduce bundle size
+    const { zipSync, strToU8 } = await import('fflate');
+
+    const baseName = request.fileName || defaultFileName(request.title);
+    const entries: Record<string, Uint8Array> = {};
+    for (const exporter of BUNDLED_EXPORTERS) {
+      const content = await exporter.export(request);
+      entries[`${baseName}.${exporter.extension}`] = typeof content === 'string' ? strToU8(content) : content;
+    }
+    entries['search.json'] = strToU8(JSON.stringify(exportManifest(request, Object.keys(entries)), null, 2));
+
+    return zipSync(entries);
+  },
+};
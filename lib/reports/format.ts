@@ -0,0 +1,28 @@
+import type { ExportColumn } from './types';
+
+// Text of a cell, through the column's formatter
+export const cellText = <Row extends Record<string, any>>(column: ExportColumn<Row>, row: Row): string => {
+  const value = row[column.id];
+  if (column.format) return column.format(value, row);
+  return value === null || value === undefined ? '' : String(value);
+};
+
+// Typed value of a cell for spreadsheets and JSON
+export const cellValue = <Row extends Record<string, any>>(column: ExportColumn<Row>, row: Row): string | number | boolean | null => {
+  const value = row[column.id];
+  if (column.value) return column.value(value, row);
+  if (value === undefined) return null;
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : value;
+};
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// e.g. "Product Report" -> "product-report-2024-05-01"
+export const defaultFileName = (title: string, date: Date = new Date()): string =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report'}-${date.toISOString().split('T')[0]}`;
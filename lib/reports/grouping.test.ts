@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateValues } from './grouping';
+
+describe('aggregateValues', () => {
+  it('skips empty values', () => {
+    const values = [3, '', null, '7.5', undefined, -2];
+    expect(aggregateValues('count', values)).toBe(3);
+    expect(aggregateValues('sum', values)).toBe(8.5);
+    expect(aggregateValues('min', values)).toBe(-2);
+    expect(aggregateValues('max', values)).toBe(7.5);
+  });
+
+  it('returns null when there is nothing to aggregate', () => {
+    expect(aggregateValues('min', [null, ''])).toBeNull();
+    expect(aggregateValues('avg', [])).toBeNull();
+  });
+
+  // Spreading this many arguments into Math.min/Math.max throws a RangeError
+  it('finds the min and max of very large columns', () => {
+    const values = Array.from({ length: 500_000 }, (_, i) => i - 1000);
+    expect(aggregateValues('min', values)).toBe(-1000);
+    expect(aggregateValues('max', values)).toBe(498_999);
+  });
+});
@@ -0,0 +1,163 @@
+import type { ExportColumn } from './types';
+import type { ReportAggregate } from './columns';
+import { cellText } from './format';
+
+// Aggregated value per column id (null when the column has no aggregate or no values)
+export type ReportTotals = Record<string, number | null>;
+
+export interface ReportGroup<Row = Record<string, any>> {
+  columnId: string; // Column the rows are grouped by
+  value: any;
+  label: string; // e.g. "Category: home"
+  depth: number; // 0 for the outermost grouping
+  rows: Row[]; // Every row in the group, including those of nested groups
+  groups: ReportGroup<Row>[]; // Nested groups (empty at the innermost level)
+  totals: ReportTotals;
+}
+
+// A report flattened for rendering, in display order
+export type ReportLine<Row = Record<string, any>> =
+  | { kind: 'group'; group: ReportGroup<Row> } // Group heading
+  | { kind: 'row'; row: Row; depth: number } // depth = number of enclosing groups
+  | { kind: 'subtotal'; group: ReportGroup<Row> }
+  | { kind: 'total'; totals: ReportTotals; count: number };
+
+const AGGREGATE_LABELS: Record<ReportAggregate, string> = {
+  sum: 'Sum',
+  avg: 'Avg',
+  count: 'Count',
+  min: 'Min',
+  max: 'Max',
+};
+
+const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+/**
+ * Aggregate a column's values. Empty values are skipped; `count` counts the rest.
+ * @returns null when there is nothing to aggregate
+ */
+export function aggregateValues(aggregate: ReportAggregate, values: any[]): number | null {
+  if (aggregate === 'count') {
+    return values.filter((value) => value !== null && value !== undefined && value !== '').length;
+  }
+
+  const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+  if (numbers.length === 0) return null;
+
+  switch (aggregate) {
+    case 'sum':
+      return Math.round(numbers.reduce((sum, value) => sum + value, 0) * 100) / 100;
+    case 'avg':
+      return Math.round((numbers.reduce((sum, value) => sum + value, 0) / numbers.length) * 100) / 100;
+    case 'min':
+      return numbers.reduce((min, value) => (value < min ? value : min));
+    case 'max':
+      return numbers.reduce((max, value) => (value > max ? value : max));
+  }
+}
+
+export const hasAggregates = (columns: ExportColumn<any>[]): boolean => columns.some((column) => column.aggregate);
+
+export function computeTotals<Row extends Record<string, any>>(rows: Row[], columns: ExportColumn<Row>[]): ReportTotals {
+  return Object.fromEntries(
+    columns
+      .filter((column) => column.aggregate)
+      .map((column) => [column.id, aggregateValues(column.aggregate!, rows.map((row) => row[column.id]))])
+  );
+}
+
+/**
+ * Group rows by one or more columns, outermost first. Groups keep the order in which their
+ * first row appears, so the report's sort decides the group order.
+ */
+export function groupRows<Row extends Record<string, any>>(
+  rows: Row[],
+  groupBy: string[],
+  columns: ExportColumn<Row>[],
+  depth = 0
+): ReportGroup<Row>[] {
+  if (depth >= groupBy.length) return [];
+
+  const columnId = groupBy[depth];
+  const column = columns.find((col) => col.id === columnId);
+  const buckets = new Map<string, Row[]>();
+  for (const row of rows) {
+    const key = String(row[columnId] ?? '');
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(row);
+    else buckets.set(key, [row]);
+  }
+
+  return Array.from(buckets.values()).map((groupRowsList) => {
+    const first = groupRowsList[0];
+    const text = column ? cellText(column, first) : String(first[columnId] ?? '');
+    return {
+      columnId,
+      value: first[columnId],
+      label: `${column?.label ?? columnId}: ${text || '(empty)'}`,
+      depth,
+      rows: groupRowsList,
+      groups: groupRows(groupRowsList, groupBy, columns, depth + 1),
+      totals: computeTotals(groupRowsList, columns),
+    };
+  });
+}
+
+/**
+ * Flatten a report into heading, row, subtotal and grand total lines.
+ * Without grouping or aggregates this is just the rows.
+ */
+export function reportLines<Row extends Record<string, any>>(
+  rows: Row[],
+  columns: ExportColumn<Row>[],
+  groupBy: string[] = []
+): ReportLine<Row>[] {
+  const lines: ReportLine<Row>[] = [];
+
+  const addGroup = (group: ReportGroup<Row>) => {
+    lines.push({ kind: 'group', group });
+    if (group.groups.length > 0) {
+      group.groups.forEach(addGroup);
+    } else {
+      group.rows.forEach((row) => lines.push({ kind: 'row', row, depth: group.depth + 1 }));
+    }
+    lines.push({ kind: 'subtotal', group });
+  };
+
+  if (groupBy.length > 0) {
+    groupRows(rows, groupBy, columns).forEach(addGroup);
+  } else {
+    rows.forEach((row) => lines.push({ kind: 'row', row, depth: 0 }));
+  }
+
+  if (groupBy.length > 0 || hasAggregates(columns)) {
+    lines.push({ kind: 'total', totals: computeTotals(rows, columns), count: rows.length });
+  }
+  return lines;
+}
+
+// Text of an aggregated value, e.g. "Avg: $12.50"
+export function totalText(column: ExportColumn<any>, totals: ReportTotals): string {
+  const value = totals[column.id];
+  if (!column.aggregate || value === null || value === undefined) return '';
+  const text = column.aggregate === 'count' || !column.format ? String(value) : column.format(value, {});
+  return `${AGGREGATE_LABELS[column.aggregate]}: ${text}`;
+}
+
+// Label of a subtotal or grand total line
+export const totalLabel = (line: Extract<ReportLine<any>, { kind: 'subtotal' | 'total' }>): string =>
+  line.kind === 'total' ? `Grand Total (${line.count})` : `Subtotal ${line.group.label} (${line.group.rows.length})`;
+
+// Text of every cell of a subtotal or grand total line; the label goes in the first column without an aggregate
+export function totalCells(
+  columns: ExportColumn<any>[],
+  line: Extract<ReportLine<any>, { kind: 'subtotal' | 'total' }>
+): string[] {
+  const totals = line.kind === 'total' ? line.totals : line.group.totals;
+  const labelIndex = Math.max(0, columns.findIndex((column) => !column.aggregate));
+  return columns.map((column, index) => (index === labelIndex ? totalLabel(line) : totalText(column, totals)));
+}
@@ -0,0 +1,12 @@
+export { registerExporter, unregisterExporter, getExporter, listExporters, runExport, ExportError } from './registry';
+export { cellText, cellValue, escapeHtml, defaultFileName } from './format';
+export { csvLine, csvHeader, csvRow } from './exporters/csv';
+export { jsonRow } from './exporters/json';
+export { exportManifest } from './exporters/zip';
+export { columnAlign, formatColumnValue, toExportColumn, toGridColumn } from './columns';
+export { chartData, chartShapes, chartTitle, renderChartSvg, shapesToSvg } from './chart';
+export { aggregateValues, computeTotals, groupRows, reportLines, totalCells, totalLabel, totalText } from './grouping';
+export type { Exporter, ExportColumn, ExportFile, ExportRequest } from './types';
+export type { ReportColumn, ReportValueType, ReportAggregate, ReportTone } from './columns';
+export type { ReportGroup, ReportLine, ReportTotals } from './grouping';
+export type { ChartPoint, ChartShape } from './chart';
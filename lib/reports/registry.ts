@@ -0,0 +1,75 @@
+import type { ReportFormat } from '@/components/DynamicSearch/types';
+import type { Exporter, ExportFile, ExportRequest } from './types';
+import { defaultFileName } from './format';
+import { csvExporter } from './exporters/csv';
+import { jsonExporter } from './exporters/json';
+import { excelExporter } from './exporters/excel';
+import { pdfExporter } from './exporters/pdf';
+import { htmlExporter } from './exporters/html';
+import { zipExporter } from './exporters/zip';
+
+/**
+ * Thrown for exports that can't run: an unregistered format or no columns.
+ */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+const exporters = new Map<ReportFormat, Exporter>(
+  [csvExporter, jsonExporter, excelExporter, pdfExporter, htmlExporter, zipExporter].map((exporter) => [exporter.format, exporter])
+);
+
+/**
+ * Add an exporter, or replace the one registered for its format.
+ *
+ * @example
+ * registerExporter({
+ *   format: 'markdown',
+ *   label: 'Download as Markdown',
+ *   extension: 'md',
+ *   mimeType: 'text/markdown',
+ *   export: async ({ rows, columns }) => toMarkdownTable(rows, columns),
+ * });
+ */
+export function registerExporter(exporter: Exporter): void {
+  exporters.set(exporter.format, exporter);
+}
+
+export function unregisterExporter(format: ReportFormat): boolean {
+  return exporters.delete(format);
+}
+
+export function getExporter(format: ReportFormat): Exporter | undefined {
+  return exporters.get(format);
+}
+
+export function listExporters(): Exporter[] {
+  return Array.from(exporters.values());
+}
+
+/**
+ * Render rows with the exporter registered for a format.
+ * @throws ExportError when no exporter is registered for the format or no columns are given
+ */
+export async function runExport<Row extends Record<string, any>>(
+  format: ReportFormat,
+  request: ExportRequest<Row>
+): Promise<ExportFile> {
+  const exporter = exporters.get(format);
+  if (!exporter) {
+    throw new ExportError(`No exporter registered for "${format}"`);
+  }
+  if (request.columns.length === 0) {
+    throw new ExportError('Select at least one column to export');
+  }
+
+  return {
+    fileName: `${request.fileName || defaultFileName(request.title)}.${exporter.extension}`,
+    mimeType: exporter.mimeType,
+    content: await exporter.export(request),
+    disposition: exporter.disposition ?? 'download',
+  };
+}
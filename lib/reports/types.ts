@@ -0,0 +1,43 @@
+import type { ReportFormat, ReportChartConfig } from '@/components/DynamicSearch/types';
+import type { ReportAggregate } from './columns';
+
+// One output column of an export
+export interface ExportColumn<Row = Record<string, any>> {
+  id: string; // Property of the row
+  label: string; // Header text
+  align?: 'left' | 'right';
+  width?: number; // In pixels (XLSX column widths)
+  format?: (value: any, row: Row) => string; // Text for CSV, PDF and HTML cells (default: the raw value)
+  value?: (value: any, row: Row) => string | number | boolean | null; // Typed value for XLSX and JSON (default: the raw value)
+  html?: (value: any, row: Row) => string; // Cell markup for the HTML preview (default: the escaped text)
+  aggregate?: ReportAggregate; // Shown in subtotal and grand total lines
+}
+
+// What every exporter receives
+export interface ExportRequest<Row = Record<string, any>> {
+  rows: Row[];
+  columns: ExportColumn<Row>[];
+  title: string;
+  description?: string;
+  params?: Record<string, any>; // The search that produced the rows
+  searchName?: string; // Name of the saved search the params came from, if any
+  groupBy?: string[]; // Column ids to group rows by, outermost first (see grouping.ts)
+  chart?: ReportChartConfig; // Drawn above the table in the PDF and HTML exports (see chart.ts)
+  fileName?: string; // Without extension (default: the title and today's date)
+}
+
+export interface ExportFile {
+  fileName: string; // With extension
+  mimeType: string;
+  content: string | Uint8Array;
+  disposition: 'download' | 'preview'; // 'preview' opens in a new window instead of saving
+}
+
+export interface Exporter {
+  format: ReportFormat;
+  label: string; // e.g. "Download as CSV"
+  extension: string; // Without the dot
+  mimeType: string;
+  disposition?: ExportFile['disposition']; // Default: 'download'
+  export: (request: ExportRequest<any>) => Promise<string | Uint8Array>;
+}
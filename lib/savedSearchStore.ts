@@ -0,0 +1,60 @@
+import type { SavedSearch, SearchVisibility } from '@/components/DynamicSearch/types';
+
+// Mock database - replace with your actual database.
+// Kept on globalThis so every route (and dev hot reloads) share the same records.
+const globalStore = globalThis as typeof globalThis & { __savedSearches?: SavedSearch[] };
+const savedSearches: SavedSearch[] = globalStore.__savedSearches ?? (globalStore.__savedSearches = []);
+
+export const SEARCH_VISIBILITIES: SearchVisibility[] = ['user', 'global'];
+
+/**
+ * Same rule as DynamicSearch's canDeleteSearch: admins can modify any search,
+ * everyone else only the searches they created.
+ */
+export function canModifySavedSearch(search: SavedSearch, userId: string, isAdmin: boolean): boolean {
+  if (isAdmin) return true;
+  return search.createdBy === userId;
+}
+
+/**
+ * Searches a user can see: their own plus every global search, optionally limited to one context.
+ */
+export function listSavedSearches(userId: string, context?: string): SavedSearch[] {
+  return savedSearches.filter((search) => {
+    if (context && search.context !== context) return false;
+    return search.visibility === 'global' || search.createdBy === userId;
+  });
+}
+
+export function getSavedSearch(id: string): SavedSearch | undefined {
+  return savedSearches.find((search) => search.id === id);
+}
+
+export function createSavedSearch(input: Omit<SavedSearch, 'id' | 'createdAt'>): SavedSearch {
+  const search: SavedSearch = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  savedSearches.push(search);
+  return search;
+}
+
+export function updateSavedSearch(
+  id: string,
+  changes: Partial<Pick<SavedSearch, 'name' | 'visibility' | 'description'>>
+): SavedSearch | undefined {
+  const index = savedSearches.findIndex((search) => search.id === id);
+  if (index === -1) return undefined;
+
+  savedSearches[index] = { ...savedSearches[index], ...changes };
+  return savedSearches[index];
+}
+
+export function deleteSavedSearch(id: string): boolean {
+  const index = savedSearches.findIndex((search) => search.id === id);
+  if (index === -1) return false;
+
+  savedSearches.splice(index, 1);
+  return true;
+}
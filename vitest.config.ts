@@ -14,6 +14,18 @@ const dirname =
 export default defineConfig({
   test: {
     projects: [
+      // Unit tests for the non-UI modules (query engine, URL state, ...), run in Node
+      {
+        extends: true,
+        resolve: {
+          alias: { '@': dirname },
+        },
+        test: {
+          name: 'unit',
+          environment: 'node',
+          include: ['lib/**/*.test.ts', 'components/**/*.test.ts', 'app/**/*.test.ts'],
+        },
+      },
       {
         extends: true,
         plugins: [